@@ -0,0 +1,161 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Per-Project Access Control
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_short_term_lifecycle.sql
+--
+-- Replaces the permissive "Public Access" policies. Afterwards only the service
+-- role and JWTs with memory_projects / memory_permissions claims can use the tables.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_relations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE structured_memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE structured_memory_schemas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE structured_memory_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE short_term_memory ENABLE ROW LEVEL SECURITY;
+
+-- Per-project access from the caller's JWT claims. The service role bypasses RLS;
+-- other callers send a JWT signed with the project's JWT secret carrying
+--   memory_projects:    project IDs the caller may use, or ["*"] for all
+--   memory_permissions: any of "read", "write", "delete"
+-- A NULL project checks the permission only (short-term memory has no project)
+CREATE OR REPLACE FUNCTION memory_access_allowed(target_project TEXT, permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        c.claims ->> 'role' = 'service_role'
+        OR (
+            (c.claims -> 'memory_permissions') ? permission
+            AND (
+                target_project IS NULL
+                OR (c.claims -> 'memory_projects') ? target_project
+                OR (c.claims -> 'memory_projects') ? '*'
+            )
+        ),
+        FALSE
+    )
+    FROM (SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb AS claims) c;
+$$;
+
+-- Record that memories were read (search results, direct lookups)
+-- Does not bump updated_at, so reading a memory does not make it "recent"
+-- Runs as the owner so callers with read-only access can record their reads
+CREATE OR REPLACE FUNCTION record_memory_access(memory_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE memories m
+    SET last_accessed_at = NOW(),
+        access_count = COALESCE(m.access_count, 0) + 1
+    WHERE m.id = ANY(memory_ids)
+    AND memory_access_allowed(m.project_id, 'read');
+END;
+$$;
+
+-- Record the previous version of a memory before it changes
+-- (runs as the owner: callers can read revisions but never write them)
+CREATE OR REPLACE FUNCTION record_memory_revision()
+RETURNS TRIGGER SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO memory_revisions (memory_id, project_id, revision, category, content, type, importance, metadata)
+    VALUES (
+        OLD.id,
+        OLD.project_id,
+        COALESCE((SELECT MAX(r.revision) FROM memory_revisions r WHERE r.memory_id = OLD.id), 0) + 1,
+        OLD.category,
+        OLD.content,
+        OLD.type,
+        OLD.importance,
+        OLD.metadata
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Structured memory history: keep the previous value on update (when it changed) and on delete
+-- (runs as the owner, like record_memory_revision)
+CREATE OR REPLACE FUNCTION record_structured_memory_history()
+RETURNS TRIGGER SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND OLD.value IS NOT DISTINCT FROM NEW.value
+        AND OLD.description IS NOT DISTINCT FROM NEW.description THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO structured_memory_history (project_id, category, key, value, description, operation)
+    VALUES (OLD.project_id, OLD.category, OLD.key, OLD.value, OLD.description, LOWER(TG_OP));
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Project tables: read, write (insert/update) and delete permissions per project
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['memories', 'structured_memories', 'structured_memory_schemas'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Public Access" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project read" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project insert" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project update" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project delete" ON %I', t);
+        EXECUTE format('CREATE POLICY "Project read" ON %I FOR SELECT USING (memory_access_allowed(project_id, ''read''))', t);
+        EXECUTE format('CREATE POLICY "Project insert" ON %I FOR INSERT WITH CHECK (memory_access_allowed(project_id, ''write''))', t);
+        EXECUTE format('CREATE POLICY "Project update" ON %I FOR UPDATE USING (memory_access_allowed(project_id, ''write'')) WITH CHECK (memory_access_allowed(project_id, ''write''))', t);
+        EXECUTE format('CREATE POLICY "Project delete" ON %I FOR DELETE USING (memory_access_allowed(project_id, ''delete''))', t);
+    END LOOP;
+
+    -- History tables are written by triggers only
+    FOREACH t IN ARRAY ARRAY['memory_revisions', 'structured_memory_history'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Public Access" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project read" ON %I', t);
+        EXECUTE format('CREATE POLICY "Project read" ON %I FOR SELECT USING (memory_access_allowed(project_id, ''read''))', t);
+    END LOOP;
+END $$;
+
+-- Relations belong to their source memory's project
+DROP POLICY IF EXISTS "Public Access" ON memory_relations;
+DROP POLICY IF EXISTS "Project read" ON memory_relations;
+DROP POLICY IF EXISTS "Project insert" ON memory_relations;
+DROP POLICY IF EXISTS "Project update" ON memory_relations;
+DROP POLICY IF EXISTS "Project delete" ON memory_relations;
+CREATE POLICY "Project read" ON memory_relations FOR SELECT USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'read'))
+);
+CREATE POLICY "Project insert" ON memory_relations FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+);
+CREATE POLICY "Project update" ON memory_relations FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+);
+CREATE POLICY "Project delete" ON memory_relations FOR DELETE USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'delete'))
+);
+
+-- Short-term memory: any caller allowed to read (or write) some project
+DROP POLICY IF EXISTS "Public Access" ON short_term_memory;
+DROP POLICY IF EXISTS "Session read" ON short_term_memory;
+DROP POLICY IF EXISTS "Session write" ON short_term_memory;
+CREATE POLICY "Session read" ON short_term_memory FOR SELECT USING (memory_access_allowed(NULL, 'read'));
+CREATE POLICY "Session write" ON short_term_memory FOR ALL USING (memory_access_allowed(NULL, 'write'))
+    WITH CHECK (memory_access_allowed(NULL, 'write'));
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Created/replaced function: memory_access_allowed';
+    RAISE NOTICE '   - Replaced functions: record_memory_access, record_memory_revision, record_structured_memory_history';
+    RAISE NOTICE '   - Replaced "Public Access" policies with per-project read/write/delete policies';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
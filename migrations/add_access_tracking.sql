@@ -0,0 +1,143 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Access Tracking and Weighted Search Ranking
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_deduplication.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Add 'last_accessed_at' and 'access_count' columns if they don't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 
+        FROM information_schema.columns 
+        WHERE table_name = 'memories' 
+        AND column_name = 'access_count'
+    ) THEN
+        ALTER TABLE memories ADD COLUMN last_accessed_at TIMESTAMP WITH TIME ZONE;
+        ALTER TABLE memories ADD COLUMN access_count INTEGER DEFAULT 0;
+        RAISE NOTICE 'Added columns: memories.last_accessed_at, memories.access_count';
+    ELSE
+        RAISE NOTICE 'Column memories.access_count already exists';
+    END IF;
+END $$;
+
+-- The return type changes, so the previous version has to go first
+DROP FUNCTION IF EXISTS match_memories(vector, TEXT, TEXT, FLOAT, INT, TEXT);
+
+-- Semantic Search (Updated to include type filtering)
+-- Only memories embedded with match_embedding_model are compared (NULL = any model)
+-- Results are ranked by a weighted score:
+--   similarity * similarity_weight
+--   + importance/5 * importance_weight
+--   + 0.5^(age_days / recency_half_life_days) * recency_weight     (age from updated_at)
+--   + ln(1+n)/(1+ln(1+n)) * access_weight                          (n = access_count)
+CREATE OR REPLACE FUNCTION match_memories(
+    query_embedding vector,
+    match_project_id TEXT,
+    match_category TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 5,
+    match_embedding_model TEXT DEFAULT NULL,
+    similarity_weight FLOAT DEFAULT 1.0,
+    importance_weight FLOAT DEFAULT 0.3,
+    recency_weight FLOAT DEFAULT 0.2,
+    access_weight FLOAT DEFAULT 0.1,
+    recency_half_life_days FLOAT DEFAULT 30
+)
+RETURNS TABLE (
+    id UUID,
+    project_id TEXT,
+    category TEXT,
+    content TEXT,
+    metadata JSONB,
+    type TEXT,
+    importance INT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    access_count INT,
+    similarity FLOAT,
+    importance_score FLOAT,
+    recency_score FLOAT,
+    access_score FLOAT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        -- Nearest neighbours first, then re-rank the pool by the combined score
+        SELECT
+            m.*,
+            1 - (m.embedding <=> query_embedding) AS sim
+        FROM memories m
+        WHERE m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_embedding_model IS NULL OR m.embedding_model = match_embedding_model)
+          AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+        ORDER BY m.embedding <=> query_embedding
+        LIMIT match_count * 10
+    ),
+    components AS (
+        SELECT
+            c.*,
+            COALESCE(c.importance, 1) / 5.0 AS imp,
+            POWER(0.5, EXTRACT(EPOCH FROM (NOW() - COALESCE(c.updated_at, c.created_at))) / 86400.0 / recency_half_life_days) AS rec,
+            LN(1 + COALESCE(c.access_count, 0)) / (1 + LN(1 + COALESCE(c.access_count, 0))) AS acc
+        FROM candidates c
+    )
+    SELECT
+        x.id,
+        x.project_id,
+        x.category,
+        x.content,
+        x.metadata,
+        x.type,
+        x.importance,
+        x.created_at,
+        x.updated_at,
+        x.last_accessed_at,
+        COALESCE(x.access_count, 0),
+        x.sim::FLOAT,
+        x.imp::FLOAT,
+        x.rec::FLOAT,
+        x.acc::FLOAT,
+        (x.sim * similarity_weight + x.imp * importance_weight + x.rec * recency_weight + x.acc * access_weight)::FLOAT
+    FROM components x
+    ORDER BY (x.sim * similarity_weight + x.imp * importance_weight + x.rec * recency_weight + x.acc * access_weight) DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Record that memories were read (search results, direct lookups)
+-- Does not bump updated_at, so reading a memory does not make it "recent"
+CREATE OR REPLACE FUNCTION record_memory_access(memory_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE memories m
+    SET last_accessed_at = NOW(),
+        access_count = COALESCE(m.access_count, 0) + 1
+    WHERE m.id = ANY(memory_ids);
+END;
+$$;
+
+-- Reading a memory should not bump updated_at (which drives recency)
+DROP TRIGGER IF EXISTS update_memories_updated_at ON memories;
+CREATE TRIGGER update_memories_updated_at BEFORE UPDATE ON memories FOR EACH ROW
+    WHEN (OLD.last_accessed_at IS NOT DISTINCT FROM NEW.last_accessed_at)
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added columns: memories.last_accessed_at, memories.access_count';
+    RAISE NOTICE '   - Created/replaced function: match_memories';
+    RAISE NOTICE '   - Created/replaced function: record_memory_access';
+    RAISE NOTICE '   - Updated trigger: update_memories_updated_at';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,105 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Memory Deduplication
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_memory_revisions.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Deduplication: pairs of memories in a project whose embeddings are near-identical
+-- (a pair may be reported from both sides)
+CREATE OR REPLACE FUNCTION find_duplicate_memories(
+    match_project_id TEXT,
+    match_threshold FLOAT DEFAULT 0.95,
+    match_embedding_model TEXT DEFAULT NULL,
+    neighbor_count INT DEFAULT 5
+)
+RETURNS TABLE (
+    memory_id UUID,
+    duplicate_id UUID,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        a.id AS memory_id,
+        n.neighbor_id AS duplicate_id,
+        n.neighbor_similarity AS similarity
+    FROM memories a
+    CROSS JOIN LATERAL (
+        -- Nearest neighbours through the HNSW index
+        SELECT
+            b.id AS neighbor_id,
+            1 - (b.embedding <=> a.embedding) AS neighbor_similarity
+        FROM memories b
+        WHERE b.project_id = a.project_id
+          AND b.id <> a.id
+          AND (match_embedding_model IS NULL OR b.embedding_model = match_embedding_model)
+        ORDER BY b.embedding <=> a.embedding
+        LIMIT neighbor_count
+    ) n
+    WHERE a.project_id = match_project_id
+      AND a.embedding IS NOT NULL
+      AND (match_embedding_model IS NULL OR a.embedding_model = match_embedding_model)
+      AND n.neighbor_similarity >= match_threshold;
+END;
+$$;
+
+-- Deduplication: fold a duplicate into the kept memory and delete it
+CREATE OR REPLACE FUNCTION merge_memories(
+    keep_id UUID,
+    duplicate_id UUID,
+    target_project_id TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    dup memories%ROWTYPE;
+BEGIN
+    SELECT * INTO dup FROM memories m WHERE m.id = duplicate_id AND m.project_id = target_project_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Memory % not found in project %', duplicate_id, target_project_id;
+    END IF;
+
+    -- Kept keys win, new keys are appended and the hit counter grows
+    UPDATE memories m
+    SET
+        importance = GREATEST(m.importance, dup.importance),
+        metadata = COALESCE(dup.metadata, '{}'::jsonb) || COALESCE(m.metadata, '{}'::jsonb) || jsonb_build_object(
+            'duplicate_count',
+            COALESCE((m.metadata->>'duplicate_count')::INT, 0) + COALESCE((dup.metadata->>'duplicate_count')::INT, 0) + 1,
+            'last_duplicate_at',
+            NOW()
+        )
+    WHERE m.id = keep_id AND m.project_id = target_project_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Memory % not found in project %', keep_id, target_project_id;
+    END IF;
+
+    -- Move edges over, skipping edges between the two and ones the kept memory already has
+    INSERT INTO memory_relations (source_id, target_id, relation_type, created_at)
+    SELECT
+        CASE WHEN r.source_id = duplicate_id THEN keep_id ELSE r.source_id END,
+        CASE WHEN r.target_id = duplicate_id THEN keep_id ELSE r.target_id END,
+        r.relation_type,
+        r.created_at
+    FROM memory_relations r
+    WHERE (r.source_id = duplicate_id OR r.target_id = duplicate_id)
+      AND NOT (r.source_id IN (keep_id, duplicate_id) AND r.target_id IN (keep_id, duplicate_id))
+    ON CONFLICT (source_id, target_id, relation_type) DO NOTHING;
+
+    -- Cascades to the duplicate's own edges and revisions
+    DELETE FROM memories m WHERE m.id = duplicate_id;
+END;
+$$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Created/replaced function: find_duplicate_memories';
+    RAISE NOTICE '   - Created/replaced function: merge_memories';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,197 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Record Embedding Model per Memory
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_hybrid_search.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Add 'embedding_model' and 'embedding_dimension' columns if they don't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 
+        FROM information_schema.columns 
+        WHERE table_name = 'memories' 
+        AND column_name = 'embedding_model'
+    ) THEN
+        ALTER TABLE memories ADD COLUMN embedding_model TEXT;
+        ALTER TABLE memories ADD COLUMN embedding_dimension INTEGER;
+        RAISE NOTICE 'Added columns: memories.embedding_model, memories.embedding_dimension';
+    ELSE
+        RAISE NOTICE 'Column memories.embedding_model already exists';
+    END IF;
+END $$;
+
+-- Existing embeddings were all produced by the original default model
+UPDATE memories
+SET embedding_model = 'Xenova/all-MiniLM-L6-v2',
+    embedding_dimension = 384
+WHERE embedding_model IS NULL
+  AND embedding IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memories_embedding_model ON memories(embedding_model);
+
+-- Drop superseded signatures so PostgREST can resolve each RPC unambiguously
+DROP FUNCTION IF EXISTS match_memories(vector, TEXT, TEXT, FLOAT, INT);
+DROP FUNCTION IF EXISTS hybrid_search_memories(TEXT, vector, TEXT, TEXT, FLOAT, INT, TEXT, INT);
+
+-- Semantic Search (Updated to include type filtering)
+-- Only memories embedded with match_embedding_model are compared (NULL = any model)
+CREATE OR REPLACE FUNCTION match_memories(
+    query_embedding vector,
+    match_project_id TEXT,
+    match_category TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 5,
+    match_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    project_id TEXT,
+    category TEXT,
+    content TEXT,
+    metadata JSONB,
+    type TEXT,
+    importance INT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        m.id,
+        m.project_id,
+        m.category,
+        m.content,
+        m.metadata,
+        m.type,
+        m.importance,
+        m.created_at,
+        1 - (m.embedding <=> query_embedding) AS similarity
+    FROM memories m
+    WHERE m.project_id = match_project_id
+      AND (match_category IS NULL OR m.category = match_category)
+      AND (match_embedding_model IS NULL OR m.embedding_model = match_embedding_model)
+      AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+    ORDER BY m.importance DESC, (m.embedding <=> query_embedding) ASC
+    LIMIT match_count;
+END;
+$$;
+
+-- Hybrid Search: full-text keyword ranking fused with vector similarity
+-- search_mode: 'keyword' (full-text only) or 'hybrid' (reciprocal rank fusion of both)
+CREATE OR REPLACE FUNCTION hybrid_search_memories(
+    query_text TEXT,
+    query_embedding vector DEFAULT NULL,
+    match_project_id TEXT DEFAULT NULL,
+    match_category TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 5,
+    search_mode TEXT DEFAULT 'hybrid',
+    rrf_k INT DEFAULT 60,
+    match_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    project_id TEXT,
+    category TEXT,
+    content TEXT,
+    metadata JSONB,
+    type TEXT,
+    importance INT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    similarity FLOAT,
+    keyword_score FLOAT,
+    vector_rank INT,
+    keyword_rank INT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH vector_matches AS (
+        SELECT
+            m.id AS memory_id,
+            1 - (m.embedding <=> query_embedding) AS v_similarity,
+            ROW_NUMBER() OVER (ORDER BY m.embedding <=> query_embedding) AS v_rank
+        FROM memories m
+        WHERE search_mode = 'hybrid'
+          AND query_embedding IS NOT NULL
+          AND m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_embedding_model IS NULL OR m.embedding_model = match_embedding_model)
+          AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+        ORDER BY m.embedding <=> query_embedding
+        LIMIT match_count * 4
+    ),
+    keyword_matches AS (
+        SELECT
+            m.id AS memory_id,
+            ts_rank_cd(m.content_tsv, q.tsq) AS k_score,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(m.content_tsv, q.tsq) DESC) AS k_rank
+        FROM memories m, websearch_to_tsquery('english', query_text) AS q(tsq)
+        WHERE m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND m.content_tsv @@ q.tsq
+        ORDER BY k_score DESC
+        LIMIT match_count * 4
+    )
+    SELECT
+        m.id,
+        m.project_id,
+        m.category,
+        m.content,
+        m.metadata,
+        m.type,
+        m.importance,
+        m.created_at,
+        v.v_similarity AS similarity,
+        k.k_score::FLOAT AS keyword_score,
+        v.v_rank::INT AS vector_rank,
+        k.k_rank::INT AS keyword_rank,
+        (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0))::FLOAT AS score
+    FROM vector_matches v
+    FULL OUTER JOIN keyword_matches k ON v.memory_id = k.memory_id
+    JOIN memories m ON m.id = COALESCE(v.memory_id, k.memory_id)
+    ORDER BY (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0)) DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Embedding model breakdown (detects tables mixing vectors from different models)
+CREATE OR REPLACE FUNCTION embedding_model_stats(
+    match_project_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    embedding_model TEXT,
+    embedding_dimension INT,
+    memory_count BIGINT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        m.embedding_model,
+        m.embedding_dimension,
+        COUNT(*) AS memory_count
+    FROM memories m
+    WHERE match_project_id IS NULL OR m.project_id = match_project_id
+    GROUP BY m.embedding_model, m.embedding_dimension
+    ORDER BY COUNT(*) DESC;
+END;
+$$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added/verified columns: embedding_model, embedding_dimension';
+    RAISE NOTICE '   - Backfilled existing rows as Xenova/all-MiniLM-L6-v2 (384)';
+    RAISE NOTICE '   - Added/verified index: idx_memories_embedding_model';
+    RAISE NOTICE '   - Replaced functions: match_memories, hybrid_search_memories, embedding_model_stats';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
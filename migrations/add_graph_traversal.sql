@@ -0,0 +1,161 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Multi-hop Graph Traversal
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_access_tracking.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Graph Traversal: multi-hop walk from a memory
+-- traverse_direction: 'outgoing', 'incoming' or 'both'; relation_types NULL = any type
+-- Each memory is reported once, at its shallowest depth; paths never revisit a memory
+CREATE OR REPLACE FUNCTION traverse_memory_graph(
+    start_id UUID,
+    max_depth INT DEFAULT 3,
+    relation_types TEXT[] DEFAULT NULL,
+    traverse_direction TEXT DEFAULT 'both',
+    max_results INT DEFAULT 50
+)
+RETURNS TABLE (
+    memory_id UUID,
+    depth INT,
+    parent_id UUID,
+    relation_type TEXT,
+    direction TEXT,
+    path UUID[],
+    category TEXT,
+    content TEXT,
+    type TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH RECURSIVE edges AS (
+        SELECT r.source_id AS from_id, r.target_id AS to_id, r.relation_type AS rel, 'outgoing'::TEXT AS dir
+        FROM memory_relations r
+        WHERE traverse_direction IN ('outgoing', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+        UNION ALL
+        SELECT r.target_id, r.source_id, r.relation_type, 'incoming'::TEXT
+        FROM memory_relations r
+        WHERE traverse_direction IN ('incoming', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+    ),
+    walk AS (
+        SELECT e.to_id AS node_id, 1 AS hops, e.from_id AS parent, e.rel, e.dir, ARRAY[start_id, e.to_id] AS trail
+        FROM edges e
+        WHERE e.from_id = start_id
+          AND e.to_id <> start_id
+        UNION ALL
+        SELECT e.to_id, w.hops + 1, e.from_id, e.rel, e.dir, w.trail || e.to_id
+        FROM walk w
+        JOIN edges e ON e.from_id = w.node_id
+        WHERE w.hops < max_depth
+          AND NOT e.to_id = ANY(w.trail)
+    ),
+    shallowest AS (
+        SELECT DISTINCT ON (w.node_id) w.*
+        FROM walk w
+        ORDER BY w.node_id, w.hops
+    )
+    SELECT
+        s.node_id,
+        s.hops,
+        s.parent,
+        s.rel,
+        s.dir,
+        s.trail,
+        m.category,
+        m.content,
+        m.type
+    FROM shallowest s
+    JOIN memories m ON m.id = s.node_id
+    ORDER BY s.hops, s.node_id
+    LIMIT max_results;
+END;
+$$;
+
+-- Graph Traversal: shortest relation chain between two memories
+-- Returns one row per memory on the path (step 0 = source); no rows when there is no path
+CREATE OR REPLACE FUNCTION find_memory_path(
+    source_id UUID,
+    target_id UUID,
+    max_depth INT DEFAULT 6,
+    relation_types TEXT[] DEFAULT NULL,
+    traverse_direction TEXT DEFAULT 'both'
+)
+RETURNS TABLE (
+    step INT,
+    memory_id UUID,
+    relation_type TEXT,
+    direction TEXT,
+    category TEXT,
+    content TEXT,
+    type TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF source_id = target_id THEN
+        RETURN QUERY
+        SELECT 0, m.id, NULL::TEXT, NULL::TEXT, m.category, m.content, m.type
+        FROM memories m
+        WHERE m.id = source_id;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH RECURSIVE edges AS (
+        SELECT r.source_id AS from_id, r.target_id AS to_id, r.relation_type AS rel, 'outgoing'::TEXT AS dir
+        FROM memory_relations r
+        WHERE traverse_direction IN ('outgoing', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+        UNION ALL
+        SELECT r.target_id, r.source_id, r.relation_type, 'incoming'::TEXT
+        FROM memory_relations r
+        WHERE traverse_direction IN ('incoming', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+    ),
+    walk AS (
+        SELECT e.to_id AS node_id, 1 AS hops, ARRAY[source_id, e.to_id] AS trail, ARRAY[e.rel] AS rels, ARRAY[e.dir] AS dirs
+        FROM edges e
+        WHERE e.from_id = source_id
+          AND e.to_id <> source_id
+        UNION ALL
+        SELECT e.to_id, w.hops + 1, w.trail || e.to_id, w.rels || e.rel, w.dirs || e.dir
+        FROM walk w
+        JOIN edges e ON e.from_id = w.node_id
+        WHERE w.hops < max_depth
+          AND w.node_id <> target_id
+          AND NOT e.to_id = ANY(w.trail)
+    ),
+    shortest AS (
+        SELECT w.trail, w.rels, w.dirs
+        FROM walk w
+        WHERE w.node_id = target_id
+        ORDER BY w.hops
+        LIMIT 1
+    )
+    SELECT
+        (t.ord - 1)::INT,
+        t.node,
+        CASE WHEN t.ord > 1 THEN s.rels[t.ord - 1] END,
+        CASE WHEN t.ord > 1 THEN s.dirs[t.ord - 1] END,
+        m.category,
+        m.content,
+        m.type
+    FROM shortest s
+    CROSS JOIN LATERAL unnest(s.trail) WITH ORDINALITY AS t(node, ord)
+    JOIN memories m ON m.id = t.node
+    ORDER BY t.ord;
+END;
+$$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Created/replaced function: traverse_memory_graph';
+    RAISE NOTICE '   - Created/replaced function: find_memory_path';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,114 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Hybrid Search (full-text + vector)
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Add 'content_tsv' column if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 
+        FROM information_schema.columns 
+        WHERE table_name = 'memories' 
+        AND column_name = 'content_tsv'
+    ) THEN
+        ALTER TABLE memories ADD COLUMN content_tsv tsvector
+            GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+        RAISE NOTICE 'Added column: memories.content_tsv';
+    ELSE
+        RAISE NOTICE 'Column memories.content_tsv already exists';
+    END IF;
+END $$;
+
+-- Create full-text index if it doesn't exist
+CREATE INDEX IF NOT EXISTS idx_memories_content_tsv ON memories USING gin (content_tsv);
+
+-- Hybrid Search: full-text keyword ranking fused with vector similarity
+-- search_mode: 'keyword' (full-text only) or 'hybrid' (reciprocal rank fusion of both)
+CREATE OR REPLACE FUNCTION hybrid_search_memories(
+    query_text TEXT,
+    query_embedding vector(384) DEFAULT NULL,
+    match_project_id TEXT DEFAULT NULL,
+    match_category TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 5,
+    search_mode TEXT DEFAULT 'hybrid',
+    rrf_k INT DEFAULT 60
+)
+RETURNS TABLE (
+    id UUID,
+    project_id TEXT,
+    category TEXT,
+    content TEXT,
+    metadata JSONB,
+    type TEXT,
+    importance INT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    similarity FLOAT,
+    keyword_score FLOAT,
+    vector_rank INT,
+    keyword_rank INT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH vector_matches AS (
+        SELECT
+            m.id AS memory_id,
+            1 - (m.embedding <=> query_embedding) AS v_similarity,
+            ROW_NUMBER() OVER (ORDER BY m.embedding <=> query_embedding) AS v_rank
+        FROM memories m
+        WHERE search_mode = 'hybrid'
+          AND query_embedding IS NOT NULL
+          AND m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+        ORDER BY m.embedding <=> query_embedding
+        LIMIT match_count * 4
+    ),
+    keyword_matches AS (
+        SELECT
+            m.id AS memory_id,
+            ts_rank_cd(m.content_tsv, q.tsq) AS k_score,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(m.content_tsv, q.tsq) DESC) AS k_rank
+        FROM memories m, websearch_to_tsquery('english', query_text) AS q(tsq)
+        WHERE m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND m.content_tsv @@ q.tsq
+        ORDER BY k_score DESC
+        LIMIT match_count * 4
+    )
+    SELECT
+        m.id,
+        m.project_id,
+        m.category,
+        m.content,
+        m.metadata,
+        m.type,
+        m.importance,
+        m.created_at,
+        v.v_similarity AS similarity,
+        k.k_score::FLOAT AS keyword_score,
+        v.v_rank::INT AS vector_rank,
+        k.k_rank::INT AS keyword_rank,
+        (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0))::FLOAT AS score
+    FROM vector_matches v
+    FULL OUTER JOIN keyword_matches k ON v.memory_id = k.memory_id
+    JOIN memories m ON m.id = COALESCE(v.memory_id, k.memory_id)
+    ORDER BY (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0)) DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added/verified column: content_tsv';
+    RAISE NOTICE '   - Added/verified index: idx_memories_content_tsv';
+    RAISE NOTICE '   - Created/replaced function: hybrid_search_memories';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,114 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Memory Updates and Revision History
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_embedding_models.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS memory_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    memory_id UUID REFERENCES memories(id) ON DELETE CASCADE,
+    project_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,      -- 1 = original version
+    category TEXT,
+    content TEXT NOT NULL,
+    type TEXT,
+    importance INTEGER,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- When this version was superseded
+    
+    UNIQUE(memory_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_memory ON memory_revisions(memory_id);
+
+-- Update Memory: patch fields in place (NULL = keep), merging metadata unless replace_metadata
+CREATE OR REPLACE FUNCTION update_memory(
+    target_id UUID,
+    target_project_id TEXT,
+    new_content TEXT DEFAULT NULL,
+    new_embedding vector DEFAULT NULL,
+    new_embedding_model TEXT DEFAULT NULL,
+    new_embedding_dimension INT DEFAULT NULL,
+    new_category TEXT DEFAULT NULL,
+    new_type TEXT DEFAULT NULL,
+    new_importance INT DEFAULT NULL,
+    new_metadata JSONB DEFAULT NULL,
+    replace_metadata BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF memories
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE memories m
+    SET
+        content = COALESCE(new_content, m.content),
+        embedding = COALESCE(new_embedding, m.embedding),
+        embedding_model = COALESCE(new_embedding_model, m.embedding_model),
+        embedding_dimension = COALESCE(new_embedding_dimension, m.embedding_dimension),
+        category = COALESCE(new_category, m.category),
+        type = COALESCE(new_type, m.type),
+        importance = COALESCE(new_importance, m.importance),
+        metadata = CASE
+            WHEN new_metadata IS NULL THEN m.metadata
+            WHEN replace_metadata THEN new_metadata
+            ELSE COALESCE(m.metadata, '{}'::jsonb) || new_metadata
+        END
+    WHERE m.id = target_id
+      AND m.project_id = target_project_id
+    RETURNING m.*;
+END;
+$$;
+
+-- Record the previous version of a memory before it changes
+CREATE OR REPLACE FUNCTION record_memory_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO memory_revisions (memory_id, project_id, revision, category, content, type, importance, metadata)
+    VALUES (
+        OLD.id,
+        OLD.project_id,
+        COALESCE((SELECT MAX(r.revision) FROM memory_revisions r WHERE r.memory_id = OLD.id), 0) + 1,
+        OLD.category,
+        OLD.content,
+        OLD.type,
+        OLD.importance,
+        OLD.metadata
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_memory_revision ON memories;
+CREATE TRIGGER record_memory_revision BEFORE UPDATE ON memories FOR EACH ROW
+    WHEN (OLD.content IS DISTINCT FROM NEW.content
+        OR OLD.category IS DISTINCT FROM NEW.category
+        OR OLD.type IS DISTINCT FROM NEW.type
+        OR OLD.importance IS DISTINCT FROM NEW.importance
+        OR OLD.metadata IS DISTINCT FROM NEW.metadata)
+    EXECUTE FUNCTION record_memory_revision();
+
+ALTER TABLE memory_revisions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_policies
+        WHERE tablename = 'memory_revisions'
+        AND policyname = 'Public Access'
+    ) THEN
+        CREATE POLICY "Public Access" ON memory_revisions FOR ALL USING (true) WITH CHECK (true);
+    END IF;
+END $$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added/verified table: memory_revisions';
+    RAISE NOTICE '   - Created/replaced function: update_memory';
+    RAISE NOTICE '   - Created/replaced trigger: record_memory_revision';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,148 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Project Statistics
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_access_control.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Project Stats: breakdowns, graph shape, growth and access for one project, as a JSON report
+CREATE OR REPLACE FUNCTION project_stats(
+    target_project_id TEXT,
+    growth_bucket TEXT DEFAULT 'month',
+    bucket_count INT DEFAULT 12,
+    top_count INT DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    step INTERVAL;
+    current_bucket TIMESTAMP;
+BEGIN
+    IF growth_bucket NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Unsupported growth bucket: %', growth_bucket;
+    END IF;
+
+    step := ('1 ' || growth_bucket)::INTERVAL;
+    current_bucket := date_trunc(growth_bucket, NOW() AT TIME ZONE 'UTC');
+
+    RETURN jsonb_build_object(
+        'total_memories', (
+            SELECT COUNT(*) FROM memories m WHERE m.project_id = target_project_id
+        ),
+        'by_category', (
+            SELECT COALESCE(jsonb_object_agg(c.category, c.n), '{}'::jsonb)
+            FROM (
+                SELECT COALESCE(m.category, 'uncategorized') AS category, COUNT(*) AS n
+                FROM memories m WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) c
+        ),
+        'by_type', (
+            SELECT COALESCE(jsonb_object_agg(t.type, t.n), '{}'::jsonb)
+            FROM (
+                SELECT COALESCE(m.type, 'episodic') AS type, COUNT(*) AS n
+                FROM memories m WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) t
+        ),
+        'by_importance', (
+            SELECT COALESCE(jsonb_object_agg(i.importance, i.n), '{}'::jsonb)
+            FROM (
+                SELECT COALESCE(m.importance, 1)::TEXT AS importance, COUNT(*) AS n
+                FROM memories m WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) i
+        ),
+        'relations', (
+            SELECT COUNT(*)
+            FROM memory_relations r
+            JOIN memories m ON m.id = r.source_id
+            WHERE m.project_id = target_project_id
+        ),
+        'relations_by_type', (
+            SELECT COALESCE(jsonb_object_agg(rt.relation_type, rt.n), '{}'::jsonb)
+            FROM (
+                SELECT r.relation_type, COUNT(*) AS n
+                FROM memory_relations r
+                JOIN memories m ON m.id = r.source_id
+                WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) rt
+        ),
+        'orphaned_memories', (
+            SELECT COUNT(*)
+            FROM memories m
+            WHERE m.project_id = target_project_id
+              AND NOT EXISTS (SELECT 1 FROM memory_relations r WHERE r.source_id = m.id)
+              AND NOT EXISTS (SELECT 1 FROM memory_relations r WHERE r.target_id = m.id)
+        ),
+        'structured_memories', (
+            SELECT COUNT(*) FROM structured_memories s WHERE s.project_id = target_project_id
+        ),
+        'structured_by_category', (
+            SELECT COALESCE(jsonb_object_agg(sc.category, sc.n), '{}'::jsonb)
+            FROM (
+                SELECT s.category, COUNT(*) AS n
+                FROM structured_memories s WHERE s.project_id = target_project_id
+                GROUP BY 1
+            ) sc
+        ),
+        'missing_embeddings', (
+            SELECT COUNT(*) FROM memories m WHERE m.project_id = target_project_id AND m.embedding IS NULL
+        ),
+        'storage_bytes', (
+            SELECT COALESCE(SUM(pg_column_size(m.*)), 0) FROM memories m WHERE m.project_id = target_project_id
+        ) + (
+            SELECT COALESCE(SUM(pg_column_size(s.*)), 0) FROM structured_memories s WHERE s.project_id = target_project_id
+        ),
+        'first_memory_at', (
+            SELECT MIN(m.created_at) FROM memories m WHERE m.project_id = target_project_id
+        ),
+        'last_memory_at', (
+            SELECT MAX(m.created_at) FROM memories m WHERE m.project_id = target_project_id
+        ),
+        'growth', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'bucket', to_char(b.bucket_start, 'YYYY-MM-DD'),
+                'created', (
+                    SELECT COUNT(*) FROM memories m
+                    WHERE m.project_id = target_project_id
+                      AND m.created_at >= b.bucket_start AT TIME ZONE 'UTC'
+                      AND m.created_at < (b.bucket_start + step) AT TIME ZONE 'UTC'
+                ),
+                'total', (
+                    SELECT COUNT(*) FROM memories m
+                    WHERE m.project_id = target_project_id
+                      AND m.created_at < (b.bucket_start + step) AT TIME ZONE 'UTC'
+                )
+            ) ORDER BY b.bucket_start), '[]'::jsonb)
+            FROM generate_series(current_bucket - step * (bucket_count - 1), current_bucket, step) AS b(bucket_start)
+        ),
+        'most_accessed', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'id', a.id,
+                'category', a.category,
+                'content', a.content,
+                'access_count', a.access_count,
+                'last_accessed_at', a.last_accessed_at
+            ) ORDER BY a.access_count DESC, a.last_accessed_at DESC NULLS LAST), '[]'::jsonb)
+            FROM (
+                SELECT m.id, m.category, m.content, m.access_count, m.last_accessed_at
+                FROM memories m
+                WHERE m.project_id = target_project_id AND m.access_count > 0
+                ORDER BY m.access_count DESC, m.last_accessed_at DESC NULLS LAST
+                LIMIT top_count
+            ) a
+        )
+    );
+END;
+$$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Created/replaced function: project_stats';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
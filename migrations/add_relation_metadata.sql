@@ -0,0 +1,177 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Relation Weights, Metadata and Edge Listing
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_graph_traversal.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Add 'weight' and 'metadata' columns to memory_relations if they don't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 
+        FROM information_schema.columns 
+        WHERE table_name = 'memory_relations' 
+        AND column_name = 'weight'
+    ) THEN
+        ALTER TABLE memory_relations ADD COLUMN weight FLOAT DEFAULT 1.0;
+        ALTER TABLE memory_relations ADD COLUMN metadata JSONB DEFAULT '{}';
+        RAISE NOTICE 'Added columns: memory_relations.weight, memory_relations.metadata';
+    ELSE
+        RAISE NOTICE 'Column memory_relations.weight already exists';
+    END IF;
+END $$;
+
+-- Deduplication: fold a duplicate into the kept memory and delete it
+CREATE OR REPLACE FUNCTION merge_memories(
+    keep_id UUID,
+    duplicate_id UUID,
+    target_project_id TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    dup memories%ROWTYPE;
+BEGIN
+    SELECT * INTO dup FROM memories m WHERE m.id = duplicate_id AND m.project_id = target_project_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Memory % not found in project %', duplicate_id, target_project_id;
+    END IF;
+
+    -- Kept keys win, new keys are appended and the hit counter grows
+    UPDATE memories m
+    SET
+        importance = GREATEST(m.importance, dup.importance),
+        metadata = COALESCE(dup.metadata, '{}'::jsonb) || COALESCE(m.metadata, '{}'::jsonb) || jsonb_build_object(
+            'duplicate_count',
+            COALESCE((m.metadata->>'duplicate_count')::INT, 0) + COALESCE((dup.metadata->>'duplicate_count')::INT, 0) + 1,
+            'last_duplicate_at',
+            NOW()
+        )
+    WHERE m.id = keep_id AND m.project_id = target_project_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Memory % not found in project %', keep_id, target_project_id;
+    END IF;
+
+    -- Move edges over, skipping edges between the two and ones the kept memory already has
+    INSERT INTO memory_relations (source_id, target_id, relation_type, weight, metadata, created_at)
+    SELECT
+        CASE WHEN r.source_id = duplicate_id THEN keep_id ELSE r.source_id END,
+        CASE WHEN r.target_id = duplicate_id THEN keep_id ELSE r.target_id END,
+        r.relation_type,
+        r.weight,
+        r.metadata,
+        r.created_at
+    FROM memory_relations r
+    WHERE (r.source_id = duplicate_id OR r.target_id = duplicate_id)
+      AND NOT (r.source_id IN (keep_id, duplicate_id) AND r.target_id IN (keep_id, duplicate_id))
+    ON CONFLICT (source_id, target_id, relation_type) DO NOTHING;
+
+    -- Cascades to the duplicate's own edges and revisions
+    DELETE FROM memories m WHERE m.id = duplicate_id;
+END;
+$$;
+
+-- Graph Traversal: Get Related Memories
+-- (dropped first because CREATE OR REPLACE cannot change the returned columns)
+DROP FUNCTION IF EXISTS get_related_memories(UUID);
+CREATE OR REPLACE FUNCTION get_related_memories(
+    start_id UUID
+)
+RETURNS TABLE (
+    relation_type TEXT,
+    direction TEXT,
+    weight FLOAT,
+    memory_id UUID,
+    category TEXT,
+    content TEXT,
+    type TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    -- Outgoing relations (I point to them)
+    SELECT 
+        r.relation_type,
+        'outgoing' as direction,
+        COALESCE(r.weight, 1.0) as weight,
+        m.id as memory_id,
+        m.category,
+        m.content,
+        m.type
+    FROM memory_relations r
+    JOIN memories m ON r.target_id = m.id
+    WHERE r.source_id = start_id
+    
+    UNION ALL
+    
+    -- Incoming relations (They point to me)
+    SELECT 
+        r.relation_type,
+        'incoming' as direction,
+        COALESCE(r.weight, 1.0) as weight,
+        m.id as memory_id,
+        m.category,
+        m.content,
+        m.type
+    FROM memory_relations r
+    JOIN memories m ON r.source_id = m.id
+    WHERE r.target_id = start_id;
+END;
+$$;
+
+-- Edges of a project (an edge belongs to the project of its source memory), newest first
+CREATE OR REPLACE FUNCTION list_memory_relations(
+    match_project_id TEXT,
+    match_relation_type TEXT DEFAULT NULL,
+    match_memory_id UUID DEFAULT NULL,
+    max_results INT DEFAULT 100
+)
+RETURNS TABLE (
+    id UUID,
+    source_id UUID,
+    target_id UUID,
+    relation_type TEXT,
+    weight FLOAT,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE,
+    source_content TEXT,
+    target_content TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.source_id,
+        r.target_id,
+        r.relation_type,
+        COALESCE(r.weight, 1.0),
+        COALESCE(r.metadata, '{}'::jsonb),
+        r.created_at,
+        s.content,
+        t.content
+    FROM memory_relations r
+    JOIN memories s ON s.id = r.source_id
+    JOIN memories t ON t.id = r.target_id
+    WHERE s.project_id = match_project_id
+      AND (match_relation_type IS NULL OR r.relation_type = match_relation_type)
+      AND (match_memory_id IS NULL OR r.source_id = match_memory_id OR r.target_id = match_memory_id)
+    ORDER BY r.created_at DESC
+    LIMIT max_results;
+END;
+$$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added columns: memory_relations.weight, memory_relations.metadata';
+    RAISE NOTICE '   - Created/replaced function: merge_memories';
+    RAISE NOTICE '   - Created/replaced function: get_related_memories';
+    RAISE NOTICE '   - Created/replaced function: list_memory_relations';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
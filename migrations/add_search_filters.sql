@@ -0,0 +1,229 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Search Filters (type, importance, metadata, date ranges)
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_relation_metadata.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Indexes for metadata containment and date-ordered listing
+CREATE INDEX IF NOT EXISTS idx_memories_metadata ON memories USING gin (metadata jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_memories_project_created ON memories(project_id, created_at);
+
+-- The filter arguments change both signatures, so drop the old ones first
+DROP FUNCTION IF EXISTS match_memories(vector, TEXT, TEXT, FLOAT, INT, TEXT, FLOAT, FLOAT, FLOAT, FLOAT, FLOAT);
+DROP FUNCTION IF EXISTS hybrid_search_memories(TEXT, vector, TEXT, TEXT, FLOAT, INT, TEXT, INT, TEXT);
+
+-- Semantic Search (Updated to include type filtering)
+-- Only memories embedded with match_embedding_model are compared (NULL = any model)
+-- Results are ranked by a weighted score:
+--   similarity * similarity_weight
+--   + importance/5 * importance_weight
+--   + 0.5^(age_days / recency_half_life_days) * recency_weight     (age from updated_at)
+--   + ln(1+n)/(1+ln(1+n)) * access_weight                          (n = access_count)
+-- Optional filters: match_types (any of), min_importance, metadata_filter (metadata @> filter)
+-- and created/updated date bounds (*_after inclusive, *_before exclusive)
+CREATE OR REPLACE FUNCTION match_memories(
+    query_embedding vector,
+    match_project_id TEXT,
+    match_category TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 5,
+    match_embedding_model TEXT DEFAULT NULL,
+    similarity_weight FLOAT DEFAULT 1.0,
+    importance_weight FLOAT DEFAULT 0.3,
+    recency_weight FLOAT DEFAULT 0.2,
+    access_weight FLOAT DEFAULT 0.1,
+    recency_half_life_days FLOAT DEFAULT 30,
+    match_types TEXT[] DEFAULT NULL,
+    min_importance INT DEFAULT NULL,
+    metadata_filter JSONB DEFAULT NULL,
+    created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    project_id TEXT,
+    category TEXT,
+    content TEXT,
+    metadata JSONB,
+    type TEXT,
+    importance INT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    access_count INT,
+    similarity FLOAT,
+    importance_score FLOAT,
+    recency_score FLOAT,
+    access_score FLOAT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        -- Nearest neighbours first, then re-rank the pool by the combined score
+        SELECT
+            m.*,
+            1 - (m.embedding <=> query_embedding) AS sim
+        FROM memories m
+        WHERE m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_types IS NULL OR m.type = ANY(match_types))
+          AND (min_importance IS NULL OR m.importance >= min_importance)
+          AND (metadata_filter IS NULL OR m.metadata @> metadata_filter)
+          AND (created_after IS NULL OR m.created_at >= created_after)
+          AND (created_before IS NULL OR m.created_at < created_before)
+          AND (updated_after IS NULL OR m.updated_at >= updated_after)
+          AND (updated_before IS NULL OR m.updated_at < updated_before)
+          AND (match_embedding_model IS NULL OR m.embedding_model = match_embedding_model)
+          AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+        ORDER BY m.embedding <=> query_embedding
+        LIMIT match_count * 10
+    ),
+    components AS (
+        SELECT
+            c.*,
+            COALESCE(c.importance, 1) / 5.0 AS imp,
+            POWER(0.5, EXTRACT(EPOCH FROM (NOW() - COALESCE(c.updated_at, c.created_at))) / 86400.0 / recency_half_life_days) AS rec,
+            LN(1 + COALESCE(c.access_count, 0)) / (1 + LN(1 + COALESCE(c.access_count, 0))) AS acc
+        FROM candidates c
+    )
+    SELECT
+        x.id,
+        x.project_id,
+        x.category,
+        x.content,
+        x.metadata,
+        x.type,
+        x.importance,
+        x.created_at,
+        x.updated_at,
+        x.last_accessed_at,
+        COALESCE(x.access_count, 0),
+        x.sim::FLOAT,
+        x.imp::FLOAT,
+        x.rec::FLOAT,
+        x.acc::FLOAT,
+        (x.sim * similarity_weight + x.imp * importance_weight + x.rec * recency_weight + x.acc * access_weight)::FLOAT
+    FROM components x
+    ORDER BY (x.sim * similarity_weight + x.imp * importance_weight + x.rec * recency_weight + x.acc * access_weight) DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Hybrid Search: full-text keyword ranking fused with vector similarity
+-- search_mode: 'keyword' (full-text only) or 'hybrid' (reciprocal rank fusion of both)
+-- Takes the same optional filters as match_memories
+CREATE OR REPLACE FUNCTION hybrid_search_memories(
+    query_text TEXT,
+    query_embedding vector DEFAULT NULL,
+    match_project_id TEXT DEFAULT NULL,
+    match_category TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 5,
+    search_mode TEXT DEFAULT 'hybrid',
+    rrf_k INT DEFAULT 60,
+    match_embedding_model TEXT DEFAULT NULL,
+    match_types TEXT[] DEFAULT NULL,
+    min_importance INT DEFAULT NULL,
+    metadata_filter JSONB DEFAULT NULL,
+    created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    project_id TEXT,
+    category TEXT,
+    content TEXT,
+    metadata JSONB,
+    type TEXT,
+    importance INT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    similarity FLOAT,
+    keyword_score FLOAT,
+    vector_rank INT,
+    keyword_rank INT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH vector_matches AS (
+        SELECT
+            m.id AS memory_id,
+            1 - (m.embedding <=> query_embedding) AS v_similarity,
+            ROW_NUMBER() OVER (ORDER BY m.embedding <=> query_embedding) AS v_rank
+        FROM memories m
+        WHERE search_mode = 'hybrid'
+          AND query_embedding IS NOT NULL
+          AND m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_types IS NULL OR m.type = ANY(match_types))
+          AND (min_importance IS NULL OR m.importance >= min_importance)
+          AND (metadata_filter IS NULL OR m.metadata @> metadata_filter)
+          AND (created_after IS NULL OR m.created_at >= created_after)
+          AND (created_before IS NULL OR m.created_at < created_before)
+          AND (updated_after IS NULL OR m.updated_at >= updated_after)
+          AND (updated_before IS NULL OR m.updated_at < updated_before)
+          AND (match_embedding_model IS NULL OR m.embedding_model = match_embedding_model)
+          AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+        ORDER BY m.embedding <=> query_embedding
+        LIMIT match_count * 4
+    ),
+    keyword_matches AS (
+        SELECT
+            m.id AS memory_id,
+            ts_rank_cd(m.content_tsv, q.tsq) AS k_score,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(m.content_tsv, q.tsq) DESC) AS k_rank
+        FROM memories m, websearch_to_tsquery('english', query_text) AS q(tsq)
+        WHERE m.project_id = match_project_id
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_types IS NULL OR m.type = ANY(match_types))
+          AND (min_importance IS NULL OR m.importance >= min_importance)
+          AND (metadata_filter IS NULL OR m.metadata @> metadata_filter)
+          AND (created_after IS NULL OR m.created_at >= created_after)
+          AND (created_before IS NULL OR m.created_at < created_before)
+          AND (updated_after IS NULL OR m.updated_at >= updated_after)
+          AND (updated_before IS NULL OR m.updated_at < updated_before)
+          AND m.content_tsv @@ q.tsq
+        ORDER BY k_score DESC
+        LIMIT match_count * 4
+    )
+    SELECT
+        m.id,
+        m.project_id,
+        m.category,
+        m.content,
+        m.metadata,
+        m.type,
+        m.importance,
+        m.created_at,
+        v.v_similarity AS similarity,
+        k.k_score::FLOAT AS keyword_score,
+        v.v_rank::INT AS vector_rank,
+        k.k_rank::INT AS keyword_rank,
+        (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0))::FLOAT AS score
+    FROM vector_matches v
+    FULL OUTER JOIN keyword_matches k ON v.memory_id = k.memory_id
+    JOIN memories m ON m.id = COALESCE(v.memory_id, k.memory_id)
+    ORDER BY (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0)) DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Created indexes: idx_memories_metadata, idx_memories_project_created';
+    RAISE NOTICE '   - Created/replaced function: match_memories (with filters)';
+    RAISE NOTICE '   - Created/replaced function: hybrid_search_memories (with filters)';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,84 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Short-Term Session Owners
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_project_stats.sql
+--
+-- Short-term sessions belong to the caller that wrote them, and relations need
+-- access to the projects of both their memories.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+DO $$
+BEGIN
+    -- Caller identity (JWT subject or API key name) the session belongs to;
+    -- NULL for entries written without access control
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'short_term_memory'
+        AND column_name = 'owner_id'
+    ) THEN
+        ALTER TABLE short_term_memory ADD COLUMN owner_id TEXT;
+    END IF;
+END $$;
+
+-- Whether the caller's JWT subject owns a short-term entry (the service role owns all)
+CREATE OR REPLACE FUNCTION session_owner_allowed(owner TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        c.claims ->> 'role' = 'service_role'
+        OR owner = c.claims ->> 'sub',
+        FALSE
+    )
+    FROM (SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb AS claims) c;
+$$;
+
+-- Relations need the permission on the projects of both memories
+DROP POLICY IF EXISTS "Project read" ON memory_relations;
+DROP POLICY IF EXISTS "Project insert" ON memory_relations;
+DROP POLICY IF EXISTS "Project update" ON memory_relations;
+DROP POLICY IF EXISTS "Project delete" ON memory_relations;
+CREATE POLICY "Project read" ON memory_relations FOR SELECT USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'read'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'read'))
+);
+CREATE POLICY "Project insert" ON memory_relations FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'write'))
+);
+CREATE POLICY "Project update" ON memory_relations FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'write'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'write'))
+);
+CREATE POLICY "Project delete" ON memory_relations FOR DELETE USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'delete'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'delete'))
+);
+
+-- Short-term memory: the permission, and only the caller's own sessions
+DROP POLICY IF EXISTS "Session read" ON short_term_memory;
+DROP POLICY IF EXISTS "Session write" ON short_term_memory;
+CREATE POLICY "Session read" ON short_term_memory FOR SELECT USING (
+    memory_access_allowed(NULL, 'read') AND session_owner_allowed(owner_id)
+);
+CREATE POLICY "Session write" ON short_term_memory FOR ALL USING (
+    memory_access_allowed(NULL, 'write') AND session_owner_allowed(owner_id)
+) WITH CHECK (
+    memory_access_allowed(NULL, 'write') AND session_owner_allowed(owner_id)
+);
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added/verified column: short_term_memory.owner_id';
+    RAISE NOTICE '   - Created/replaced function: session_owner_allowed';
+    RAISE NOTICE '   - Replaced memory_relations and short_term_memory policies';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
@@ -0,0 +1,40 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Short-Term Memory Lifecycle
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_structured_memory_history.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+DO $$
+BEGIN
+    -- TTL the entry was set with; restarted on read when sliding
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'short_term_memory'
+        AND column_name = 'ttl_seconds'
+    ) THEN
+        ALTER TABLE short_term_memory ADD COLUMN ttl_seconds INTEGER;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_name = 'short_term_memory'
+        AND column_name = 'sliding'
+    ) THEN
+        ALTER TABLE short_term_memory ADD COLUMN sliding BOOLEAN DEFAULT FALSE;
+    END IF;
+END $$;
+
+-- Used by the background sweeper that purges expired entries
+CREATE INDEX IF NOT EXISTS idx_short_term_expires ON short_term_memory(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added/verified columns: short_term_memory.ttl_seconds, short_term_memory.sliding';
+    RAISE NOTICE '   - Created/verified index: idx_short_term_expires';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
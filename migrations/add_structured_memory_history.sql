@@ -0,0 +1,92 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Migration: Structured Memory Schemas and History
+-- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
+-- Requires migrations/add_cross_project_search.sql
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+-- Optional JSON Schema per category; set_structured_memory validates values against it
+CREATE TABLE IF NOT EXISTS structured_memory_schemas (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    schema JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(project_id, category)
+);
+
+-- Previous values, recorded automatically when a key is updated or deleted
+CREATE TABLE IF NOT EXISTS structured_memory_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value JSONB,
+    description TEXT,
+    operation TEXT NOT NULL,          -- 'update' or 'delete'
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() -- When this value was replaced or deleted
+);
+
+CREATE INDEX IF NOT EXISTS idx_structured_history_lookup ON structured_memory_history(project_id, category, key);
+
+-- Structured memory history: keep the previous value on update (when it changed) and on delete
+CREATE OR REPLACE FUNCTION record_structured_memory_history()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND OLD.value IS NOT DISTINCT FROM NEW.value
+        AND OLD.description IS NOT DISTINCT FROM NEW.description THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO structured_memory_history (project_id, category, key, value, description, operation)
+    VALUES (OLD.project_id, OLD.category, OLD.key, OLD.value, OLD.description, LOWER(TG_OP));
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS record_structured_memory_history ON structured_memories;
+CREATE TRIGGER record_structured_memory_history AFTER UPDATE OR DELETE ON structured_memories FOR EACH ROW
+    EXECUTE FUNCTION record_structured_memory_history();
+
+DROP TRIGGER IF EXISTS update_structured_memory_schemas_updated_at ON structured_memory_schemas;
+CREATE TRIGGER update_structured_memory_schemas_updated_at BEFORE UPDATE ON structured_memory_schemas FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE structured_memory_schemas ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_policies
+        WHERE tablename = 'structured_memory_schemas'
+        AND policyname = 'Public Access'
+    ) THEN
+        CREATE POLICY "Public Access" ON structured_memory_schemas FOR ALL USING (true) WITH CHECK (true);
+    END IF;
+END $$;
+
+ALTER TABLE structured_memory_history ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_policies
+        WHERE tablename = 'structured_memory_history'
+        AND policyname = 'Public Access'
+    ) THEN
+        CREATE POLICY "Public Access" ON structured_memory_history FOR ALL USING (true) WITH CHECK (true);
+    END IF;
+END $$;
+
+-- Verify the changes
+DO $$
+BEGIN
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+    RAISE NOTICE '✅ Migration Completed Successfully';
+    RAISE NOTICE '   - Added/verified tables: structured_memory_schemas, structured_memory_history';
+    RAISE NOTICE '   - Created/replaced trigger: record_structured_memory_history';
+    RAISE NOTICE '═════════════════════════════════════════════════════════════════════════════';
+END $$;
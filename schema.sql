@@ -15,13 +15,22 @@ CREATE TABLE IF NOT EXISTS memories (
     project_id TEXT NOT NULL,
     category TEXT,                  -- 'tech_stack', 'decision', 'workout_log', etc.
     content TEXT NOT NULL,
-    embedding vector(384),          -- Xenova/all-MiniLM-L6-v2 dimension
+    embedding vector(384),          -- Must match the embedding model dimension (Xenova/all-MiniLM-L6-v2 = 384)
+    embedding_model TEXT,           -- Model that produced the embedding, e.g. 'Xenova/all-MiniLM-L6-v2'
+    embedding_dimension INTEGER,    -- Dimension of that model
     metadata JSONB DEFAULT '{}',
     
     -- New columns for enhanced memory types
     type TEXT DEFAULT 'episodic',   -- 'episodic', 'insight' (learned patterns), 'procedure'
     importance INTEGER DEFAULT 1,   -- 1 (routine) to 5 (core memory/critical)
     
+    -- Full-text index source for keyword/hybrid search
+    content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED,
+    
+    -- Access tracking (feeds the access component of search ranking)
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    access_count INTEGER DEFAULT 0,
+    
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -31,7 +40,33 @@ CREATE INDEX IF NOT EXISTS idx_memories_project_id ON memories(project_id);
 CREATE INDEX IF NOT EXISTS idx_memories_category ON memories(category);
 CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
 CREATE INDEX IF NOT EXISTS idx_memories_importance ON memories(importance);
+CREATE INDEX IF NOT EXISTS idx_memories_embedding_model ON memories(embedding_model);
 CREATE INDEX IF NOT EXISTS idx_memories_embedding ON memories USING hnsw (embedding vector_cosine_ops) WITH (m = 16, ef_construction = 64);
+CREATE INDEX IF NOT EXISTS idx_memories_content_tsv ON memories USING gin (content_tsv);
+CREATE INDEX IF NOT EXISTS idx_memories_metadata ON memories USING gin (metadata jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_memories_project_created ON memories(project_id, created_at);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- 1b. MEMORY REVISIONS
+-- Previous versions of a memory, recorded automatically when it is updated
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS memory_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    memory_id UUID REFERENCES memories(id) ON DELETE CASCADE,
+    project_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,      -- 1 = original version
+    category TEXT,
+    content TEXT NOT NULL,
+    type TEXT,
+    importance INTEGER,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- When this version was superseded
+    
+    UNIQUE(memory_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_revisions_memory ON memory_revisions(memory_id);
 
 -- ═══════════════════════════════════════════════════════════════════════════════
 -- 2. ASSOCIATIVE MEMORY (The "Knowledge Graph")
@@ -42,7 +77,9 @@ CREATE TABLE IF NOT EXISTS memory_relations (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     source_id UUID REFERENCES memories(id) ON DELETE CASCADE,
     target_id UUID REFERENCES memories(id) ON DELETE CASCADE,
-    relation_type TEXT NOT NULL,    -- 'caused_by', 'related_to', 'contradicts', 'supports'
+    relation_type TEXT NOT NULL,    -- 'caused_by', 'relates_to', 'contradicts', 'supports'
+    weight FLOAT DEFAULT 1.0,       -- Strength or confidence of the edge, 0-1
+    metadata JSONB DEFAULT '{}',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     -- Prevent duplicate edges
@@ -72,6 +109,32 @@ CREATE TABLE IF NOT EXISTS structured_memories (
 
 CREATE INDEX IF NOT EXISTS idx_structured_lookup ON structured_memories(project_id, category, key);
 
+-- Optional JSON Schema per category; set_structured_memory validates values against it
+CREATE TABLE IF NOT EXISTS structured_memory_schemas (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    schema JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    
+    UNIQUE(project_id, category)
+);
+
+-- Previous values, recorded automatically when a key is updated or deleted
+CREATE TABLE IF NOT EXISTS structured_memory_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value JSONB,
+    description TEXT,
+    operation TEXT NOT NULL,          -- 'update' or 'delete'
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() -- When this value was replaced or deleted
+);
+
+CREATE INDEX IF NOT EXISTS idx_structured_history_lookup ON structured_memory_history(project_id, category, key);
+
 -- ═══════════════════════════════════════════════════════════════════════════════
 -- 4. SHORT-TERM MEMORY
 -- Ephemeral storage for active session context
@@ -84,21 +147,70 @@ CREATE TABLE IF NOT EXISTS short_term_memory (
     value JSONB NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     expires_at TIMESTAMP WITH TIME ZONE, -- Can be null if it expires on session end only
+    ttl_seconds INTEGER,                 -- TTL the entry was set with; restarted on read when sliding
+    sliding BOOLEAN DEFAULT FALSE,
+    owner_id TEXT,                       -- Caller identity the session belongs to (NULL without access control)
     
     UNIQUE(session_id, key)
 );
 
+-- Used by the background sweeper that purges expired entries
+CREATE INDEX IF NOT EXISTS idx_short_term_expires ON short_term_memory(expires_at) WHERE expires_at IS NOT NULL;
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- 5. SCHEMA VERSION
+-- Migrations applied by `supabase-memory migrate up` (this file includes all of them)
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,         -- File name in migrations/ without .sql
+    checksum TEXT NOT NULL,           -- SHA-256 of the file as applied
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- ═══════════════════════════════════════════════════════════════════════════════
 -- FUNCTIONS
 -- ═══════════════════════════════════════════════════════════════════════════════
 
+-- Drop superseded signatures so PostgREST can resolve each RPC unambiguously
+DROP FUNCTION IF EXISTS match_memories(vector, TEXT, TEXT, FLOAT, INT);
+DROP FUNCTION IF EXISTS match_memories(vector, TEXT, TEXT, FLOAT, INT, TEXT);
+DROP FUNCTION IF EXISTS match_memories(vector, TEXT, TEXT, FLOAT, INT, TEXT, FLOAT, FLOAT, FLOAT, FLOAT, FLOAT);
+DROP FUNCTION IF EXISTS hybrid_search_memories(TEXT, vector, TEXT, TEXT, FLOAT, INT, TEXT, INT);
+DROP FUNCTION IF EXISTS hybrid_search_memories(TEXT, vector, TEXT, TEXT, FLOAT, INT, TEXT, INT, TEXT);
+DROP FUNCTION IF EXISTS match_memories(vector, TEXT, TEXT, FLOAT, INT, TEXT, FLOAT, FLOAT, FLOAT, FLOAT, FLOAT, TEXT[], INT, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS hybrid_search_memories(TEXT, vector, TEXT, TEXT, FLOAT, INT, TEXT, INT, TEXT, TEXT[], INT, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ);
+
 -- Semantic Search (Updated to include type filtering)
+-- Only memories embedded with match_embedding_model are compared (NULL = any model)
+-- Results are ranked by a weighted score:
+--   similarity * similarity_weight
+--   + importance/5 * importance_weight
+--   + 0.5^(age_days / recency_half_life_days) * recency_weight     (age from updated_at)
+--   + ln(1+n)/(1+ln(1+n)) * access_weight                          (n = access_count)
+-- Optional filters: match_types (any of), min_importance, metadata_filter (metadata @> filter)
+-- and created/updated date bounds (*_after inclusive, *_before exclusive)
+-- extra_project_ids widens the search to further projects (cross-project / global search)
 CREATE OR REPLACE FUNCTION match_memories(
-    query_embedding vector(384),
+    query_embedding vector,
     match_project_id TEXT,
     match_category TEXT DEFAULT NULL,
     match_threshold FLOAT DEFAULT 0.5,
-    match_count INT DEFAULT 5
+    match_count INT DEFAULT 5,
+    match_embedding_model TEXT DEFAULT NULL,
+    similarity_weight FLOAT DEFAULT 1.0,
+    importance_weight FLOAT DEFAULT 0.3,
+    recency_weight FLOAT DEFAULT 0.2,
+    access_weight FLOAT DEFAULT 0.1,
+    recency_half_life_days FLOAT DEFAULT 30,
+    match_types TEXT[] DEFAULT NULL,
+    min_importance INT DEFAULT NULL,
+    metadata_filter JSONB DEFAULT NULL,
+    created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    extra_project_ids TEXT[] DEFAULT NULL
 )
 RETURNS TABLE (
     id UUID,
@@ -109,12 +221,170 @@ RETURNS TABLE (
     type TEXT,
     importance INT,
     created_at TIMESTAMP WITH TIME ZONE,
-    similarity FLOAT
+    updated_at TIMESTAMP WITH TIME ZONE,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    access_count INT,
+    similarity FLOAT,
+    importance_score FLOAT,
+    recency_score FLOAT,
+    access_score FLOAT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        -- Nearest neighbours first, then re-rank the pool by the combined score
+        SELECT
+            m.*,
+            1 - (m.embedding <=> query_embedding) AS sim
+        FROM memories m
+        WHERE (m.project_id = match_project_id OR m.project_id = ANY(extra_project_ids))
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_types IS NULL OR m.type = ANY(match_types))
+          AND (min_importance IS NULL OR m.importance >= min_importance)
+          AND (metadata_filter IS NULL OR m.metadata @> metadata_filter)
+          AND (created_after IS NULL OR m.created_at >= created_after)
+          AND (created_before IS NULL OR m.created_at < created_before)
+          AND (updated_after IS NULL OR m.updated_at >= updated_after)
+          AND (updated_before IS NULL OR m.updated_at < updated_before)
+          AND (match_embedding_model IS NULL OR m.embedding_model = match_embedding_model)
+          AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+        ORDER BY m.embedding <=> query_embedding
+        LIMIT match_count * 10
+    ),
+    components AS (
+        SELECT
+            c.*,
+            COALESCE(c.importance, 1) / 5.0 AS imp,
+            POWER(0.5, EXTRACT(EPOCH FROM (NOW() - COALESCE(c.updated_at, c.created_at))) / 86400.0 / recency_half_life_days) AS rec,
+            LN(1 + COALESCE(c.access_count, 0)) / (1 + LN(1 + COALESCE(c.access_count, 0))) AS acc
+        FROM candidates c
+    )
+    SELECT
+        x.id,
+        x.project_id,
+        x.category,
+        x.content,
+        x.metadata,
+        x.type,
+        x.importance,
+        x.created_at,
+        x.updated_at,
+        x.last_accessed_at,
+        COALESCE(x.access_count, 0),
+        x.sim::FLOAT,
+        x.imp::FLOAT,
+        x.rec::FLOAT,
+        x.acc::FLOAT,
+        (x.sim * similarity_weight + x.imp * importance_weight + x.rec * recency_weight + x.acc * access_weight)::FLOAT
+    FROM components x
+    ORDER BY (x.sim * similarity_weight + x.imp * importance_weight + x.rec * recency_weight + x.acc * access_weight) DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- Record that memories were read (search results, direct lookups)
+-- Does not bump updated_at, so reading a memory does not make it "recent"
+-- Runs as the owner so callers with read-only access can record their reads
+CREATE OR REPLACE FUNCTION record_memory_access(memory_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE memories m
+    SET last_accessed_at = NOW(),
+        access_count = COALESCE(m.access_count, 0) + 1
+    WHERE m.id = ANY(memory_ids)
+    AND memory_access_allowed(m.project_id, 'read');
+END;
+$$;
+
+-- Hybrid Search: full-text keyword ranking fused with vector similarity
+-- search_mode: 'keyword' (full-text only) or 'hybrid' (reciprocal rank fusion of both)
+-- Takes the same optional filters and extra_project_ids as match_memories
+CREATE OR REPLACE FUNCTION hybrid_search_memories(
+    query_text TEXT,
+    query_embedding vector DEFAULT NULL,
+    match_project_id TEXT DEFAULT NULL,
+    match_category TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 5,
+    search_mode TEXT DEFAULT 'hybrid',
+    rrf_k INT DEFAULT 60,
+    match_embedding_model TEXT DEFAULT NULL,
+    match_types TEXT[] DEFAULT NULL,
+    min_importance INT DEFAULT NULL,
+    metadata_filter JSONB DEFAULT NULL,
+    created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    updated_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    extra_project_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    project_id TEXT,
+    category TEXT,
+    content TEXT,
+    metadata JSONB,
+    type TEXT,
+    importance INT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    similarity FLOAT,
+    keyword_score FLOAT,
+    vector_rank INT,
+    keyword_rank INT,
+    score FLOAT
 )
 LANGUAGE plpgsql
 AS $$
 BEGIN
     RETURN QUERY
+    WITH vector_matches AS (
+        SELECT
+            m.id AS memory_id,
+            1 - (m.embedding <=> query_embedding) AS v_similarity,
+            ROW_NUMBER() OVER (ORDER BY m.embedding <=> query_embedding) AS v_rank
+        FROM memories m
+        WHERE search_mode = 'hybrid'
+          AND query_embedding IS NOT NULL
+          AND (m.project_id = match_project_id OR m.project_id = ANY(extra_project_ids))
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_types IS NULL OR m.type = ANY(match_types))
+          AND (min_importance IS NULL OR m.importance >= min_importance)
+          AND (metadata_filter IS NULL OR m.metadata @> metadata_filter)
+          AND (created_after IS NULL OR m.created_at >= created_after)
+          AND (created_before IS NULL OR m.created_at < created_before)
+          AND (updated_after IS NULL OR m.updated_at >= updated_after)
+          AND (updated_before IS NULL OR m.updated_at < updated_before)
+          AND (match_embedding_model IS NULL OR m.embedding_model = match_embedding_model)
+          AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+        ORDER BY m.embedding <=> query_embedding
+        LIMIT match_count * 4
+    ),
+    keyword_matches AS (
+        SELECT
+            m.id AS memory_id,
+            ts_rank_cd(m.content_tsv, q.tsq) AS k_score,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(m.content_tsv, q.tsq) DESC) AS k_rank
+        FROM memories m, websearch_to_tsquery('english', query_text) AS q(tsq)
+        WHERE (m.project_id = match_project_id OR m.project_id = ANY(extra_project_ids))
+          AND (match_category IS NULL OR m.category = match_category)
+          AND (match_types IS NULL OR m.type = ANY(match_types))
+          AND (min_importance IS NULL OR m.importance >= min_importance)
+          AND (metadata_filter IS NULL OR m.metadata @> metadata_filter)
+          AND (created_after IS NULL OR m.created_at >= created_after)
+          AND (created_before IS NULL OR m.created_at < created_before)
+          AND (updated_after IS NULL OR m.updated_at >= updated_after)
+          AND (updated_before IS NULL OR m.updated_at < updated_before)
+          AND m.content_tsv @@ q.tsq
+        ORDER BY k_score DESC
+        LIMIT match_count * 4
+    )
     SELECT
         m.id,
         m.project_id,
@@ -124,23 +394,318 @@ BEGIN
         m.type,
         m.importance,
         m.created_at,
-        1 - (m.embedding <=> query_embedding) AS similarity
-    FROM memories m
-    WHERE m.project_id = match_project_id
-      AND (match_category IS NULL OR m.category = match_category)
-      AND 1 - (m.embedding <=> query_embedding) >= match_threshold
-    ORDER BY m.importance DESC, (m.embedding <=> query_embedding) ASC
+        v.v_similarity AS similarity,
+        k.k_score::FLOAT AS keyword_score,
+        v.v_rank::INT AS vector_rank,
+        k.k_rank::INT AS keyword_rank,
+        (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0))::FLOAT AS score
+    FROM vector_matches v
+    FULL OUTER JOIN keyword_matches k ON v.memory_id = k.memory_id
+    JOIN memories m ON m.id = COALESCE(v.memory_id, k.memory_id)
+    ORDER BY (COALESCE(1.0 / (rrf_k + v.v_rank), 0) + COALESCE(1.0 / (rrf_k + k.k_rank), 0)) DESC
     LIMIT match_count;
 END;
 $$;
 
+-- Embedding model breakdown (detects tables mixing vectors from different models)
+CREATE OR REPLACE FUNCTION embedding_model_stats(
+    match_project_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    embedding_model TEXT,
+    embedding_dimension INT,
+    memory_count BIGINT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        m.embedding_model,
+        m.embedding_dimension,
+        COUNT(*) AS memory_count
+    FROM memories m
+    WHERE match_project_id IS NULL OR m.project_id = match_project_id
+    GROUP BY m.embedding_model, m.embedding_dimension
+    ORDER BY COUNT(*) DESC;
+END;
+$$;
+
+-- Project Stats: breakdowns, graph shape, growth and access for one project, as a JSON report
+CREATE OR REPLACE FUNCTION project_stats(
+    target_project_id TEXT,
+    growth_bucket TEXT DEFAULT 'month',
+    bucket_count INT DEFAULT 12,
+    top_count INT DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    step INTERVAL;
+    current_bucket TIMESTAMP;
+BEGIN
+    IF growth_bucket NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Unsupported growth bucket: %', growth_bucket;
+    END IF;
+
+    step := ('1 ' || growth_bucket)::INTERVAL;
+    current_bucket := date_trunc(growth_bucket, NOW() AT TIME ZONE 'UTC');
+
+    RETURN jsonb_build_object(
+        'total_memories', (
+            SELECT COUNT(*) FROM memories m WHERE m.project_id = target_project_id
+        ),
+        'by_category', (
+            SELECT COALESCE(jsonb_object_agg(c.category, c.n), '{}'::jsonb)
+            FROM (
+                SELECT COALESCE(m.category, 'uncategorized') AS category, COUNT(*) AS n
+                FROM memories m WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) c
+        ),
+        'by_type', (
+            SELECT COALESCE(jsonb_object_agg(t.type, t.n), '{}'::jsonb)
+            FROM (
+                SELECT COALESCE(m.type, 'episodic') AS type, COUNT(*) AS n
+                FROM memories m WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) t
+        ),
+        'by_importance', (
+            SELECT COALESCE(jsonb_object_agg(i.importance, i.n), '{}'::jsonb)
+            FROM (
+                SELECT COALESCE(m.importance, 1)::TEXT AS importance, COUNT(*) AS n
+                FROM memories m WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) i
+        ),
+        'relations', (
+            SELECT COUNT(*)
+            FROM memory_relations r
+            JOIN memories m ON m.id = r.source_id
+            WHERE m.project_id = target_project_id
+        ),
+        'relations_by_type', (
+            SELECT COALESCE(jsonb_object_agg(rt.relation_type, rt.n), '{}'::jsonb)
+            FROM (
+                SELECT r.relation_type, COUNT(*) AS n
+                FROM memory_relations r
+                JOIN memories m ON m.id = r.source_id
+                WHERE m.project_id = target_project_id
+                GROUP BY 1
+            ) rt
+        ),
+        'orphaned_memories', (
+            SELECT COUNT(*)
+            FROM memories m
+            WHERE m.project_id = target_project_id
+              AND NOT EXISTS (SELECT 1 FROM memory_relations r WHERE r.source_id = m.id)
+              AND NOT EXISTS (SELECT 1 FROM memory_relations r WHERE r.target_id = m.id)
+        ),
+        'structured_memories', (
+            SELECT COUNT(*) FROM structured_memories s WHERE s.project_id = target_project_id
+        ),
+        'structured_by_category', (
+            SELECT COALESCE(jsonb_object_agg(sc.category, sc.n), '{}'::jsonb)
+            FROM (
+                SELECT s.category, COUNT(*) AS n
+                FROM structured_memories s WHERE s.project_id = target_project_id
+                GROUP BY 1
+            ) sc
+        ),
+        'missing_embeddings', (
+            SELECT COUNT(*) FROM memories m WHERE m.project_id = target_project_id AND m.embedding IS NULL
+        ),
+        'storage_bytes', (
+            SELECT COALESCE(SUM(pg_column_size(m.*)), 0) FROM memories m WHERE m.project_id = target_project_id
+        ) + (
+            SELECT COALESCE(SUM(pg_column_size(s.*)), 0) FROM structured_memories s WHERE s.project_id = target_project_id
+        ),
+        'first_memory_at', (
+            SELECT MIN(m.created_at) FROM memories m WHERE m.project_id = target_project_id
+        ),
+        'last_memory_at', (
+            SELECT MAX(m.created_at) FROM memories m WHERE m.project_id = target_project_id
+        ),
+        'growth', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'bucket', to_char(b.bucket_start, 'YYYY-MM-DD'),
+                'created', (
+                    SELECT COUNT(*) FROM memories m
+                    WHERE m.project_id = target_project_id
+                      AND m.created_at >= b.bucket_start AT TIME ZONE 'UTC'
+                      AND m.created_at < (b.bucket_start + step) AT TIME ZONE 'UTC'
+                ),
+                'total', (
+                    SELECT COUNT(*) FROM memories m
+                    WHERE m.project_id = target_project_id
+                      AND m.created_at < (b.bucket_start + step) AT TIME ZONE 'UTC'
+                )
+            ) ORDER BY b.bucket_start), '[]'::jsonb)
+            FROM generate_series(current_bucket - step * (bucket_count - 1), current_bucket, step) AS b(bucket_start)
+        ),
+        'most_accessed', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'id', a.id,
+                'category', a.category,
+                'content', a.content,
+                'access_count', a.access_count,
+                'last_accessed_at', a.last_accessed_at
+            ) ORDER BY a.access_count DESC, a.last_accessed_at DESC NULLS LAST), '[]'::jsonb)
+            FROM (
+                SELECT m.id, m.category, m.content, m.access_count, m.last_accessed_at
+                FROM memories m
+                WHERE m.project_id = target_project_id AND m.access_count > 0
+                ORDER BY m.access_count DESC, m.last_accessed_at DESC NULLS LAST
+                LIMIT top_count
+            ) a
+        )
+    );
+END;
+$$;
+
+-- Update Memory: patch fields in place (NULL = keep), merging metadata unless replace_metadata
+CREATE OR REPLACE FUNCTION update_memory(
+    target_id UUID,
+    target_project_id TEXT,
+    new_content TEXT DEFAULT NULL,
+    new_embedding vector DEFAULT NULL,
+    new_embedding_model TEXT DEFAULT NULL,
+    new_embedding_dimension INT DEFAULT NULL,
+    new_category TEXT DEFAULT NULL,
+    new_type TEXT DEFAULT NULL,
+    new_importance INT DEFAULT NULL,
+    new_metadata JSONB DEFAULT NULL,
+    replace_metadata BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF memories
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE memories m
+    SET
+        content = COALESCE(new_content, m.content),
+        embedding = COALESCE(new_embedding, m.embedding),
+        embedding_model = COALESCE(new_embedding_model, m.embedding_model),
+        embedding_dimension = COALESCE(new_embedding_dimension, m.embedding_dimension),
+        category = COALESCE(new_category, m.category),
+        type = COALESCE(new_type, m.type),
+        importance = COALESCE(new_importance, m.importance),
+        metadata = CASE
+            WHEN new_metadata IS NULL THEN m.metadata
+            WHEN replace_metadata THEN new_metadata
+            ELSE COALESCE(m.metadata, '{}'::jsonb) || new_metadata
+        END
+    WHERE m.id = target_id
+      AND m.project_id = target_project_id
+    RETURNING m.*;
+END;
+$$;
+
+-- Deduplication: pairs of memories in a project whose embeddings are near-identical
+-- (a pair may be reported from both sides)
+CREATE OR REPLACE FUNCTION find_duplicate_memories(
+    match_project_id TEXT,
+    match_threshold FLOAT DEFAULT 0.95,
+    match_embedding_model TEXT DEFAULT NULL,
+    neighbor_count INT DEFAULT 5
+)
+RETURNS TABLE (
+    memory_id UUID,
+    duplicate_id UUID,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        a.id AS memory_id,
+        n.neighbor_id AS duplicate_id,
+        n.neighbor_similarity AS similarity
+    FROM memories a
+    CROSS JOIN LATERAL (
+        -- Nearest neighbours through the HNSW index
+        SELECT
+            b.id AS neighbor_id,
+            1 - (b.embedding <=> a.embedding) AS neighbor_similarity
+        FROM memories b
+        WHERE b.project_id = a.project_id
+          AND b.id <> a.id
+          AND (match_embedding_model IS NULL OR b.embedding_model = match_embedding_model)
+        ORDER BY b.embedding <=> a.embedding
+        LIMIT neighbor_count
+    ) n
+    WHERE a.project_id = match_project_id
+      AND a.embedding IS NOT NULL
+      AND (match_embedding_model IS NULL OR a.embedding_model = match_embedding_model)
+      AND n.neighbor_similarity >= match_threshold;
+END;
+$$;
+
+-- Deduplication: fold a duplicate into the kept memory and delete it
+CREATE OR REPLACE FUNCTION merge_memories(
+    keep_id UUID,
+    duplicate_id UUID,
+    target_project_id TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    dup memories%ROWTYPE;
+BEGIN
+    SELECT * INTO dup FROM memories m WHERE m.id = duplicate_id AND m.project_id = target_project_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Memory % not found in project %', duplicate_id, target_project_id;
+    END IF;
+
+    -- Kept keys win, new keys are appended and the hit counter grows
+    UPDATE memories m
+    SET
+        importance = GREATEST(m.importance, dup.importance),
+        metadata = COALESCE(dup.metadata, '{}'::jsonb) || COALESCE(m.metadata, '{}'::jsonb) || jsonb_build_object(
+            'duplicate_count',
+            COALESCE((m.metadata->>'duplicate_count')::INT, 0) + COALESCE((dup.metadata->>'duplicate_count')::INT, 0) + 1,
+            'last_duplicate_at',
+            NOW()
+        )
+    WHERE m.id = keep_id AND m.project_id = target_project_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Memory % not found in project %', keep_id, target_project_id;
+    END IF;
+
+    -- Move edges over, skipping edges between the two and ones the kept memory already has
+    INSERT INTO memory_relations (source_id, target_id, relation_type, weight, metadata, created_at)
+    SELECT
+        CASE WHEN r.source_id = duplicate_id THEN keep_id ELSE r.source_id END,
+        CASE WHEN r.target_id = duplicate_id THEN keep_id ELSE r.target_id END,
+        r.relation_type,
+        r.weight,
+        r.metadata,
+        r.created_at
+    FROM memory_relations r
+    WHERE (r.source_id = duplicate_id OR r.target_id = duplicate_id)
+      AND NOT (r.source_id IN (keep_id, duplicate_id) AND r.target_id IN (keep_id, duplicate_id))
+    ON CONFLICT (source_id, target_id, relation_type) DO NOTHING;
+
+    -- Cascades to the duplicate's own edges and revisions
+    DELETE FROM memories m WHERE m.id = duplicate_id;
+END;
+$$;
+
 -- Graph Traversal: Get Related Memories
+-- (dropped first because CREATE OR REPLACE cannot change the returned columns)
+DROP FUNCTION IF EXISTS get_related_memories(UUID);
 CREATE OR REPLACE FUNCTION get_related_memories(
     start_id UUID
 )
 RETURNS TABLE (
     relation_type TEXT,
     direction TEXT,
+    weight FLOAT,
     memory_id UUID,
     category TEXT,
     content TEXT,
@@ -154,6 +719,7 @@ BEGIN
     SELECT 
         r.relation_type,
         'outgoing' as direction,
+        COALESCE(r.weight, 1.0) as weight,
         m.id as memory_id,
         m.category,
         m.content,
@@ -168,6 +734,7 @@ BEGIN
     SELECT 
         r.relation_type,
         'incoming' as direction,
+        COALESCE(r.weight, 1.0) as weight,
         m.id as memory_id,
         m.category,
         m.content,
@@ -178,6 +745,195 @@ BEGIN
 END;
 $$;
 
+-- Edges of a project (an edge belongs to the project of its source memory), newest first
+CREATE OR REPLACE FUNCTION list_memory_relations(
+    match_project_id TEXT,
+    match_relation_type TEXT DEFAULT NULL,
+    match_memory_id UUID DEFAULT NULL,
+    max_results INT DEFAULT 100
+)
+RETURNS TABLE (
+    id UUID,
+    source_id UUID,
+    target_id UUID,
+    relation_type TEXT,
+    weight FLOAT,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE,
+    source_content TEXT,
+    target_content TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.source_id,
+        r.target_id,
+        r.relation_type,
+        COALESCE(r.weight, 1.0),
+        COALESCE(r.metadata, '{}'::jsonb),
+        r.created_at,
+        s.content,
+        t.content
+    FROM memory_relations r
+    JOIN memories s ON s.id = r.source_id
+    JOIN memories t ON t.id = r.target_id
+    WHERE s.project_id = match_project_id
+      AND (match_relation_type IS NULL OR r.relation_type = match_relation_type)
+      AND (match_memory_id IS NULL OR r.source_id = match_memory_id OR r.target_id = match_memory_id)
+    ORDER BY r.created_at DESC
+    LIMIT max_results;
+END;
+$$;
+
+-- Graph Traversal: multi-hop walk from a memory
+-- traverse_direction: 'outgoing', 'incoming' or 'both'; relation_types NULL = any type
+-- Each memory is reported once, at its shallowest depth; paths never revisit a memory
+CREATE OR REPLACE FUNCTION traverse_memory_graph(
+    start_id UUID,
+    max_depth INT DEFAULT 3,
+    relation_types TEXT[] DEFAULT NULL,
+    traverse_direction TEXT DEFAULT 'both',
+    max_results INT DEFAULT 50
+)
+RETURNS TABLE (
+    memory_id UUID,
+    depth INT,
+    parent_id UUID,
+    relation_type TEXT,
+    direction TEXT,
+    path UUID[],
+    category TEXT,
+    content TEXT,
+    type TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH RECURSIVE edges AS (
+        SELECT r.source_id AS from_id, r.target_id AS to_id, r.relation_type AS rel, 'outgoing'::TEXT AS dir
+        FROM memory_relations r
+        WHERE traverse_direction IN ('outgoing', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+        UNION ALL
+        SELECT r.target_id, r.source_id, r.relation_type, 'incoming'::TEXT
+        FROM memory_relations r
+        WHERE traverse_direction IN ('incoming', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+    ),
+    walk AS (
+        SELECT e.to_id AS node_id, 1 AS hops, e.from_id AS parent, e.rel, e.dir, ARRAY[start_id, e.to_id] AS trail
+        FROM edges e
+        WHERE e.from_id = start_id
+          AND e.to_id <> start_id
+        UNION ALL
+        SELECT e.to_id, w.hops + 1, e.from_id, e.rel, e.dir, w.trail || e.to_id
+        FROM walk w
+        JOIN edges e ON e.from_id = w.node_id
+        WHERE w.hops < max_depth
+          AND NOT e.to_id = ANY(w.trail)
+    ),
+    shallowest AS (
+        SELECT DISTINCT ON (w.node_id) w.*
+        FROM walk w
+        ORDER BY w.node_id, w.hops
+    )
+    SELECT
+        s.node_id,
+        s.hops,
+        s.parent,
+        s.rel,
+        s.dir,
+        s.trail,
+        m.category,
+        m.content,
+        m.type
+    FROM shallowest s
+    JOIN memories m ON m.id = s.node_id
+    ORDER BY s.hops, s.node_id
+    LIMIT max_results;
+END;
+$$;
+
+-- Graph Traversal: shortest relation chain between two memories
+-- Returns one row per memory on the path (step 0 = source); no rows when there is no path
+CREATE OR REPLACE FUNCTION find_memory_path(
+    source_id UUID,
+    target_id UUID,
+    max_depth INT DEFAULT 6,
+    relation_types TEXT[] DEFAULT NULL,
+    traverse_direction TEXT DEFAULT 'both'
+)
+RETURNS TABLE (
+    step INT,
+    memory_id UUID,
+    relation_type TEXT,
+    direction TEXT,
+    category TEXT,
+    content TEXT,
+    type TEXT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF source_id = target_id THEN
+        RETURN QUERY
+        SELECT 0, m.id, NULL::TEXT, NULL::TEXT, m.category, m.content, m.type
+        FROM memories m
+        WHERE m.id = source_id;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH RECURSIVE edges AS (
+        SELECT r.source_id AS from_id, r.target_id AS to_id, r.relation_type AS rel, 'outgoing'::TEXT AS dir
+        FROM memory_relations r
+        WHERE traverse_direction IN ('outgoing', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+        UNION ALL
+        SELECT r.target_id, r.source_id, r.relation_type, 'incoming'::TEXT
+        FROM memory_relations r
+        WHERE traverse_direction IN ('incoming', 'both')
+          AND (relation_types IS NULL OR r.relation_type = ANY(relation_types))
+    ),
+    walk AS (
+        SELECT e.to_id AS node_id, 1 AS hops, ARRAY[source_id, e.to_id] AS trail, ARRAY[e.rel] AS rels, ARRAY[e.dir] AS dirs
+        FROM edges e
+        WHERE e.from_id = source_id
+          AND e.to_id <> source_id
+        UNION ALL
+        SELECT e.to_id, w.hops + 1, w.trail || e.to_id, w.rels || e.rel, w.dirs || e.dir
+        FROM walk w
+        JOIN edges e ON e.from_id = w.node_id
+        WHERE w.hops < max_depth
+          AND w.node_id <> target_id
+          AND NOT e.to_id = ANY(w.trail)
+    ),
+    shortest AS (
+        SELECT w.trail, w.rels, w.dirs
+        FROM walk w
+        WHERE w.node_id = target_id
+        ORDER BY w.hops
+        LIMIT 1
+    )
+    SELECT
+        (t.ord - 1)::INT,
+        t.node,
+        CASE WHEN t.ord > 1 THEN s.rels[t.ord - 1] END,
+        CASE WHEN t.ord > 1 THEN s.dirs[t.ord - 1] END,
+        m.category,
+        m.content,
+        m.type
+    FROM shortest s
+    CROSS JOIN LATERAL unnest(s.trail) WITH ORDINALITY AS t(node, ord)
+    JOIN memories m ON m.id = t.node
+    ORDER BY t.ord;
+END;
+$$;
+
 -- Auto-update updated_at columns
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -187,32 +943,192 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Record the previous version of a memory before it changes
+-- (runs as the owner: callers can read revisions but never write them)
+CREATE OR REPLACE FUNCTION record_memory_revision()
+RETURNS TRIGGER SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO memory_revisions (memory_id, project_id, revision, category, content, type, importance, metadata)
+    VALUES (
+        OLD.id,
+        OLD.project_id,
+        COALESCE((SELECT MAX(r.revision) FROM memory_revisions r WHERE r.memory_id = OLD.id), 0) + 1,
+        OLD.category,
+        OLD.content,
+        OLD.type,
+        OLD.importance,
+        OLD.metadata
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Structured memory history: keep the previous value on update (when it changed) and on delete
+-- (runs as the owner, like record_memory_revision)
+CREATE OR REPLACE FUNCTION record_structured_memory_history()
+RETURNS TRIGGER SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND OLD.value IS NOT DISTINCT FROM NEW.value
+        AND OLD.description IS NOT DISTINCT FROM NEW.description THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO structured_memory_history (project_id, category, key, value, description, operation)
+    VALUES (OLD.project_id, OLD.category, OLD.key, OLD.value, OLD.description, LOWER(TG_OP));
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Triggers
 DROP TRIGGER IF EXISTS update_memories_updated_at ON memories;
-CREATE TRIGGER update_memories_updated_at BEFORE UPDATE ON memories FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_memories_updated_at BEFORE UPDATE ON memories FOR EACH ROW
+    WHEN (OLD.last_accessed_at IS NOT DISTINCT FROM NEW.last_accessed_at)
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS record_memory_revision ON memories;
+CREATE TRIGGER record_memory_revision BEFORE UPDATE ON memories FOR EACH ROW
+    WHEN (OLD.content IS DISTINCT FROM NEW.content
+        OR OLD.category IS DISTINCT FROM NEW.category
+        OR OLD.type IS DISTINCT FROM NEW.type
+        OR OLD.importance IS DISTINCT FROM NEW.importance
+        OR OLD.metadata IS DISTINCT FROM NEW.metadata)
+    EXECUTE FUNCTION record_memory_revision();
 
 DROP TRIGGER IF EXISTS update_structured_memories_updated_at ON structured_memories;
 CREATE TRIGGER update_structured_memories_updated_at BEFORE UPDATE ON structured_memories FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS record_structured_memory_history ON structured_memories;
+CREATE TRIGGER record_structured_memory_history AFTER UPDATE OR DELETE ON structured_memories FOR EACH ROW
+    EXECUTE FUNCTION record_structured_memory_history();
+
+DROP TRIGGER IF EXISTS update_structured_memory_schemas_updated_at ON structured_memory_schemas;
+CREATE TRIGGER update_structured_memory_schemas_updated_at BEFORE UPDATE ON structured_memory_schemas FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- RLS Policies (Enable RLS for all new tables)
 ALTER TABLE memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_revisions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE memory_relations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE structured_memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE structured_memory_schemas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE structured_memory_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE short_term_memory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+
+-- Per-project access from the caller's JWT claims. The service role bypasses RLS;
+-- other callers send a JWT signed with the project's JWT secret carrying
+--   memory_projects:    project IDs the caller may use, or ["*"] for all
+--   memory_permissions: any of "read", "write", "delete"
+-- A NULL project checks the permission only (short-term memory has no project)
+CREATE OR REPLACE FUNCTION memory_access_allowed(target_project TEXT, permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        c.claims ->> 'role' = 'service_role'
+        OR (
+            (c.claims -> 'memory_permissions') ? permission
+            AND (
+                target_project IS NULL
+                OR (c.claims -> 'memory_projects') ? target_project
+                OR (c.claims -> 'memory_projects') ? '*'
+            )
+        ),
+        FALSE
+    )
+    FROM (SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb AS claims) c;
+$$;
+
+-- Whether the caller's JWT subject owns a short-term entry (the service role owns all)
+CREATE OR REPLACE FUNCTION session_owner_allowed(owner TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        c.claims ->> 'role' = 'service_role'
+        OR owner = c.claims ->> 'sub',
+        FALSE
+    )
+    FROM (SELECT NULLIF(current_setting('request.jwt.claims', true), '')::jsonb AS claims) c;
+$$;
+
+-- Project tables: read, write (insert/update) and delete permissions per project
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['memories', 'structured_memories', 'structured_memory_schemas'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Public Access" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project read" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project insert" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project update" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project delete" ON %I', t);
+        EXECUTE format('CREATE POLICY "Project read" ON %I FOR SELECT USING (memory_access_allowed(project_id, ''read''))', t);
+        EXECUTE format('CREATE POLICY "Project insert" ON %I FOR INSERT WITH CHECK (memory_access_allowed(project_id, ''write''))', t);
+        EXECUTE format('CREATE POLICY "Project update" ON %I FOR UPDATE USING (memory_access_allowed(project_id, ''write'')) WITH CHECK (memory_access_allowed(project_id, ''write''))', t);
+        EXECUTE format('CREATE POLICY "Project delete" ON %I FOR DELETE USING (memory_access_allowed(project_id, ''delete''))', t);
+    END LOOP;
 
--- Simple permissive policies for now (User should adjust for prod)
-CREATE POLICY "Public Access" ON memory_relations FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Public Access" ON structured_memories FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Public Access" ON short_term_memory FOR ALL USING (true) WITH CHECK (true);
+    -- History tables are written by triggers only
+    FOREACH t IN ARRAY ARRAY['memory_revisions', 'structured_memory_history'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Public Access" ON %I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Project read" ON %I', t);
+        EXECUTE format('CREATE POLICY "Project read" ON %I FOR SELECT USING (memory_access_allowed(project_id, ''read''))', t);
+    END LOOP;
+END $$;
+
+-- Relations need the permission on the projects of both memories
+DROP POLICY IF EXISTS "Public Access" ON memory_relations;
+DROP POLICY IF EXISTS "Project read" ON memory_relations;
+DROP POLICY IF EXISTS "Project insert" ON memory_relations;
+DROP POLICY IF EXISTS "Project update" ON memory_relations;
+DROP POLICY IF EXISTS "Project delete" ON memory_relations;
+CREATE POLICY "Project read" ON memory_relations FOR SELECT USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'read'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'read'))
+);
+CREATE POLICY "Project insert" ON memory_relations FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'write'))
+);
+CREATE POLICY "Project update" ON memory_relations FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'write'))
+) WITH CHECK (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'write'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'write'))
+);
+CREATE POLICY "Project delete" ON memory_relations FOR DELETE USING (
+    EXISTS (SELECT 1 FROM memories m WHERE m.id = source_id AND memory_access_allowed(m.project_id, 'delete'))
+    AND EXISTS (SELECT 1 FROM memories m WHERE m.id = target_id AND memory_access_allowed(m.project_id, 'delete'))
+);
+
+-- Short-term memory: the permission, and only the caller's own sessions
+DROP POLICY IF EXISTS "Public Access" ON short_term_memory;
+DROP POLICY IF EXISTS "Session read" ON short_term_memory;
+DROP POLICY IF EXISTS "Session write" ON short_term_memory;
+CREATE POLICY "Session read" ON short_term_memory FOR SELECT USING (
+    memory_access_allowed(NULL, 'read') AND session_owner_allowed(owner_id)
+);
+CREATE POLICY "Session write" ON short_term_memory FOR ALL USING (
+    memory_access_allowed(NULL, 'write') AND session_owner_allowed(owner_id)
+) WITH CHECK (
+    memory_access_allowed(NULL, 'write') AND session_owner_allowed(owner_id)
+);
 
 -- Verification
 DO $$
 BEGIN
     RAISE NOTICE '✅ Comprehensive Memory Schema Created';
-    RAISE NOTICE '   - Table: memories (Episodic + Insights)';
+    RAISE NOTICE '   - Table: memories (Episodic + Insights, vector + full-text search)';
+    RAISE NOTICE '   - Table: memory_revisions (Update history)';
     RAISE NOTICE '   - Table: memory_relations (Graph)';
     RAISE NOTICE '   - Table: structured_memories (Entities/Projects)';
+    RAISE NOTICE '   - Table: structured_memory_schemas, structured_memory_history (Validation + change log)';
     RAISE NOTICE '   - Table: short_term_memory (Session)';
+    RAISE NOTICE '   - Table: schema_migrations (Applied migrations)';
 END $$;
 -- Run this SQL in your Supabase SQL Editor (https://app.supabase.com)
 -- ═══════════════════════════════════════════════════════════════════════════════
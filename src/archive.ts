@@ -0,0 +1,282 @@
+/**
+ * Portable project archives: a versioned JSONL file (gzip-compressed when the
+ * path ends in .gz) holding a project's memories, relations and structured memories
+ *
+ * Line 1 is the header; every other line is `{ "kind": ..., "data": ... }`.
+ */
+
+import { randomUUID } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { gzipSync, gunzipSync } from 'zlib';
+import { getEmbeddings, getEmbeddingModel } from './embedding.js';
+import { InvalidRequestError } from './errors.js';
+import type {
+    MemoryStorage,
+    MemorySnapshot,
+    RelationSnapshot,
+    StructuredMemorySnapshot,
+} from './storage/index.js';
+
+export const ARCHIVE_FORMAT = 'supabase-memory-archive';
+export const ARCHIVE_VERSION = 1;
+
+/** Memories embedded / written per round-trip on import */
+const IMPORT_BATCH_SIZE = 32;
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'new_ids';
+
+export interface ArchiveHeader {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    project_id: string;
+    exported_at: string;
+    embedding_model: string;
+    embedding_dimension: number;
+    includes_embeddings: boolean;
+}
+
+export interface ProjectArchive {
+    header: ArchiveHeader;
+    memories: MemorySnapshot[];
+    relations: RelationSnapshot[];
+    structured_memories: StructuredMemorySnapshot[];
+}
+
+export interface ImportOptions {
+    /** Project to import into (default: the archived project) */
+    projectId?: string;
+    /**
+     * What to do with memories whose ID already exists in the target project: keep
+     * the existing one ('skip'), replace it ('overwrite') or import everything under
+     * fresh IDs ('new_ids'). IDs taken by another project always get fresh IDs.
+     * Structured memories are only replaced with 'overwrite'.
+     */
+    onConflict: ConflictStrategy;
+}
+
+type ArchiveEntry =
+    | { kind: 'header'; data: ArchiveHeader }
+    | { kind: 'memory'; data: MemorySnapshot }
+    | { kind: 'relation'; data: RelationSnapshot }
+    | { kind: 'structured_memory'; data: StructuredMemorySnapshot };
+
+export interface ImportSummary {
+    project_id: string;
+    memories_imported: number;
+    memories_skipped: number;
+    /** Memories given fresh IDs because their archived ID belongs to another project */
+    memories_renamed: number;
+    /** Memories re-embedded because the archive had no vector from the active model */
+    memories_reembedded: number;
+    relations_imported: number;
+    /** Relations whose other end is not part of the archive */
+    relations_dropped: number;
+    structured_memories: number;
+}
+
+/**
+ * Snapshot a project from storage
+ */
+export async function exportProject(
+    storage: MemoryStorage,
+    projectId: string,
+    includeEmbeddings: boolean
+): Promise<ProjectArchive> {
+    const { model, dimension } = getEmbeddingModel();
+    const memories = await storage.exportMemories(projectId, includeEmbeddings);
+    const ids = new Set(memories.map(m => m.id));
+
+    // Edges into other projects cannot be restored with the archive
+    const relations = (await storage.exportRelations([...ids])).filter(r => ids.has(r.target_id));
+
+    return {
+        header: {
+            format: ARCHIVE_FORMAT,
+            version: ARCHIVE_VERSION,
+            project_id: projectId,
+            exported_at: new Date().toISOString(),
+            embedding_model: model,
+            embedding_dimension: dimension,
+            includes_embeddings: includeEmbeddings,
+        },
+        memories,
+        relations,
+        structured_memories: await storage.exportStructuredMemories(projectId),
+    };
+}
+
+export function serializeArchive(archive: ProjectArchive): string {
+    const lines = [
+        JSON.stringify({ kind: 'header', data: archive.header }),
+        ...archive.memories.map(data => JSON.stringify({ kind: 'memory', data })),
+        ...archive.relations.map(data => JSON.stringify({ kind: 'relation', data })),
+        ...archive.structured_memories.map(data => JSON.stringify({ kind: 'structured_memory', data })),
+    ];
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse an archive, upgrading older format versions to the current one
+ */
+export function parseArchive(content: string): ProjectArchive {
+    const lines = content.split('\n').filter(line => line.trim() !== '');
+    const entries = lines.map((line, i) => {
+        try {
+            return JSON.parse(line) as ArchiveEntry;
+        } catch (error) {
+            throw new InvalidRequestError(`Invalid archive line ${i + 1}: ${(error as Error).message}`);
+        }
+    });
+
+    const first = entries[0];
+    const header = first?.kind === 'header' ? first.data : undefined;
+    if (header?.format !== ARCHIVE_FORMAT) {
+        throw new InvalidRequestError('Not a supabase-memory archive (missing header)');
+    }
+    if (typeof header.version !== 'number' || header.version > ARCHIVE_VERSION) {
+        throw new InvalidRequestError(`Archive version ${header.version} is newer than supported (${ARCHIVE_VERSION}); upgrade supabase-memory`);
+    }
+
+    const archive: ProjectArchive = { header, memories: [], relations: [], structured_memories: [] };
+    for (const entry of entries.slice(1)) {
+        if (entry.kind === 'memory') archive.memories.push(entry.data);
+        else if (entry.kind === 'relation') archive.relations.push(entry.data);
+        else if (entry.kind === 'structured_memory') archive.structured_memories.push(entry.data);
+        // Unknown kinds are ignored
+    }
+
+    return upgradeArchive(archive);
+}
+
+/**
+ * Fill in fields that older archives (or older exports of the same version) lack
+ */
+function upgradeArchive(archive: ProjectArchive): ProjectArchive {
+    const now = new Date().toISOString();
+
+    for (const m of archive.memories) {
+        m.metadata ??= {};
+        m.type ??= 'episodic';
+        m.importance ??= 1;
+        m.last_accessed_at ??= null;
+        m.access_count ??= 0;
+        m.created_at ??= now;
+        m.updated_at ??= m.created_at;
+    }
+    for (const r of archive.relations) {
+        r.weight ??= 1;
+        r.metadata ??= {};
+        r.created_at ??= now;
+    }
+    for (const s of archive.structured_memories) {
+        s.description ??= null;
+        s.created_at ??= now;
+        s.updated_at ??= s.created_at;
+    }
+
+    archive.header = { ...archive.header, version: ARCHIVE_VERSION };
+    return archive;
+}
+
+export async function writeArchive(path: string, archive: ProjectArchive) {
+    const content = serializeArchive(archive);
+    await writeFile(path, path.endsWith('.gz') ? gzipSync(content) : content);
+}
+
+export async function readArchive(path: string): Promise<ProjectArchive> {
+    const raw = await readFile(path);
+    return parseArchive((path.endsWith('.gz') ? gunzipSync(raw) : raw).toString('utf-8'));
+}
+
+/**
+ * Load an archive into storage. Memory IDs are remapped according to the
+ * conflict strategy and relations follow the remapped IDs.
+ */
+export async function importProject(
+    storage: MemoryStorage,
+    archive: ProjectArchive,
+    options: ImportOptions
+): Promise<ImportSummary> {
+    const projectId = options.projectId ?? archive.header.project_id;
+    const { model, dimension } = getEmbeddingModel();
+
+    // Existing ID -> the project it belongs to
+    const existing = new Map<string, string>();
+    if (options.onConflict !== 'new_ids') {
+        for (const row of await storage.existingMemoryIds(archive.memories.map(m => m.id))) {
+            existing.set(row.id, row.project_id);
+        }
+    }
+
+    // Archived ID -> ID in this database (skipped memories keep pointing at the existing one)
+    const idMap = new Map<string, string>();
+    const toWrite: MemorySnapshot[] = [];
+    let renamed = 0;
+    for (const m of archive.memories) {
+        const owner = existing.get(m.id);
+        // An ID held by another project is never touched or linked to
+        const takenElsewhere = owner !== undefined && owner !== projectId;
+        if (takenElsewhere) renamed++;
+
+        const id = options.onConflict === 'new_ids' || takenElsewhere ? randomUUID() : m.id;
+        idMap.set(m.id, id);
+        if (options.onConflict === 'skip' && owner === projectId) continue;
+        toWrite.push({ ...m, id, project_id: projectId });
+    }
+
+    let reembedded = 0;
+    for (let start = 0; start < toWrite.length; start += IMPORT_BATCH_SIZE) {
+        const batch = toWrite.slice(start, start + IMPORT_BATCH_SIZE);
+
+        // Vectors from another model are useless to search, so those memories are re-embedded
+        const stale = batch.filter(m => !m.embedding || m.embedding_model !== model || m.embedding.length !== dimension);
+        if (stale.length > 0) {
+            const embeddings = await getEmbeddings(stale.map(m => m.content));
+            stale.forEach((m, i) => { m.embedding = embeddings[i]; });
+            reembedded += stale.length;
+        }
+
+        await storage.restoreMemories(
+            batch.map(m => ({
+                id: m.id,
+                project_id: m.project_id,
+                category: m.category,
+                content: m.content,
+                metadata: m.metadata,
+                type: m.type,
+                importance: m.importance,
+                embedding: m.embedding!,
+                embedding_model: model,
+                embedding_dimension: dimension,
+                last_accessed_at: m.last_accessed_at,
+                access_count: m.access_count,
+                created_at: m.created_at,
+                updated_at: m.updated_at,
+            })),
+            options.onConflict === 'overwrite'
+        );
+    }
+
+    const relations: RelationSnapshot[] = [];
+    for (const r of archive.relations) {
+        const source_id = idMap.get(r.source_id);
+        const target_id = idMap.get(r.target_id);
+        if (source_id && target_id) relations.push({ ...r, source_id, target_id });
+    }
+    if (relations.length > 0) await storage.restoreRelations(relations);
+
+    if (archive.structured_memories.length > 0) {
+        await storage.restoreStructuredMemories(projectId, archive.structured_memories, options.onConflict === 'overwrite');
+    }
+
+    return {
+        project_id: projectId,
+        memories_imported: toWrite.length,
+        memories_skipped: archive.memories.length - toWrite.length,
+        memories_renamed: renamed,
+        memories_reembedded: reembedded,
+        relations_imported: relations.length,
+        relations_dropped: archive.relations.length - relations.length,
+        structured_memories: archive.structured_memories.length,
+    };
+}
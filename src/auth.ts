@@ -0,0 +1,157 @@
+/**
+ * Caller identities and per-project access control: a caller authenticates with
+ * an API key from the configuration or a JWT, and is granted permissions on a set of projects
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { MemoryError } from './errors.js';
+
+export type Permission = 'read' | 'write' | 'delete';
+
+export const PERMISSIONS: Permission[] = ['read', 'write', 'delete'];
+
+/** Grants every project */
+export const ALL_PROJECTS = '*';
+
+export interface AccessGrant {
+    /** Project IDs, or '*' for every project */
+    projects: string[];
+    permissions: Permission[];
+}
+
+export interface ApiKeyGrant extends AccessGrant {
+    key: string;
+    /** Shown in logs instead of the key */
+    name?: string;
+}
+
+export interface AuthConfig {
+    /** API keys and what they grant; setting any enables access control */
+    apiKeys?: ApiKeyGrant[];
+    /**
+     * HS256 secret for caller JWTs (use the Supabase project's JWT secret so the
+     * same token passes the RLS policies); setting it enables access control
+     */
+    jwtSecret?: string;
+    /** This server's caller: an API key or a JWT */
+    credential?: string;
+}
+
+export interface CallerIdentity extends AccessGrant {
+    /** Key name or JWT subject */
+    id: string;
+}
+
+export class AccessDeniedError extends MemoryError {
+    constructor(message: string) {
+        super('access_denied', message);
+        this.name = 'AccessDeniedError';
+    }
+}
+
+/**
+ * Whether calls must present a credential
+ */
+export function isAuthEnabled(config: AuthConfig | undefined): boolean {
+    return (config?.apiKeys?.length ?? 0) > 0 || !!config?.jwtSecret;
+}
+
+/**
+ * Compact JWS shape (three base64url segments); anything else is treated as an API key
+ */
+export function isJwt(credential: string): boolean {
+    return /^[\w-]+\.[\w-]+\.[\w-]+$/.test(credential);
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function parsePermissions(value: unknown): Permission[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter((p): p is Permission => PERMISSIONS.includes(p));
+}
+
+/**
+ * Verify an HS256 JWT and read its memory claims:
+ * `memory_projects` (project IDs or '*') and `memory_permissions`
+ */
+export function verifyJwt(token: string, secret: string): CallerIdentity {
+    const [header, payload, signature] = token.split('.');
+
+    let alg: unknown;
+    let claims: Record<string, unknown>;
+    try {
+        alg = JSON.parse(Buffer.from(header, 'base64url').toString('utf-8')).alg;
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    } catch {
+        throw new AccessDeniedError('Malformed token');
+    }
+
+    if (alg !== 'HS256') throw new AccessDeniedError(`Unsupported token algorithm: ${String(alg)}`);
+
+    const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+    if (!safeEqual(signature, expected)) throw new AccessDeniedError('Invalid token signature');
+
+    const now = Date.now() / 1000;
+    if (typeof claims.exp === 'number' && claims.exp <= now) throw new AccessDeniedError('Token expired');
+    if (typeof claims.nbf === 'number' && claims.nbf > now) throw new AccessDeniedError('Token not yet valid');
+
+    const projects = Array.isArray(claims.memory_projects)
+        ? claims.memory_projects.filter((p): p is string => typeof p === 'string')
+        : [];
+
+    return {
+        id: typeof claims.sub === 'string' ? claims.sub : 'jwt',
+        projects,
+        permissions: parsePermissions(claims.memory_permissions),
+    };
+}
+
+/**
+ * Identity behind a credential: a configured API key, or a JWT signed with the configured secret
+ */
+export function resolveIdentity(config: AuthConfig, credential: string | undefined): CallerIdentity {
+    if (!credential) throw new AccessDeniedError('Authentication required: no API key or token given');
+
+    if (isJwt(credential) && config.jwtSecret) return verifyJwt(credential, config.jwtSecret);
+
+    const grant = config.apiKeys?.find(k => safeEqual(k.key, credential));
+    if (!grant) throw new AccessDeniedError('Invalid API key');
+
+    return {
+        id: grant.name ?? `key:${grant.key.slice(0, 4)}…`,
+        projects: grant.projects,
+        permissions: parsePermissions(grant.permissions),
+    };
+}
+
+export function canAccess(identity: CallerIdentity, projectId: string, permission: Permission): boolean {
+    return identity.permissions.includes(permission)
+        && (identity.projects.includes(ALL_PROJECTS) || identity.projects.includes(projectId));
+}
+
+/**
+ * Throw unless the caller holds the permission on every given project
+ */
+export function assertAccess(identity: CallerIdentity, projectIds: string[], permission: Permission) {
+    const denied = projectIds.filter(projectId => !canAccess(identity, projectId, permission));
+    if (denied.length > 0) {
+        throw new AccessDeniedError(`Access denied: ${identity.id} has no ${permission} permission on project ${denied.join(', ')}`);
+    }
+}
+
+/**
+ * Throw unless the caller holds the permission and owns the short-term session,
+ * given the owners of its entries (a new session has none)
+ */
+export function assertSessionAccess(identity: CallerIdentity, sessionId: string, owners: (string | null)[], permission: Permission) {
+    if (!identity.permissions.includes(permission)) {
+        throw new AccessDeniedError(`Access denied: ${identity.id} has no ${permission} permission`);
+    }
+    if (owners.some(owner => owner !== identity.id)) {
+        throw new AccessDeniedError(`Access denied: short-term session ${sessionId} belongs to another caller`);
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * Batch ingestion shared by the store_memories tool and the import command
+ * Memories are embedded and inserted a chunk at a time; a failing item is
+ * reported on its own instead of aborting the rest of the batch
+ */
+
+import { getEmbeddings, getEmbeddingModel } from './embedding.js';
+import type { MemoryStorage, MemoryType, NewMemory } from './storage/index.js';
+
+export const DEFAULT_BATCH_SIZE = 32;
+
+const MEMORY_TYPES: MemoryType[] = ['episodic', 'insight', 'procedure'];
+
+export interface BatchMemoryInput {
+    content: string;
+    category: string;
+    /** Falls back to the batch's project */
+    project_id?: string;
+    type?: string;
+    importance?: number;
+    metadata?: Record<string, unknown>;
+}
+
+export interface BatchItemResult {
+    /** Position of the item in the input */
+    index: number;
+    success: boolean;
+    memory_id?: string;
+    error?: string;
+}
+
+export interface BatchOptions {
+    /** Project for items that do not name one */
+    projectId?: string;
+    batchSize?: number;
+    onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Check one input item, returning the error message when it cannot be stored
+ */
+function validateItem(item: BatchMemoryInput, projectId: string | undefined): string | null {
+    if (typeof item?.content !== 'string' || item.content.trim() === '') return 'content is required';
+    if (typeof item.category !== 'string' || item.category === '') return 'category is required';
+    if (!(item.project_id ?? projectId)) return 'project_id is required';
+    if (item.type !== undefined && !MEMORY_TYPES.includes(item.type as MemoryType)) {
+        return `type must be one of ${MEMORY_TYPES.join(', ')}`;
+    }
+    if (item.importance !== undefined && !(Number.isInteger(item.importance) && item.importance >= 1 && item.importance <= 5)) {
+        return 'importance must be an integer from 1 to 5';
+    }
+    return null;
+}
+
+/**
+ * Embed and store memories in chunks, returning one result per input item
+ */
+export async function storeMemoriesBatch(
+    storage: MemoryStorage,
+    items: BatchMemoryInput[],
+    options: BatchOptions = {}
+): Promise<BatchItemResult[]> {
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const { model, dimension } = getEmbeddingModel();
+    const results: BatchItemResult[] = [];
+
+    for (let start = 0; start < items.length; start += batchSize) {
+        const chunk: { index: number; item: BatchMemoryInput }[] = [];
+
+        for (let index = start; index < Math.min(start + batchSize, items.length); index++) {
+            const error = validateItem(items[index], options.projectId);
+            if (error) {
+                results.push({ index, success: false, error });
+            } else {
+                chunk.push({ index, item: items[index] });
+            }
+        }
+
+        if (chunk.length > 0) {
+            results.push(...await storeChunk(storage, chunk, options.projectId, model, dimension));
+        }
+        options.onProgress?.(Math.min(start + batchSize, items.length), items.length);
+    }
+
+    return results.sort((a, b) => a.index - b.index);
+}
+
+async function storeChunk(
+    storage: MemoryStorage,
+    chunk: { index: number; item: BatchMemoryInput }[],
+    projectId: string | undefined,
+    model: string,
+    dimension: number
+): Promise<BatchItemResult[]> {
+    let embeddings: number[][];
+    try {
+        embeddings = await getEmbeddings(chunk.map(({ item }) => item.content));
+    } catch (error) {
+        return chunk.map(({ index }) => ({ index, success: false, error: `Embedding failed: ${String(error)}` }));
+    }
+
+    const memories: NewMemory[] = chunk.map(({ item }, i) => ({
+        project_id: (item.project_id ?? projectId)!,
+        category: item.category,
+        content: item.content,
+        embedding: embeddings[i],
+        embedding_model: model,
+        embedding_dimension: dimension,
+        type: (item.type ?? 'episodic') as MemoryType,
+        importance: item.importance ?? 1,
+        metadata: item.metadata ?? {},
+    }));
+
+    try {
+        const inserted = await storage.insertMemories(memories);
+        return chunk.map(({ index }, i) => ({ index, success: true, memory_id: inserted[i].id }));
+    } catch {
+        // One bad row fails the whole insert; retry one by one to find it
+        const results: BatchItemResult[] = [];
+        for (const [i, { index }] of chunk.entries()) {
+            try {
+                const inserted = await storage.insertMemory(memories[i]);
+                results.push({ index, success: true, memory_id: inserted.id });
+            } catch (error) {
+                results.push({ index, success: false, error: String(error) });
+            }
+        }
+        return results;
+    }
+}
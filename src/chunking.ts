@@ -0,0 +1,175 @@
+/**
+ * Splitting long documents into chunks small enough to embed without truncation
+ */
+
+export type DocumentFormat = 'markdown' | 'text' | 'code';
+
+export interface ChunkOptions {
+    format: DocumentFormat;
+    /** Maximum characters per chunk (default: 1000, roughly MiniLM's 256-token window) */
+    maxChars?: number;
+    /** Characters repeated from the end of the previous chunk (default: 150) */
+    overlap?: number;
+}
+
+export interface TextChunk {
+    index: number;
+    content: string;
+    /** Heading path of the Markdown section the chunk belongs to, e.g. 'Design > Storage' */
+    section: string | null;
+}
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 150;
+
+const CODE_EXTENSIONS = new Set([
+    'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'go', 'rs', 'java', 'kt', 'swift', 'rb',
+    'php', 'c', 'h', 'cpp', 'hpp', 'cs', 'sh', 'sql', 'yaml', 'yml', 'toml',
+]);
+
+/**
+ * Guess the format from a file name
+ */
+export function detectFormat(path: string): DocumentFormat {
+    const extension = path.split('.').pop()?.toLowerCase() ?? '';
+    if (['md', 'markdown', 'mdx'].includes(extension)) return 'markdown';
+    if (CODE_EXTENSIONS.has(extension)) return 'code';
+    return 'text';
+}
+
+interface Section {
+    path: string[];
+    text: string;
+}
+
+/**
+ * Split Markdown into sections at headings (ignoring '#' lines inside fenced code)
+ */
+function splitMarkdownSections(text: string): Section[] {
+    const sections: Section[] = [];
+    let path: string[] = [];
+    let lines: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+        const body = lines.join('\n').trim();
+        // A section holding nothing but its heading adds no content of its own
+        if (body && body.split('\n').some(line => !/^#{1,6}\s/.test(line))) {
+            sections.push({ path, text: body });
+        }
+        lines = [];
+    };
+
+    for (const line of text.split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+        const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            flush();
+            path = [...path.slice(0, heading[1].length - 1), heading[2]];
+        }
+        lines.push(line);
+    }
+    flush();
+    return sections;
+}
+
+/**
+ * Break a block that is longer than a chunk at sentence (or line) boundaries,
+ * falling back to whitespace when a single piece is still too long
+ */
+function splitLongBlock(block: string, maxChars: number, format: DocumentFormat): string[] {
+    const pieces = format === 'code' ? block.split('\n') : block.split(/(?<=[.!?])\s+/);
+    const separator = format === 'code' ? '\n' : ' ';
+    const parts: string[] = [];
+    let current = '';
+
+    for (const piece of pieces.flatMap(p => (p.length > maxChars ? hardSplit(p, maxChars) : [p]))) {
+        if (current && current.length + separator.length + piece.length > maxChars) {
+            parts.push(current);
+            current = piece;
+        } else {
+            current = current ? current + separator + piece : piece;
+        }
+    }
+    if (current) parts.push(current);
+    return parts;
+}
+
+function hardSplit(text: string, maxChars: number): string[] {
+    const parts: string[] = [];
+    let rest = text;
+    while (rest.length > maxChars) {
+        const cut = rest.lastIndexOf(' ', maxChars);
+        const at = cut > maxChars / 2 ? cut : maxChars;
+        parts.push(rest.slice(0, at));
+        rest = rest.slice(at).trimStart();
+    }
+    if (rest) parts.push(rest);
+    return parts;
+}
+
+/**
+ * The last `overlap` characters of a chunk, starting at a word boundary
+ */
+function tail(text: string, overlap: number): string {
+    if (overlap <= 0 || text.length <= overlap) return '';
+    const start = text.indexOf(' ', text.length - overlap);
+    return start < 0 ? '' : text.slice(start + 1);
+}
+
+/**
+ * Pack paragraphs (blank-line separated blocks) into chunks of at most maxChars
+ */
+function packBlocks(text: string, maxChars: number, overlap: number, format: DocumentFormat): string[] {
+    const paragraphs = text.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+
+    // Keep a heading together with the paragraph under it
+    for (let i = paragraphs.length - 2; i >= 0; i--) {
+        if (format === 'markdown' && /^#{1,6}\s[^\n]*$/.test(paragraphs[i])) {
+            paragraphs.splice(i, 2, `${paragraphs[i]}\n\n${paragraphs[i + 1]}`);
+        }
+    }
+
+    const blocks = paragraphs.flatMap(block => (block.length > maxChars ? splitLongBlock(block, maxChars, format) : [block]));
+
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const block of blocks) {
+        if (current && current.length + 2 + block.length > maxChars) {
+            chunks.push(current);
+            const carried = tail(current, overlap);
+            current = carried && carried.length + 2 + block.length <= maxChars ? `${carried}\n\n${block}` : block;
+        } else {
+            current = current ? `${current}\n\n${block}` : block;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+/**
+ * Split a document into overlapping chunks. Markdown chunks never span two
+ * sections and remember the heading path they came from.
+ */
+export function chunkText(text: string, options: ChunkOptions): TextChunk[] {
+    const maxChars = options.maxChars ?? DEFAULT_CHUNK_SIZE;
+    const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(maxChars / 2));
+
+    const sections: Section[] = options.format === 'markdown'
+        ? splitMarkdownSections(text)
+        : [{ path: [], text }];
+
+    const chunks: TextChunk[] = [];
+    for (const section of sections) {
+        for (const content of packBlocks(section.text, maxChars, overlap, options.format)) {
+            chunks.push({
+                index: chunks.length,
+                content,
+                section: section.path.length > 0 ? section.path.join(' > ') : null,
+            });
+        }
+    }
+    return chunks;
+}
@@ -0,0 +1,100 @@
+/**
+ * Shared helpers for the supabase-memory CLI subcommands
+ */
+
+import inquirer from 'inquirer';
+import type { DatabaseConfig, SupabaseConfig } from './config.js';
+
+/**
+ * Value of a `--name value` or `--name=value` flag
+ */
+export function getFlag(args: string[], name: string): string | undefined {
+    const prefix = `--${name}=`;
+    const inline = args.find(a => a.startsWith(prefix));
+    if (inline) return inline.slice(prefix.length);
+
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Whether a boolean `--name` flag is present
+ */
+export function hasFlag(args: string[], name: string): boolean {
+    return args.includes(`--${name}`);
+}
+
+/**
+ * Numeric flag value, falling back to a default
+ */
+export function getNumberFlag(args: string[], name: string, fallback: number): number {
+    const value = getFlag(args, name);
+    if (value === undefined) return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+        throw new Error(`--${name} must be a positive number`);
+    }
+    return parsed;
+}
+
+/**
+ * Project ref of a Supabase-hosted project URL (https://<ref>.supabase.co), null for other hosts
+ */
+export function getProjectRef(url: string): string | null {
+    try {
+        const hostname = new URL(url).hostname;
+        return hostname.endsWith('.supabase.co') ? hostname.split('.')[0] : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Postgres host of a configuration: the configured host, or the Supabase-hosted database of the project
+ */
+export function getDatabaseHost(config: SupabaseConfig): string | null {
+    if (config.database?.host) return config.database.host;
+    const projectRef = getProjectRef(config.projectUrl);
+    return projectRef ? `db.${projectRef}.supabase.co` : null;
+}
+
+/**
+ * Direct Postgres connection string
+ */
+export function buildDatabaseUrl(database: DatabaseConfig & { host: string }, password: string): string {
+    const user = encodeURIComponent(database.user ?? 'postgres');
+    const name = encodeURIComponent(database.name ?? 'postgres');
+    const sslMode = database.ssl === false ? '?sslmode=disable' : '';
+    return `postgres://${user}:${encodeURIComponent(password)}@${database.host}:${database.port ?? 5432}/${name}${sslMode}`;
+}
+
+/**
+ * Resolve a direct Postgres connection string for maintenance commands:
+ * --db-url flag, SUPABASE_DB_URL / DATABASE_URL, or the configured host (the
+ * project's Supabase database by default) with SUPABASE_DB_PASSWORD or a password prompt
+ */
+export async function resolveDatabaseUrl(args: string[], config: SupabaseConfig): Promise<string> {
+    const url = getFlag(args, 'db-url') || config.database?.url;
+    if (url) return url;
+
+    const host = getDatabaseHost(config);
+    if (!host) {
+        throw new Error('A database connection is required: pass --db-url, or set SUPABASE_DB_URL or SUPABASE_DB_HOST');
+    }
+
+    let password = config.database?.password;
+    if (!password) {
+        if (!process.stdin.isTTY) {
+            throw new Error('A database password is required: set SUPABASE_DB_PASSWORD or pass --db-url');
+        }
+        ({ password } = await inquirer.prompt([{
+            type: 'password',
+            name: 'password',
+            message: `Database Password (${host}):`,
+            mask: '*',
+            validate: (input) => input.length > 0
+        }]));
+    }
+    return buildDatabaseUrl({ ...config.database, host }, password!);
+}
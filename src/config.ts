@@ -3,31 +3,148 @@
  * Handles secure storage and retrieval of Supabase credentials
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { existsSync, readFileSync, readdirSync, writeFileSync, mkdirSync } from 'fs';
 import { homedir } from 'os';
 import { join, dirname } from 'path';
+import type { StorageBackend, ScoringConfig } from './storage/types.js';
+import type { EmbeddingConfig, EmbeddingProviderName } from './embedding.js';
+import type { DedupeConfig, DuplicateAction } from './dedupe.js';
+import type { RelationConfig } from './relations.js';
+import type { GlobalScopeConfig } from './scope.js';
+import type { ShortTermConfig } from './shortterm.js';
+import type { AuthConfig } from './auth.js';
+import type { HttpConfig } from './http.js';
+import { protectSecrets, revealSecrets, type SecretStore } from './secrets.js';
+import type { MetricsConfig } from './metrics.js';
+import type { ResilienceConfig } from './resilience.js';
+import { logger, LOG_FORMATS, LOG_LEVELS, type LogFormat, type LoggingConfig, type LogLevelName } from './logger.js';
+
+/** How MCP clients reach the server */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * Direct Postgres connection for maintenance commands (setup, migrate, doctor, reembed).
+ * Defaults to the Supabase-hosted database of the project URL.
+ */
+export interface DatabaseConfig {
+    /** Full connection string; wins over the fields below */
+    url?: string;
+    /** Default: db.<project-ref>.supabase.co */
+    host?: string;
+    /** Default: 5432 */
+    port?: number;
+    /** Default: postgres */
+    user?: string;
+    /** Database name (default: postgres) */
+    name?: string;
+    /** Prompted for when missing */
+    password?: string;
+    /** Connect with TLS (default: true) */
+    ssl?: boolean;
+}
+
+/** Profile stored in config.json; others live in profiles/<name>.json */
+export const DEFAULT_PROFILE = 'default';
 
 export interface SupabaseConfig {
     projectUrl: string;
     anonKey: string;
     serviceRoleKey?: string;
+    /** Storage backend (default: 'supabase') */
+    storage?: StorageBackend;
+    /** Data file for the local backend (default: ~/.config/supabase-memory-mcp/memory-store.json) */
+    localStorePath?: string;
+    /** Embedding provider and model (default: local Xenova/all-MiniLM-L6-v2) */
+    embedding?: EmbeddingConfig;
+    /** Near-duplicate handling defaults for store_memory */
+    dedupe?: DedupeConfig;
+    /** Vector search ranking weights (see ScoringConfig) */
+    scoring?: Partial<ScoringConfig>;
+    /** Relation type vocabulary for create_reaction */
+    relations?: RelationConfig;
+    /** Shared project whose memories other projects can inherit */
+    global?: GlobalScopeConfig;
+    /** Expiry sweeping and sliding TTL for short-term memory */
+    shortTerm?: ShortTermConfig;
+    /** API keys / JWT secret for per-project access control, and this server's caller credential */
+    auth?: AuthConfig;
+    /** 'stdio' (default, one process per client) or 'http' (one shared server) */
+    transport?: TransportMode;
+    /** Listener, CORS and session settings for the HTTP transport */
+    http?: HttpConfig;
+    /** Postgres connection for maintenance commands, for hosts other than Supabase's */
+    database?: DatabaseConfig;
+    /** Where credentials are kept when the configuration is saved (default: 'plain') */
+    secrets?: SecretStore;
+    /** Log level, line format, log file and redaction */
+    logging?: LoggingConfig;
+    /** Tool call metrics and the optional OpenTelemetry exporter */
+    metrics?: MetricsConfig;
+    /** Timeouts, retries and circuit breaker for Supabase calls */
+    resilience?: ResilienceConfig;
+}
+
+let activeProfile = process.env.MEMORY_PROFILE || DEFAULT_PROFILE;
+
+/**
+ * Select the profile every later configuration lookup reads
+ */
+export function setActiveProfile(profile: string) {
+    if (!/^[\w-]+$/.test(profile)) {
+        throw new Error(`Invalid profile name '${profile}': use letters, digits, '-' and '_'`);
+    }
+    activeProfile = profile;
+}
+
+export function getActiveProfile(): string {
+    return activeProfile;
 }
 
 /**
- * Get the configuration file path
+ * Get the configuration directory
  * Stored in user's home directory for security
  */
-export function getConfigPath(): string {
-    const configDir = join(homedir(), '.config', 'supabase-memory-mcp');
-    return join(configDir, 'config.json');
+export function getConfigDir(): string {
+    return join(homedir(), '.config', 'supabase-memory-mcp');
+}
+
+/**
+ * Get the configuration file path of a profile (default: the active profile)
+ */
+export function getConfigPath(profile = activeProfile): string {
+    return profile === DEFAULT_PROFILE
+        ? join(getConfigDir(), 'config.json')
+        : join(getConfigDir(), 'profiles', `${profile}.json`);
 }
 
 /**
- * Load configuration from file
+ * Names of the saved profiles
+ */
+export function listProfiles(): string[] {
+    const profiles = existsSync(getConfigPath(DEFAULT_PROFILE)) ? [DEFAULT_PROFILE] : [];
+    const dir = join(getConfigDir(), 'profiles');
+    if (existsSync(dir)) {
+        profiles.push(...readdirSync(dir).filter(f => f.endsWith('.json')).map(f => f.slice(0, -'.json'.length)).sort());
+    }
+    return profiles;
+}
+
+/**
+ * Get the data file used by the local storage backend (one per profile)
+ */
+export function getLocalStorePath(config: SupabaseConfig): string {
+    if (config.localStorePath) return config.localStorePath;
+    return activeProfile === DEFAULT_PROFILE
+        ? join(getConfigDir(), 'memory-store.json')
+        : join(getConfigDir(), 'profiles', `${activeProfile}.memory-store.json`);
+}
+
+/**
+ * Load configuration from file, resolving keychain and encrypted secrets
  * @returns Configuration object or null if not found
  */
-export function loadConfig(): SupabaseConfig | null {
-    const configPath = getConfigPath();
+export function loadConfig(profile = activeProfile): SupabaseConfig | null {
+    const configPath = getConfigPath(profile);
 
     if (!existsSync(configPath)) {
         return null;
@@ -35,25 +152,25 @@ export function loadConfig(): SupabaseConfig | null {
 
     try {
         const content = readFileSync(configPath, 'utf-8');
-        const config = JSON.parse(content) as SupabaseConfig;
+        const config = revealSecrets(JSON.parse(content) as SupabaseConfig);
 
-        if (!config.projectUrl || !config.anonKey) {
+        if (config.storage !== 'local' && (!config.projectUrl || !config.anonKey)) {
             return null;
         }
 
         return config;
     } catch (error) {
-        console.error('Error loading config:', error);
+        logger.error('Error loading config', error);
         return null;
     }
 }
 
 /**
- * Save configuration to file
+ * Save configuration to file, moving secrets to the keychain or encrypting them when configured
  * @param config - Configuration to save
  */
-export function saveConfig(config: SupabaseConfig): void {
-    const configPath = getConfigPath();
+export function saveConfig(config: SupabaseConfig, profile = activeProfile): void {
+    const configPath = getConfigPath(profile);
     const configDir = dirname(configPath);
 
     // Create directory if it doesn't exist
@@ -62,7 +179,8 @@ export function saveConfig(config: SupabaseConfig): void {
     }
 
     // Write config with restricted permissions concept (JSON format)
-    writeFileSync(configPath, JSON.stringify(config, null, 2), { mode: 0o600 });
+    const stored = protectSecrets(config, config.secrets ?? 'plain', profile);
+    writeFileSync(configPath, JSON.stringify(stored, null, 2), { mode: 0o600 });
 }
 
 /**
@@ -74,7 +192,130 @@ export function getConfigFromEnv(): Partial<SupabaseConfig> {
         projectUrl: process.env.SUPABASE_PROJECT_URL || process.env.SUPABASE_URL,
         anonKey: process.env.SUPABASE_ANON_KEY || process.env.SUPABASE_KEY,
         serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+        storage: process.env.MEMORY_STORAGE as StorageBackend | undefined,
+        localStorePath: process.env.MEMORY_LOCAL_PATH,
+        embedding: getEmbeddingConfigFromEnv(),
+        dedupe: getDedupeConfigFromEnv(),
+        scoring: getScoringConfigFromEnv(),
+        relations: process.env.MEMORY_RELATION_STRICT
+            ? { strict: process.env.MEMORY_RELATION_STRICT !== 'false' }
+            : undefined,
+        global: definedOnly({
+            projectId: process.env.MEMORY_GLOBAL_PROJECT,
+            inherit: process.env.MEMORY_INHERIT_GLOBAL ? process.env.MEMORY_INHERIT_GLOBAL === 'true' : undefined,
+        }),
+        shortTerm: definedOnly({
+            sweepIntervalSeconds: process.env.MEMORY_SHORT_TERM_SWEEP_SECONDS ? Number(process.env.MEMORY_SHORT_TERM_SWEEP_SECONDS) : undefined,
+            sliding: process.env.MEMORY_SHORT_TERM_SLIDING ? process.env.MEMORY_SHORT_TERM_SLIDING !== 'false' : undefined,
+        }),
+        auth: definedOnly({
+            jwtSecret: process.env.MEMORY_JWT_SECRET,
+            credential: process.env.MEMORY_API_KEY || process.env.MEMORY_AUTH_TOKEN,
+        }),
+        transport: process.env.MEMORY_TRANSPORT as TransportMode | undefined,
+        http: definedOnly({
+            port: process.env.MEMORY_HTTP_PORT ? Number(process.env.MEMORY_HTTP_PORT) : undefined,
+            host: process.env.MEMORY_HTTP_HOST,
+            corsOrigins: process.env.MEMORY_CORS_ORIGINS?.split(',').map(o => o.trim()).filter(Boolean),
+            fileDirectory: process.env.MEMORY_HTTP_FILE_DIR,
+        }),
+        database: definedOnly({
+            url: process.env.SUPABASE_DB_URL || process.env.DATABASE_URL,
+            host: process.env.SUPABASE_DB_HOST,
+            port: process.env.SUPABASE_DB_PORT ? Number(process.env.SUPABASE_DB_PORT) : undefined,
+            user: process.env.SUPABASE_DB_USER,
+            name: process.env.SUPABASE_DB_NAME,
+            password: process.env.SUPABASE_DB_PASSWORD,
+            ssl: process.env.SUPABASE_DB_SSL ? process.env.SUPABASE_DB_SSL !== 'false' : undefined,
+        }),
+        secrets: process.env.MEMORY_SECRET_STORE as SecretStore | undefined,
+        logging: definedOnly({
+            level: process.env.MEMORY_LOG_LEVEL as LogLevelName | undefined,
+            format: process.env.MEMORY_LOG_FORMAT as LogFormat | undefined,
+            file: process.env.MEMORY_LOG_FILE,
+            maxFileSizeMb: process.env.MEMORY_LOG_MAX_SIZE_MB ? Number(process.env.MEMORY_LOG_MAX_SIZE_MB) : undefined,
+            maxFiles: process.env.MEMORY_LOG_MAX_FILES ? Number(process.env.MEMORY_LOG_MAX_FILES) : undefined,
+            redact: process.env.MEMORY_LOG_REDACT ? process.env.MEMORY_LOG_REDACT !== 'false' : undefined,
+        }),
+        metrics: definedOnly({
+            enabled: process.env.MEMORY_METRICS ? process.env.MEMORY_METRICS !== 'false' : undefined,
+            otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+            otlpHeaders: process.env.OTEL_EXPORTER_OTLP_HEADERS ? parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS) : undefined,
+            exportIntervalSeconds: process.env.OTEL_METRIC_EXPORT_INTERVAL ? Number(process.env.OTEL_METRIC_EXPORT_INTERVAL) / 1000 : undefined,
+            serviceName: process.env.OTEL_SERVICE_NAME,
+        }),
+        resilience: definedOnly({
+            timeoutMs: process.env.MEMORY_DB_TIMEOUT_MS ? Number(process.env.MEMORY_DB_TIMEOUT_MS) : undefined,
+            retries: process.env.MEMORY_DB_RETRIES ? Number(process.env.MEMORY_DB_RETRIES) : undefined,
+            breakerThreshold: process.env.MEMORY_DB_BREAKER_THRESHOLD ? Number(process.env.MEMORY_DB_BREAKER_THRESHOLD) : undefined,
+            breakerCooldownSeconds: process.env.MEMORY_DB_BREAKER_COOLDOWN_SECONDS ? Number(process.env.MEMORY_DB_BREAKER_COOLDOWN_SECONDS) : undefined,
+        }),
+    };
+}
+
+/**
+ * Drop unset keys from a group of env settings (undefined when none are set)
+ */
+function definedOnly<T extends object>(settings: T): T | undefined {
+    const defined = Object.entries(settings).filter(([_, v]) => v !== undefined);
+    return defined.length > 0 ? Object.fromEntries(defined) as T : undefined;
+}
+
+/**
+ * Parse OpenTelemetry's "key=value,key2=value2" header list
+ */
+function parseHeaders(list: string): Record<string, string> {
+    return Object.fromEntries(list.split(',')
+        .map(pair => pair.split('='))
+        .filter(([key, ...value]) => key.trim() && value.length > 0)
+        .map(([key, ...value]) => [key.trim(), decodeURIComponent(value.join('=').trim())]));
+}
+
+/**
+ * Get embedding settings from environment variables
+ */
+function getEmbeddingConfigFromEnv(): EmbeddingConfig | undefined {
+    const embedding: EmbeddingConfig = {
+        provider: process.env.EMBEDDING_PROVIDER as EmbeddingProviderName | undefined,
+        model: process.env.EMBEDDING_MODEL,
+        dimension: process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined,
+        baseUrl: process.env.EMBEDDING_BASE_URL,
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+        cacheSize: process.env.EMBEDDING_CACHE_SIZE ? Number(process.env.EMBEDDING_CACHE_SIZE) : undefined,
+        cachePath: process.env.EMBEDDING_CACHE_PATH,
+        batchSize: process.env.EMBEDDING_BATCH_SIZE ? Number(process.env.EMBEDDING_BATCH_SIZE) : undefined,
+        batchWindowMs: process.env.EMBEDDING_BATCH_WINDOW_MS ? Number(process.env.EMBEDDING_BATCH_WINDOW_MS) : undefined,
+    };
+
+    return definedOnly(embedding);
+}
+
+/**
+ * Get near-duplicate handling defaults from environment variables
+ */
+function getDedupeConfigFromEnv(): DedupeConfig | undefined {
+    const dedupe: DedupeConfig = {
+        onDuplicate: process.env.MEMORY_DEDUPE as DuplicateAction | undefined,
+        threshold: process.env.MEMORY_DEDUPE_THRESHOLD ? Number(process.env.MEMORY_DEDUPE_THRESHOLD) : undefined,
     };
+
+    return definedOnly(dedupe);
+}
+
+/**
+ * Get vector search ranking weights from environment variables
+ */
+function getScoringConfigFromEnv(): Partial<ScoringConfig> | undefined {
+    const number = (name: string) => process.env[name] ? Number(process.env[name]) : undefined;
+    const scoring: Partial<ScoringConfig> = {
+        similarity_weight: number('MEMORY_SIMILARITY_WEIGHT'),
+        importance_weight: number('MEMORY_IMPORTANCE_WEIGHT'),
+        recency_weight: number('MEMORY_RECENCY_WEIGHT'),
+        access_weight: number('MEMORY_ACCESS_WEIGHT'),
+        half_life_days: number('MEMORY_RECENCY_HALF_LIFE_DAYS'),
+    };
+
+    return definedOnly(scoring);
 }
 
 /**
@@ -90,8 +331,58 @@ export function getConfig(): SupabaseConfig | null {
         ...Object.fromEntries(
             Object.entries(envConfig).filter(([_, v]) => v !== undefined)
         ),
+        // Nested settings merge field by field
+        embedding: { ...fileConfig?.embedding, ...envConfig.embedding },
+        dedupe: { ...fileConfig?.dedupe, ...envConfig.dedupe },
+        scoring: { ...fileConfig?.scoring, ...envConfig.scoring },
+        relations: { ...fileConfig?.relations, ...envConfig.relations },
+        global: { ...fileConfig?.global, ...envConfig.global },
+        shortTerm: { ...fileConfig?.shortTerm, ...envConfig.shortTerm },
+        auth: { ...fileConfig?.auth, ...envConfig.auth },
+        http: { ...fileConfig?.http, ...envConfig.http },
+        database: { ...fileConfig?.database, ...envConfig.database },
+        logging: { ...fileConfig?.logging, ...envConfig.logging },
+        metrics: { ...fileConfig?.metrics, ...envConfig.metrics },
+        resilience: { ...fileConfig?.resilience, ...envConfig.resilience },
     };
 
+    const provider = merged.embedding?.provider;
+    if (provider && provider !== 'transformers' && provider !== 'openai') {
+        logger.error(`Unknown embedding provider: ${provider}`);
+        return null;
+    }
+
+    const onDuplicate = merged.dedupe?.onDuplicate;
+    if (onDuplicate && !['none', 'skip', 'merge', 'link'].includes(onDuplicate)) {
+        logger.error(`Unknown duplicate action: ${onDuplicate}`);
+        return null;
+    }
+
+    if (merged.transport && merged.transport !== 'stdio' && merged.transport !== 'http') {
+        logger.error(`Unknown transport: ${merged.transport}`);
+        return null;
+    }
+
+    if (merged.storage && merged.storage !== 'supabase' && merged.storage !== 'local') {
+        logger.error(`Unknown storage backend: ${merged.storage}`);
+        return null;
+    }
+
+    const { level, format } = merged.logging ?? {};
+    if (level && !LOG_LEVELS.includes(level)) {
+        logger.error(`Unknown log level: ${level}`);
+        return null;
+    }
+    if (format && !LOG_FORMATS.includes(format)) {
+        logger.error(`Unknown log format: ${format}`);
+        return null;
+    }
+
+    // The local backend needs no Supabase credentials
+    if (merged.storage === 'local') {
+        return { projectUrl: '', anonKey: '', ...merged } as SupabaseConfig;
+    }
+
     // Check if we have all required fields
     if (!merged.projectUrl || !merged.anonKey) {
         return null;
@@ -0,0 +1,79 @@
+/**
+ * Near-duplicate detection and merging for episodic memories
+ */
+
+export type DuplicateAction = 'none' | 'skip' | 'merge' | 'link';
+
+export interface DedupeConfig {
+    /** What store_memory does with a near-duplicate (default: 'none') */
+    onDuplicate?: DuplicateAction;
+    /** Cosine similarity at or above which two memories are duplicates (default: 0.95) */
+    threshold?: number;
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.95;
+
+/** Relation type linking a duplicate to the memory it repeats */
+export const DUPLICATE_RELATION = 'duplicates';
+
+/**
+ * Metadata of a memory after folding a duplicate into it:
+ * kept keys win, new keys are appended and the hit counter grows
+ */
+export function mergeDuplicateMetadata(kept: Record<string, unknown>, duplicate: Record<string, unknown>): Record<string, unknown> {
+    const count = (m: Record<string, unknown>) => (typeof m.duplicate_count === 'number' ? m.duplicate_count : 0);
+
+    return {
+        ...duplicate,
+        ...kept,
+        duplicate_count: count(kept) + count(duplicate) + 1,
+        last_duplicate_at: new Date().toISOString(),
+    };
+}
+
+interface DuplicateCandidate {
+    id: string;
+    importance: number;
+    created_at: string;
+}
+
+/**
+ * Group duplicate pairs into clusters (union-find) and pick the memory to keep
+ * in each: highest importance, then oldest
+ */
+export function clusterDuplicates<T extends DuplicateCandidate>(
+    pairs: { memory_id: string; duplicate_id: string }[],
+    memories: Map<string, T>,
+): { keep: T; duplicates: T[] }[] {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+        const p = parent.get(id) ?? id;
+        if (p === id) return id;
+        const root = find(p);
+        parent.set(id, root);
+        return root;
+    };
+
+    // Every paired memory gets an entry, so roots are listed in their own cluster
+    const known = pairs.filter(p => memories.has(p.memory_id) && memories.has(p.duplicate_id));
+    for (const { memory_id, duplicate_id } of known) {
+        if (!parent.has(memory_id)) parent.set(memory_id, memory_id);
+        if (!parent.has(duplicate_id)) parent.set(duplicate_id, duplicate_id);
+    }
+    for (const { memory_id, duplicate_id } of known) {
+        parent.set(find(memory_id), find(duplicate_id));
+    }
+
+    const clusters = new Map<string, T[]>();
+    for (const id of parent.keys()) {
+        const root = find(id);
+        clusters.set(root, [...(clusters.get(root) ?? []), memories.get(id)!]);
+    }
+
+    return [...clusters.values()].map(members => {
+        const [keep, ...duplicates] = [...members].sort((a, b) =>
+            b.importance - a.importance || a.created_at.localeCompare(b.created_at)
+        );
+        return { keep, duplicates };
+    });
+}
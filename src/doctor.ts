@@ -0,0 +1,253 @@
+/**
+ * Doctor command: check the database against what the server expects
+ * (pgvector, tables, columns, indexes, RPC signatures, embedding dimension, migrations)
+ *
+ * Usage: supabase-memory doctor [--db-url <postgres-url>]
+ */
+
+import chalk from 'chalk';
+import type pg from 'pg';
+import { getConfig, getLocalStorePath } from './config.js';
+import { configureEmbedding, getEmbeddingModel } from './embedding.js';
+import { resolveDatabaseUrl } from './cli.js';
+import { LocalStorage } from './storage/local.js';
+import { connectPostgres, getVectorColumnDimension } from './storage/postgres.js';
+import { getMigrationStatus } from './migrations.js';
+import type { EmbeddingModelStats } from './storage/types.js';
+
+type CheckStatus = 'ok' | 'warn' | 'fail';
+
+interface DoctorCheck {
+    name: string;
+    status: CheckStatus;
+    detail: string;
+}
+
+/** Must match the tables in schema.sql */
+const EXPECTED_COLUMNS: Record<string, string[]> = {
+    memories: [
+        'id', 'project_id', 'category', 'content', 'embedding', 'embedding_model', 'embedding_dimension',
+        'metadata', 'type', 'importance', 'content_tsv', 'last_accessed_at', 'access_count', 'created_at', 'updated_at',
+    ],
+    memory_revisions: ['id', 'memory_id', 'project_id', 'revision', 'category', 'content', 'type', 'importance', 'metadata', 'created_at'],
+    memory_relations: ['id', 'source_id', 'target_id', 'relation_type', 'weight', 'metadata', 'created_at'],
+    structured_memories: ['id', 'project_id', 'category', 'key', 'value', 'description', 'created_at', 'updated_at'],
+    structured_memory_schemas: ['id', 'project_id', 'category', 'schema', 'created_at', 'updated_at'],
+    structured_memory_history: ['id', 'project_id', 'category', 'key', 'value', 'description', 'operation', 'created_at'],
+    short_term_memory: ['id', 'session_id', 'key', 'value', 'created_at', 'expires_at', 'ttl_seconds', 'sliding', 'owner_id'],
+};
+
+/** Must match the indexes in schema.sql */
+const EXPECTED_INDEXES = [
+    'idx_memories_project_id',
+    'idx_memories_category',
+    'idx_memories_type',
+    'idx_memories_importance',
+    'idx_memories_embedding_model',
+    'idx_memories_embedding',
+    'idx_memories_content_tsv',
+    'idx_memories_metadata',
+    'idx_memories_project_created',
+    'idx_revisions_memory',
+    'idx_relations_source',
+    'idx_relations_target',
+    'idx_structured_lookup',
+    'idx_structured_history_lookup',
+    'idx_short_term_expires',
+];
+
+/** Arguments the server passes to each function in schema.sql */
+const EXPECTED_FUNCTIONS: Record<string, string[]> = {
+    match_memories: [
+        'query_embedding', 'match_project_id', 'match_category', 'match_threshold', 'match_count', 'match_embedding_model',
+        'similarity_weight', 'importance_weight', 'recency_weight', 'access_weight', 'recency_half_life_days',
+        'match_types', 'min_importance', 'metadata_filter', 'created_after', 'created_before', 'updated_after', 'updated_before',
+        'extra_project_ids',
+    ],
+    hybrid_search_memories: [
+        'query_text', 'query_embedding', 'match_project_id', 'match_category', 'match_threshold', 'match_count', 'search_mode',
+        'rrf_k', 'match_embedding_model', 'match_types', 'min_importance', 'metadata_filter',
+        'created_after', 'created_before', 'updated_after', 'updated_before', 'extra_project_ids',
+    ],
+    record_memory_access: ['memory_ids'],
+    embedding_model_stats: ['match_project_id'],
+    project_stats: ['target_project_id', 'growth_bucket', 'bucket_count', 'top_count'],
+    update_memory: [
+        'target_id', 'target_project_id', 'new_content', 'new_embedding', 'new_embedding_model', 'new_embedding_dimension',
+        'new_category', 'new_type', 'new_importance', 'new_metadata', 'replace_metadata',
+    ],
+    find_duplicate_memories: ['match_project_id', 'match_threshold', 'match_embedding_model', 'neighbor_count'],
+    merge_memories: ['keep_id', 'duplicate_id', 'target_project_id'],
+    get_related_memories: ['start_id'],
+    list_memory_relations: ['match_project_id', 'match_relation_type', 'match_memory_id', 'max_results'],
+    traverse_memory_graph: ['start_id', 'max_depth', 'relation_types', 'traverse_direction', 'max_results'],
+    find_memory_path: ['source_id', 'target_id', 'max_depth', 'relation_types', 'traverse_direction'],
+    memory_access_allowed: ['target_project', 'permission'],
+};
+
+const MIGRATE_HINT = "run 'supabase-memory migrate up'";
+
+function missingFrom(expected: string[], present: Set<string>): string[] {
+    return expected.filter(name => !present.has(name));
+}
+
+async function checkPgvector(client: pg.Client): Promise<DoctorCheck> {
+    const { rows } = await client.query(`SELECT extversion FROM pg_extension WHERE extname = 'vector'`);
+    return rows.length > 0
+        ? { name: 'pgvector', status: 'ok', detail: `version ${rows[0].extversion}` }
+        : { name: 'pgvector', status: 'fail', detail: `extension not installed; ${MIGRATE_HINT}` };
+}
+
+async function checkTables(client: pg.Client): Promise<DoctorCheck[]> {
+    const { rows } = await client.query(
+        `SELECT table_name, column_name FROM information_schema.columns
+         WHERE table_schema = 'public' AND table_name = ANY($1)`,
+        [Object.keys(EXPECTED_COLUMNS)]
+    );
+
+    return Object.entries(EXPECTED_COLUMNS).map(([table, columns]): DoctorCheck => {
+        const present = new Set(rows.filter(r => r.table_name === table).map(r => r.column_name as string));
+        if (present.size === 0) return { name: `table ${table}`, status: 'fail', detail: `missing; ${MIGRATE_HINT}` };
+
+        const missing = missingFrom(columns, present);
+        return missing.length === 0
+            ? { name: `table ${table}`, status: 'ok', detail: `${columns.length} columns` }
+            : { name: `table ${table}`, status: 'fail', detail: `missing columns ${missing.join(', ')}; ${MIGRATE_HINT}` };
+    });
+}
+
+async function checkIndexes(client: pg.Client): Promise<DoctorCheck> {
+    const { rows } = await client.query(`SELECT indexname FROM pg_indexes WHERE schemaname = 'public'`);
+    const missing = missingFrom(EXPECTED_INDEXES, new Set(rows.map(r => r.indexname as string)));
+    return missing.length === 0
+        ? { name: 'indexes', status: 'ok', detail: `${EXPECTED_INDEXES.length} present` }
+        : { name: 'indexes', status: 'warn', detail: `missing ${missing.join(', ')} (queries will be slower); ${MIGRATE_HINT}` };
+}
+
+/**
+ * Every RPC must exist with the arguments the server passes. PostgREST resolves
+ * calls by argument name, so a stale overload left by an old schema breaks them.
+ */
+async function checkFunctions(client: pg.Client): Promise<DoctorCheck[]> {
+    const { rows } = await client.query(
+        `SELECT p.proname AS name, pg_get_function_identity_arguments(p.oid) AS args
+         FROM pg_proc p
+         JOIN pg_namespace n ON n.oid = p.pronamespace
+         WHERE n.nspname = 'public' AND p.proname = ANY($1)`,
+        [Object.keys(EXPECTED_FUNCTIONS)]
+    );
+
+    return Object.entries(EXPECTED_FUNCTIONS).map(([fn, expected]): DoctorCheck => {
+        const overloads = rows
+            .filter(r => r.name === fn)
+            .map(r => new Set((r.args as string).split(',').map(arg => arg.trim().split(/\s+/)[0]).filter(Boolean)));
+
+        if (overloads.length === 0) return { name: `function ${fn}`, status: 'fail', detail: `missing; ${MIGRATE_HINT}` };
+
+        const current = overloads.filter(args => missingFrom(expected, args).length === 0);
+        if (current.length === 0) {
+            const missing = missingFrom(expected, overloads[0]);
+            return { name: `function ${fn}`, status: 'fail', detail: `outdated signature (no ${missing.join(', ')}); ${MIGRATE_HINT}` };
+        }
+        if (overloads.length > 1) {
+            return { name: `function ${fn}`, status: 'warn', detail: `${overloads.length} overloads; drop the outdated ones so calls are not ambiguous` };
+        }
+        return { name: `function ${fn}`, status: 'ok', detail: 'signature matches' };
+    });
+}
+
+async function checkEmbeddingColumn(client: pg.Client, dimension: number): Promise<DoctorCheck> {
+    const columnDimension = await getVectorColumnDimension(client, 'embedding').catch(() => null);
+    if (columnDimension === null) return { name: 'embedding dimension', status: 'fail', detail: 'memories.embedding is missing' };
+    return columnDimension === dimension
+        ? { name: 'embedding dimension', status: 'ok', detail: `vector(${dimension}) matches the model` }
+        : { name: 'embedding dimension', status: 'fail', detail: `memories.embedding is vector(${columnDimension}) but the model produces ${dimension}; run 'supabase-memory reembed'` };
+}
+
+function checkEmbeddingModels(stats: EmbeddingModelStats[], model: string): DoctorCheck {
+    const stale = stats.filter(s => s.embedding_model !== model).reduce((sum, s) => sum + Number(s.memory_count), 0);
+    return stale === 0
+        ? { name: 'embedding models', status: 'ok', detail: `every memory uses ${model}` }
+        : { name: 'embedding models', status: 'warn', detail: `${stale} memories embedded with another model are skipped by search; run 'supabase-memory reembed'` };
+}
+
+async function checkMigrations(client: pg.Client): Promise<DoctorCheck> {
+    const status = await getMigrationStatus(client);
+    const pending = status.filter(m => !m.applied_at).map(m => m.version);
+    const modified = status.filter(m => m.modified).map(m => m.version);
+
+    if (pending.length === status.length) {
+        return { name: 'migrations', status: 'warn', detail: `not tracked yet; ${MIGRATE_HINT}` };
+    }
+    if (pending.length > 0) return { name: 'migrations', status: 'warn', detail: `pending: ${pending.join(', ')}; ${MIGRATE_HINT}` };
+    if (modified.length > 0) return { name: 'migrations', status: 'warn', detail: `changed since applied: ${modified.join(', ')}` };
+    return { name: 'migrations', status: 'ok', detail: `${status.length} applied` };
+}
+
+async function inspectDatabase(client: pg.Client, model: string, dimension: number): Promise<DoctorCheck[]> {
+    const checks = [await checkPgvector(client), ...await checkTables(client)];
+    if (checks.some(c => c.status === 'fail')) {
+        // Nothing else can be inspected without the extension and tables
+        return checks;
+    }
+
+    const { rows } = await client.query(
+        `SELECT embedding_model, embedding_dimension, COUNT(*)::INT AS memory_count
+         FROM memories GROUP BY embedding_model, embedding_dimension`
+    );
+    return [
+        ...checks,
+        await checkIndexes(client),
+        ...await checkFunctions(client),
+        await checkEmbeddingColumn(client, dimension),
+        checkEmbeddingModels(rows, model),
+        await checkMigrations(client),
+    ];
+}
+
+function printCheck(check: DoctorCheck) {
+    const icon = { ok: '✅', warn: '⚠️ ', fail: '❌' }[check.status];
+    const color = { ok: chalk.gray, warn: chalk.yellow, fail: chalk.red }[check.status];
+    console.log(`${icon} ${check.name.padEnd(36)} ${color(check.detail)}`);
+}
+
+/**
+ * Run every check, returning false when any failed
+ */
+export async function runDoctor(args: string[]): Promise<boolean> {
+    const config = getConfig();
+    if (!config) {
+        throw new Error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
+    }
+
+    configureEmbedding(config.embedding);
+    const { model, dimension } = getEmbeddingModel();
+
+    let checks: DoctorCheck[];
+    if (config.storage === 'local') {
+        console.log(chalk.cyan(`\n🩺 Checking local storage at ${getLocalStorePath(config)}\n`));
+        const storage = new LocalStorage(getLocalStorePath(config));
+        checks = [checkEmbeddingModels(await storage.getEmbeddingModelStats(), model)];
+    } else {
+        const client = await connectPostgres(await resolveDatabaseUrl(args, config));
+        try {
+            console.log(chalk.cyan(`\n🩺 Checking the database for ${model} (${dimension}d)\n`));
+            checks = await inspectDatabase(client, model, dimension);
+        } finally {
+            await client.end().catch(() => { });
+        }
+    }
+
+    checks.forEach(printCheck);
+
+    const failed = checks.filter(c => c.status === 'fail').length;
+    const warned = checks.filter(c => c.status === 'warn').length;
+    if (failed > 0) {
+        console.log(chalk.red(`\n${failed} check(s) failed, ${warned} warning(s)`));
+    } else if (warned > 0) {
+        console.log(chalk.yellow(`\nNo failures, ${warned} warning(s)`));
+    } else {
+        console.log(chalk.green('\n✅ Everything looks healthy'));
+    }
+    return failed === 0;
+}
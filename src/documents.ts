@@ -0,0 +1,156 @@
+/**
+ * Document ingestion: long text is stored as a parent document memory plus
+ * one memory per chunk, each chunk linked to the document with a 'part_of' relation
+ */
+
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { storeMemoriesBatch, type BatchItemResult } from './batch.js';
+import { chunkText, detectFormat, type DocumentFormat } from './chunking.js';
+import { getEmbedding, getEmbeddingModel } from './embedding.js';
+import { InvalidRequestError } from './errors.js';
+import type { MemoryStorage, MemoryType, RelationSnapshot } from './storage/index.js';
+
+/** Relation type from a chunk to its document */
+export const CHUNK_RELATION = 'part_of';
+
+/** Characters of the document kept in the parent record's content */
+const EXCERPT_LENGTH = 500;
+
+export interface DocumentInput {
+    project_id: string;
+    category: string;
+    /** Inline text; alternatively `path` to a local file */
+    text?: string;
+    path?: string;
+    title?: string;
+    /** Inferred from the file extension when omitted */
+    format?: DocumentFormat;
+    chunkSize?: number;
+    chunkOverlap?: number;
+    type?: MemoryType;
+    importance?: number;
+    metadata?: Record<string, unknown>;
+}
+
+export interface IngestResult {
+    document_id: string;
+    title: string;
+    format: DocumentFormat;
+    chunks: number;
+    stored: number;
+    failed: BatchItemResult[];
+}
+
+/** Parent document details attached to search hits on a chunk */
+export interface DocumentContext {
+    id: string;
+    title: string;
+    source: string | null;
+    section: string | null;
+    chunk_index: number;
+    chunk_count: number;
+}
+
+function defaultTitle(text: string, format: DocumentFormat, path?: string): string {
+    const heading = format === 'markdown' ? text.match(/^#\s+(.+)$/m)?.[1] : undefined;
+    if (heading) return heading.trim();
+    if (path) return basename(path);
+    return text.trim().split('\n')[0].slice(0, 80);
+}
+
+/**
+ * Chunk, embed and store a document, returning the parent record's ID
+ */
+export async function ingestDocument(storage: MemoryStorage, input: DocumentInput): Promise<IngestResult> {
+    if ((input.text === undefined) === (input.path === undefined)) {
+        throw new InvalidRequestError('Provide either text or path');
+    }
+
+    const text = input.text ?? await readFile(input.path!, 'utf-8');
+    if (text.trim() === '') throw new InvalidRequestError('Document is empty');
+
+    const format = input.format ?? (input.path ? detectFormat(input.path) : 'text');
+    const title = input.title ?? defaultTitle(text, format, input.path);
+    const source = input.path ?? null;
+    const chunks = chunkText(text, { format, maxChars: input.chunkSize, overlap: input.chunkOverlap });
+
+    // The parent record carries the title and an excerpt, so it is findable on its own
+    const excerpt = text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+    const content = `${title}\n\n${excerpt}`;
+    const { model, dimension } = getEmbeddingModel();
+    const document = await storage.insertMemory({
+        project_id: input.project_id,
+        category: input.category,
+        content,
+        embedding: await getEmbedding(content),
+        embedding_model: model,
+        embedding_dimension: dimension,
+        type: input.type ?? 'episodic',
+        importance: input.importance ?? 1,
+        metadata: {
+            ...input.metadata,
+            document: true,
+            title,
+            source,
+            format,
+            chunk_count: chunks.length,
+            char_count: text.length,
+        },
+    });
+
+    const results = await storeMemoriesBatch(storage, chunks.map(chunk => ({
+        project_id: input.project_id,
+        category: input.category,
+        content: chunk.content,
+        type: input.type,
+        importance: input.importance,
+        metadata: {
+            ...input.metadata,
+            document_id: document.id,
+            title,
+            source,
+            section: chunk.section,
+            chunk_index: chunk.index,
+            chunk_count: chunks.length,
+        },
+    })));
+
+    const now = new Date().toISOString();
+    const relations: RelationSnapshot[] = results
+        .filter(r => r.success)
+        .map(r => ({
+            source_id: r.memory_id!,
+            target_id: document.id,
+            relation_type: CHUNK_RELATION,
+            weight: 1,
+            metadata: { chunk_index: r.index },
+            created_at: now,
+        }));
+    if (relations.length > 0) await storage.restoreRelations(relations);
+
+    return {
+        document_id: document.id,
+        title,
+        format,
+        chunks: chunks.length,
+        stored: relations.length,
+        failed: results.filter(r => !r.success),
+    };
+}
+
+/**
+ * Parent document of a chunk memory, read from the metadata written at ingestion
+ */
+export function getDocumentContext(metadata: Record<string, unknown> | null | undefined): DocumentContext | null {
+    if (!metadata || typeof metadata.document_id !== 'string') return null;
+
+    return {
+        id: metadata.document_id,
+        title: String(metadata.title ?? ''),
+        source: typeof metadata.source === 'string' ? metadata.source : null,
+        section: typeof metadata.section === 'string' ? metadata.section : null,
+        chunk_index: Number(metadata.chunk_index ?? 0),
+        chunk_count: Number(metadata.chunk_count ?? 0),
+    };
+}
@@ -1,27 +1,384 @@
-import { pipeline } from '@xenova/transformers';
+import {
+    DEFAULT_EMBEDDING_CACHE_SIZE,
+    EmbeddingCache,
+    embeddingCacheKey,
+    type EmbeddingCacheStats,
+} from './embeddingcache.js';
+import { logger } from './logger.js';
+import { traceEmbedding } from './metrics.js';
 
-// Singleton to limit model loading to once
-let generateEmbedding: any = null;
+export type EmbeddingProviderName = 'transformers' | 'openai';
 
 /**
- * Generate embeddings using a local small model
- * Model: Xenova/all-MiniLM-L6-v2 (384 dimensions)
+ * Whether text is being stored or used as a search query.
+ * Some models (e5, bge) expect a different prefix for each.
  */
-export async function getEmbedding(text: string): Promise<number[]> {
-    if (!generateEmbedding) {
-        console.error('Loading local embedding model (Xenova/all-MiniLM-L6-v2)...');
-        generateEmbedding = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
-        console.error('Model loaded.');
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface EmbeddingConfig {
+    provider?: EmbeddingProviderName;
+    model?: string;
+    /** Required for models not in EMBEDDING_MODELS */
+    dimension?: number;
+    /** OpenAI-compatible endpoint, e.g. https://api.openai.com/v1 */
+    baseUrl?: string;
+    apiKey?: string;
+    /** Embeddings kept in the LRU cache (default: 10000, 0 disables it) */
+    cacheSize?: number;
+    /** File the cache is persisted to across restarts (default: memory only) */
+    cachePath?: string;
+    /** Most texts per model invocation (default: 64) */
+    batchSize?: number;
+    /** How long a call waits for concurrent calls to join its batch (default: 5 ms) */
+    batchWindowMs?: number;
+}
+
+export interface EmbeddingModelInfo {
+    provider: EmbeddingProviderName;
+    dimension: number;
+    queryPrefix?: string;
+    documentPrefix?: string;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Known embedding models and their output dimension
+ */
+export const EMBEDDING_MODELS: Record<string, EmbeddingModelInfo> = {
+    'Xenova/all-MiniLM-L6-v2': { provider: 'transformers', dimension: 384 },
+    'Xenova/paraphrase-multilingual-MiniLM-L12-v2': { provider: 'transformers', dimension: 384 },
+    'Xenova/bge-small-en-v1.5': { provider: 'transformers', dimension: 384, queryPrefix: 'Represent this sentence for searching relevant passages: ' },
+    'Xenova/bge-base-en-v1.5': { provider: 'transformers', dimension: 768, queryPrefix: 'Represent this sentence for searching relevant passages: ' },
+    'Xenova/e5-small-v2': { provider: 'transformers', dimension: 384, queryPrefix: 'query: ', documentPrefix: 'passage: ' },
+    'Xenova/multilingual-e5-small': { provider: 'transformers', dimension: 384, queryPrefix: 'query: ', documentPrefix: 'passage: ' },
+    'text-embedding-3-small': { provider: 'openai', dimension: 1536 },
+    'text-embedding-3-large': { provider: 'openai', dimension: 3072 },
+    'text-embedding-ada-002': { provider: 'openai', dimension: 1536 },
+};
+
+export interface EmbeddingProvider {
+    readonly name: EmbeddingProviderName;
+    /** Endpoint of a remote provider */
+    readonly baseUrl?: string;
+    readonly model: string;
+    readonly dimension: number;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Local transformers.js model, loaded once on first use
+ */
+class TransformersEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'transformers';
+    // Singleton to limit model loading to once, even when calls overlap
+    private loading: Promise<any> | null = null;
+
+    constructor(readonly model: string, readonly dimension: number) { }
+
+    private load(): Promise<any> {
+        this.loading ??= (async () => {
+            logger.info(`Loading local embedding model`, { model: this.model });
+            // Imported lazily so HTTP providers never load the ONNX runtime
+            const { pipeline } = await import('@xenova/transformers');
+            const generateEmbedding = await pipeline('feature-extraction', this.model);
+            logger.info(`Embedding model loaded`, { model: this.model });
+            return generateEmbedding;
+        })();
+        // A failed load is retried by the next call
+        this.loading.catch(() => { this.loading = null; });
+        return this.loading;
     }
 
-    // Generate embedding with mean pooling and normalization
-    const output = await generateEmbedding(text, {
-        pooling: 'mean',
-        normalize: true
-    });
+    async embed(texts: string[]): Promise<number[][]> {
+        const generateEmbedding = await this.load();
 
-    // The output is a Tensor, convert to standard array
-    return Array.from(output.data);
+        // Generate embedding with mean pooling and normalization
+        const output = await generateEmbedding(texts, {
+            pooling: 'mean',
+            normalize: true
+        });
+
+        // The output is a [texts, dimension] Tensor, convert to standard arrays
+        return output.tolist();
+    }
+}
+
+/**
+ * Any OpenAI-compatible /embeddings endpoint
+ */
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'openai';
+
+    constructor(
+        readonly model: string,
+        readonly dimension: number,
+        readonly baseUrl: string,
+        private readonly apiKey?: string,
+    ) { }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify({ model: this.model, input: texts }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+        }
+
+        const body = await response.json() as { data: { index: number; embedding: number[] }[] };
+        return [...body.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+    }
+}
+
+export const DEFAULT_EMBEDDING_BATCH_SIZE = 64;
+export const DEFAULT_EMBEDDING_BATCH_WINDOW_MS = 5;
+
+interface PendingEmbedding {
+    text: string;
+    resolve: (embedding: number[]) => void;
+    reject: (error: unknown) => void;
+}
+
+export interface EmbeddingBatchStats {
+    /** Model invocations */
+    batches: number;
+    /** Texts embedded by the model (cache misses) */
+    texts: number;
+    largest_batch: number;
+    average_batch: number;
+}
+
+/**
+ * Queue that coalesces concurrent embedding calls into one model invocation per
+ * batch; batches run one at a time, so calls arriving meanwhile join the next one
+ */
+class EmbeddingBatcher {
+    private queue: PendingEmbedding[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private batches = 0;
+    private texts = 0;
+    private largestBatch = 0;
+
+    constructor(
+        private readonly provider: EmbeddingProvider,
+        private readonly batchSize: number,
+        private readonly windowMs: number,
+    ) { }
+
+    embed(texts: string[]): Promise<number[][]> {
+        const results = Promise.all(texts.map(text => new Promise<number[]>((resolve, reject) => {
+            this.queue.push({ text, resolve, reject });
+        })));
+        this.schedule();
+        return results;
+    }
+
+    private schedule() {
+        if (this.running) return;
+        if (this.queue.length >= this.batchSize) {
+            if (this.timer) clearTimeout(this.timer);
+            this.timer = null;
+            void this.run();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                void this.run();
+            }, this.windowMs);
+        }
+    }
+
+    private async run() {
+        this.running = true;
+        while (this.queue.length > 0) {
+            const batch = this.queue.splice(0, this.batchSize);
+            // Identical texts in a batch are embedded once
+            const unique = [...new Set(batch.map(p => p.text))];
+
+            try {
+                const embeddings = await this.provider.embed(unique);
+                const byText = new Map(unique.map((text, i) => [text, embeddings[i]]));
+                for (const pending of batch) pending.resolve(byText.get(pending.text)!);
+
+                this.batches++;
+                this.texts += unique.length;
+                this.largestBatch = Math.max(this.largestBatch, unique.length);
+            } catch (error) {
+                for (const pending of batch) pending.reject(error);
+            }
+        }
+        this.running = false;
+    }
+
+    stats(): EmbeddingBatchStats {
+        return {
+            batches: this.batches,
+            texts: this.texts,
+            largest_batch: this.largestBatch,
+            average_batch: this.batches > 0 ? this.texts / this.batches : 0,
+        };
+    }
+}
+
+let activeConfig: EmbeddingConfig = {};
+let activeProvider: EmbeddingProvider | null = null;
+let activeBatcher: EmbeddingBatcher | null = null;
+let activeCache: EmbeddingCache | null = null;
+
+/**
+ * Select the embedding provider and model (call before the first embedding)
+ */
+export function configureEmbedding(config: EmbeddingConfig = {}): void {
+    activeConfig = config;
+    activeProvider = null;
+    activeBatcher = null;
+    activeCache = null;
 }
 
-export const EMBEDDING_DIMENSION = 384;
+/**
+ * Build the configured provider, validating model and dimension
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+    const model = config.model || DEFAULT_EMBEDDING_MODEL;
+    const known = EMBEDDING_MODELS[model];
+    const provider = config.provider || known?.provider || 'transformers';
+    const dimension = config.dimension || known?.dimension;
+
+    if (!dimension) {
+        throw new Error(`Unknown embedding model '${model}': set an embedding dimension in the configuration`);
+    }
+    if (known && config.dimension && config.dimension !== known.dimension) {
+        throw new Error(`Embedding model '${model}' produces ${known.dimension} dimensions, not ${config.dimension}`);
+    }
+
+    if (provider === 'openai') {
+        return new OpenAIEmbeddingProvider(
+            model,
+            dimension,
+            config.baseUrl || 'https://api.openai.com/v1',
+            config.apiKey,
+        );
+    }
+    return new TransformersEmbeddingProvider(model, dimension);
+}
+
+function getProvider(): EmbeddingProvider {
+    if (!activeProvider) {
+        activeProvider = createEmbeddingProvider(activeConfig);
+    }
+    return activeProvider;
+}
+
+function getBatcher(): EmbeddingBatcher {
+    if (!activeBatcher) {
+        activeBatcher = new EmbeddingBatcher(
+            getProvider(),
+            activeConfig.batchSize || DEFAULT_EMBEDDING_BATCH_SIZE,
+            activeConfig.batchWindowMs ?? DEFAULT_EMBEDDING_BATCH_WINDOW_MS,
+        );
+    }
+    return activeBatcher;
+}
+
+function getCache(): EmbeddingCache {
+    if (!activeCache) {
+        activeCache = new EmbeddingCache(activeConfig.cacheSize ?? DEFAULT_EMBEDDING_CACHE_SIZE, activeConfig.cachePath);
+    }
+    return activeCache;
+}
+
+/**
+ * Name and dimension of the active embedding model, recorded with every memory
+ */
+export function getEmbeddingModel(): { model: string; dimension: number } {
+    const { model, dimension } = getProvider();
+    return { model, dimension };
+}
+
+/**
+ * Generate an embedding with the configured provider
+ * Default model: Xenova/all-MiniLM-L6-v2 (384 dimensions)
+ */
+export async function getEmbedding(text: string, purpose: EmbeddingPurpose = 'document'): Promise<number[]> {
+    const [embedding] = await getEmbeddings([text], purpose);
+    return embedding;
+}
+
+/**
+ * Generate embeddings for several texts; cached texts skip the model, the rest
+ * are embedded together with any concurrent calls
+ */
+export async function getEmbeddings(texts: string[], purpose: EmbeddingPurpose = 'document'): Promise<number[][]> {
+    const provider = getProvider();
+    return traceEmbedding(provider.model, texts.length, () => embedTexts(provider, texts, purpose));
+}
+
+async function embedTexts(provider: EmbeddingProvider, texts: string[], purpose: EmbeddingPurpose): Promise<number[][]> {
+    const cache = getCache();
+    const info = EMBEDDING_MODELS[provider.model];
+    const prefix = (purpose === 'query' ? info?.queryPrefix : info?.documentPrefix) ?? '';
+
+    const inputs = texts.map(text => prefix + text);
+    const keys = inputs.map(input => embeddingCacheKey(provider, input));
+    const embeddings: (number[] | undefined)[] = await Promise.all(keys.map(key => cache.get(key)));
+
+    const missing = inputs.filter((_, i) => !embeddings[i]);
+    if (missing.length > 0) {
+        const computed = await getBatcher().embed(missing);
+
+        for (const embedding of computed) {
+            if (embedding.length !== provider.dimension) {
+                throw new Error(`Embedding model '${provider.model}' returned ${embedding.length} dimensions, expected ${provider.dimension}`);
+            }
+        }
+
+        let next = 0;
+        embeddings.forEach((embedding, i) => {
+            if (embedding) return;
+            embeddings[i] = computed[next++];
+            cache.set(keys[i], embeddings[i]!);
+        });
+    }
+    return embeddings as number[][];
+}
+
+/**
+ * Load the model (and the persisted cache) ahead of the first tool call
+ */
+export async function warmUpEmbedding(): Promise<void> {
+    await getCache().load();
+    await getBatcher().embed(['warm up']);
+}
+
+/**
+ * Write the embedding cache to its file, if it is persisted
+ */
+export async function flushEmbeddingCache(): Promise<void> {
+    await activeCache?.flush();
+}
+
+export interface EmbeddingStats {
+    model: string;
+    dimension: number;
+    cache: EmbeddingCacheStats;
+    batching: EmbeddingBatchStats;
+}
+
+/**
+ * Cache hit/miss and batching counters since the model was configured
+ */
+export function getEmbeddingStats(): EmbeddingStats {
+    const { model, dimension } = getEmbeddingModel();
+    return {
+        model,
+        dimension,
+        cache: getCache().stats(),
+        batching: getBatcher().stats(),
+    };
+}
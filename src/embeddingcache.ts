@@ -0,0 +1,174 @@
+/**
+ * LRU cache of embeddings keyed by provider, model and normalized text, optionally
+ * persisted to a file so a restarted server starts warm
+ */
+
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+export const DEFAULT_EMBEDDING_CACHE_SIZE = 10_000;
+
+/** Version 2 keys include the provider and endpoint */
+const CACHE_FILE_VERSION = 2;
+
+/** Quiet period after the last change before the cache file is rewritten */
+const SAVE_DELAY_MS = 5_000;
+
+interface CacheFile {
+    version: number;
+    /** Key and little-endian float32 vector (base64), least recently used first */
+    entries: [string, string][];
+}
+
+export interface EmbeddingCacheStats {
+    entries: number;
+    max_entries: number;
+    hits: number;
+    misses: number;
+    /** Share of lookups answered from the cache (0 before the first lookup) */
+    hit_rate: number;
+    path: string | null;
+}
+
+/** Where an embedding came from: the same model name can be served by different endpoints */
+export interface EmbeddingSource {
+    name: string;
+    baseUrl?: string;
+    model: string;
+}
+
+/**
+ * Text as it is cached: Unicode-normalized, with whitespace runs collapsed,
+ * so texts differing only in spacing share one entry
+ */
+function normalizeEmbeddingText(text: string): string {
+    return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Cache key for a text (after any query/document prefix); only the key is
+ * normalized, the model still embeds the text as given
+ */
+export function embeddingCacheKey(source: EmbeddingSource, text: string): string {
+    return createHash('sha256')
+        .update([source.name, source.baseUrl ?? '', source.model, normalizeEmbeddingText(text)].join('\0'))
+        .digest('base64url');
+}
+
+function encodeVector(vector: number[]): string {
+    return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+    const bytes = Buffer.from(encoded, 'base64');
+    return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4));
+}
+
+export class EmbeddingCache {
+    private readonly entries = new Map<string, number[]>();
+    private hits = 0;
+    private misses = 0;
+    private loading: Promise<void> | null = null;
+    private saveTimer: NodeJS.Timeout | null = null;
+    private dirty = false;
+
+    /**
+     * @param maxEntries - Entries kept before the least recently used are evicted (0 disables the cache)
+     * @param path - File the cache is loaded from and saved to (memory only when omitted)
+     */
+    constructor(private readonly maxEntries: number, private readonly path?: string) { }
+
+    get enabled(): boolean {
+        return this.maxEntries > 0;
+    }
+
+    async get(key: string): Promise<number[] | undefined> {
+        if (!this.enabled) return undefined;
+        await this.load();
+
+        const embedding = this.entries.get(key);
+        if (embedding) {
+            // Re-insert so the entry becomes the most recently used
+            this.entries.delete(key);
+            this.entries.set(key, embedding);
+            this.hits++;
+        } else {
+            this.misses++;
+        }
+        return embedding;
+    }
+
+    set(key: string, embedding: number[]) {
+        if (!this.enabled) return;
+
+        this.entries.delete(key);
+        this.entries.set(key, embedding);
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+        this.scheduleSave();
+    }
+
+    /**
+     * Read the cache file once; a missing or unreadable file starts an empty cache
+     */
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = (async () => {
+                if (!this.path || !existsSync(this.path)) return;
+                try {
+                    const file = JSON.parse(await readFile(this.path, 'utf-8')) as CacheFile;
+                    if (file.version !== CACHE_FILE_VERSION) return;
+                    for (const [key, vector] of file.entries.slice(-this.maxEntries)) {
+                        this.entries.set(key, decodeVector(vector));
+                    }
+                } catch {
+                    this.entries.clear();
+                }
+            })();
+        }
+        return this.loading;
+    }
+
+    private scheduleSave() {
+        if (!this.path) return;
+        this.dirty = true;
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => void this.flush().catch(() => { }), SAVE_DELAY_MS);
+        // A pending save must not keep the process alive
+        this.saveTimer.unref();
+    }
+
+    /**
+     * Write pending changes to the cache file (written to a temporary file first, then renamed)
+     */
+    async flush() {
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+        if (!this.path || !this.dirty) return;
+        this.dirty = false;
+
+        const file: CacheFile = {
+            version: CACHE_FILE_VERSION,
+            entries: [...this.entries].map(([key, vector]) => [key, encodeVector(vector)]),
+        };
+        await mkdir(dirname(this.path), { recursive: true });
+        const temp = `${this.path}.tmp`;
+        await writeFile(temp, JSON.stringify(file), { mode: 0o600 });
+        await rename(temp, this.path);
+    }
+
+    stats(): EmbeddingCacheStats {
+        const lookups = this.hits + this.misses;
+        return {
+            entries: this.entries.size,
+            max_entries: this.maxEntries,
+            hits: this.hits,
+            misses: this.misses,
+            hit_rate: lookups > 0 ? this.hits / lookups : 0,
+            path: this.path ?? null,
+        };
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * Errors with a machine-readable code, and the structured payload every tool
+ * returns when it fails
+ */
+
+export type ErrorCode =
+    /** The arguments cannot work, e.g. nothing to update or a value that breaks the schema */
+    | 'invalid_request'
+    | 'not_found'
+    | 'access_denied'
+    /** The database did not answer in time */
+    | 'timeout'
+    /** The database cannot be reached, or the circuit breaker is open */
+    | 'unavailable'
+    /** The database rejected the operation */
+    | 'storage_error'
+    /** Anything else */
+    | 'request_failed';
+
+export class MemoryError extends Error {
+    /**
+     * @param retryable - Whether the same call may succeed later without changes
+     */
+    constructor(readonly code: ErrorCode, message: string, readonly retryable = false) {
+        super(message);
+        this.name = 'MemoryError';
+    }
+}
+
+export class NotFoundError extends MemoryError {
+    constructor(message: string) {
+        super('not_found', message);
+        this.name = 'NotFoundError';
+    }
+}
+
+export class InvalidRequestError extends MemoryError {
+    constructor(message: string) {
+        super('invalid_request', message);
+        this.name = 'InvalidRequestError';
+    }
+}
+
+export interface ErrorPayload {
+    error: {
+        code: ErrorCode;
+        message: string;
+        retryable: boolean;
+    };
+}
+
+export function isRetryable(error: unknown): boolean {
+    return error instanceof MemoryError && error.retryable;
+}
+
+export function toErrorPayload(error: unknown): ErrorPayload {
+    if (error instanceof MemoryError) {
+        return { error: { code: error.code, message: error.message, retryable: error.retryable } };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { error: { code: 'request_failed', message, retryable: false } };
+}
+
+/**
+ * Tool response for a failed call
+ */
+export function errorResult(error: unknown) {
+    return {
+        content: [{ type: "text" as const, text: JSON.stringify(toErrorPayload(error), null, 2) }],
+        isError: true,
+    };
+}
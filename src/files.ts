@@ -0,0 +1,49 @@
+/**
+ * File paths given to tools (ingest_document, export_project, import_project):
+ * unrestricted for a local caller, confined to one directory for remote ones
+ */
+
+import { realpath } from 'fs/promises';
+import { basename, dirname, join, resolve, sep } from 'path';
+import { AccessDeniedError } from './auth.js';
+import { InvalidRequestError } from './errors.js';
+
+export interface FileAccessConfig {
+    /** Paths must resolve inside this directory; relative paths are taken from it */
+    directory?: string;
+    /** Refuse every path when no directory is set */
+    restricted?: boolean;
+}
+
+/**
+ * Real path of a file that may not exist yet (an export target)
+ */
+async function realFilePath(path: string): Promise<string> {
+    try {
+        return await realpath(path);
+    } catch {
+        return join(await realpath(dirname(path)), basename(path));
+    }
+}
+
+/**
+ * Path a tool may read or write, or AccessDeniedError when the configuration forbids it
+ */
+export async function resolveToolPath(path: string, config: FileAccessConfig = {}): Promise<string> {
+    if (path.trim() === '') throw new InvalidRequestError('path must not be empty');
+
+    if (!config.directory) {
+        if (config.restricted) {
+            throw new AccessDeniedError('File paths are disabled for remote callers; set http.fileDirectory to allow a directory');
+        }
+        return path;
+    }
+
+    const root = await realpath(config.directory);
+    // Resolving symlinks keeps links inside the directory from leading out of it
+    const real = await realFilePath(resolve(root, path));
+    if (real !== root && !real.startsWith(root + sep)) {
+        throw new AccessDeniedError(`Access denied: ${path} is outside the file directory`);
+    }
+    return real;
+}
@@ -0,0 +1,322 @@
+/**
+ * HTTP transport for shared deployments: one server process serves MCP over
+ * Streamable HTTP (and the older HTTP+SSE transport) to many clients, with
+ * bearer-token auth, CORS, health/readiness and metrics endpoints and graceful shutdown
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AccessDeniedError } from './auth.js';
+import { logger } from './logger.js';
+
+export interface HttpConfig {
+    /** Port to listen on (default: 3000) */
+    port?: number;
+    /** Interface to bind (default: 127.0.0.1; 0.0.0.0 serves the network) */
+    host?: string;
+    /** Browser origins allowed to call the server, or ['*'] (default: none) */
+    corsOrigins?: string[];
+    /** Sessions without a request for this long are closed (default: 60) */
+    sessionTimeoutMinutes?: number;
+    /** How long shutdown waits for open sessions to close (default: 10) */
+    shutdownTimeoutSeconds?: number;
+    /**
+     * Directory ingest_document, export_project and import_project may use;
+     * without it their path arguments are refused over HTTP
+     */
+    fileDirectory?: string;
+}
+
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/** Largest accepted request body (store_memories takes up to 500 memories) */
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export interface HttpServerHandlers {
+    /**
+     * MCP server for a new session, acting for the caller the bearer credential
+     * identifies (throws AccessDeniedError when it is missing or invalid)
+     */
+    openSession(credential: string | undefined): McpServer;
+    /** Throws when the server cannot take requests yet (e.g. storage unreachable) */
+    checkReady(): Promise<void>;
+    /** Prometheus text for /metrics; the endpoint is not served without it */
+    renderMetrics?(): string;
+    /** Throws AccessDeniedError unless the bearer credential identifies a caller (for /metrics) */
+    authenticate(credential: string | undefined): void;
+}
+
+export interface HttpServerHandle {
+    /** Stop accepting requests, close every session and the listener */
+    close(): Promise<void>;
+    readonly url: string;
+}
+
+interface Session {
+    server: McpServer;
+    transport: StreamableHTTPServerTransport | SSEServerTransport;
+    /** Credential the session was opened with; later requests must repeat it */
+    credential: string | undefined;
+    lastSeen: number;
+}
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function bearerToken(req: IncomingMessage): string | undefined {
+    const header = req.headers.authorization;
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    return match?.[1].trim();
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+        chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (text === '') return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new HttpError(400, 'Invalid JSON body');
+    }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+/** Transport-level failures in JSON-RPC shape, as MCP clients expect */
+function sendRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) {
+    sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+/**
+ * Serve MCP over HTTP until the returned handle is closed
+ */
+export async function startHttpServer(config: HttpConfig | undefined, handlers: HttpServerHandlers): Promise<HttpServerHandle> {
+    const port = config?.port ?? DEFAULT_HTTP_PORT;
+    const host = config?.host ?? DEFAULT_HTTP_HOST;
+    const corsOrigins = config?.corsOrigins ?? [];
+    const sessionTimeoutMs = (config?.sessionTimeoutMinutes ?? 60) * 60_000;
+    const shutdownTimeoutMs = (config?.shutdownTimeoutSeconds ?? 10) * 1000;
+
+    const sessions = new Map<string, Session>();
+    let shuttingDown = false;
+
+    function applyCors(req: IncomingMessage, res: ServerResponse) {
+        const origin = req.headers.origin;
+        if (!origin || !(corsOrigins.includes('*') || corsOrigins.includes(origin))) return;
+
+        res.setHeader('Access-Control-Allow-Origin', corsOrigins.includes('*') ? '*' : origin);
+        res.setHeader('Vary', 'Origin');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+        res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
+
+    /**
+     * Run a credential check, answering 401 when it is refused
+     */
+    function withCredential<T>(check: () => T): T {
+        try {
+            return check();
+        } catch (error) {
+            if (error instanceof AccessDeniedError) throw new HttpError(401, error.message);
+            throw error;
+        }
+    }
+
+    function open(credential: string | undefined): McpServer {
+        if (shuttingDown) throw new HttpError(503, 'Server is shutting down');
+        return withCredential(() => handlers.openSession(credential));
+    }
+
+    /**
+     * The session a request belongs to, checked against the credential it was opened with
+     */
+    function resume(sessionId: string, credential: string | undefined): Session {
+        const session = sessions.get(sessionId);
+        if (!session) throw new HttpError(404, 'Session not found');
+        if (session.credential !== credential) throw new HttpError(401, 'Credential does not match the session');
+        session.lastSeen = Date.now();
+        return session;
+    }
+
+    async function closeSession(sessionId: string) {
+        const session = sessions.get(sessionId);
+        if (!session) return;
+        sessions.delete(sessionId);
+        await session.server.close().catch((error) => logger.warn(`Failed to close session ${sessionId}`, { error: String(error) }));
+    }
+
+    async function handleStreamable(req: IncomingMessage, res: ServerResponse, credential: string | undefined) {
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+        const sessionId = req.headers['mcp-session-id'];
+
+        if (typeof sessionId === 'string') {
+            const session = resume(sessionId, credential);
+            if (!(session.transport instanceof StreamableHTTPServerTransport)) throw new HttpError(400, 'Not a Streamable HTTP session');
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== 'POST' || !isInitializeRequest(body)) {
+            throw new HttpError(400, 'Bad Request: no valid session ID provided');
+        }
+
+        const server = open(credential);
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => {
+                sessions.set(id, { server, transport, credential, lastSeen: Date.now() });
+                logger.info(`HTTP session opened`, { session_id: id, sessions: sessions.size });
+            },
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) sessions.delete(transport.sessionId);
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    }
+
+    /**
+     * Older HTTP+SSE transport: GET /sse opens the event stream, POST /messages sends to it
+     */
+    async function handleSse(req: IncomingMessage, res: ServerResponse, url: URL, credential: string | undefined) {
+        if (url.pathname === '/sse' && req.method === 'GET') {
+            const server = open(credential);
+            const transport = new SSEServerTransport('/messages', res);
+            sessions.set(transport.sessionId, { server, transport, credential, lastSeen: Date.now() });
+            transport.onclose = () => {
+                sessions.delete(transport.sessionId);
+            };
+            await server.connect(transport);
+            return;
+        }
+
+        if (url.pathname === '/messages' && req.method === 'POST') {
+            const session = resume(url.searchParams.get('sessionId') ?? '', credential);
+            if (!(session.transport instanceof SSEServerTransport)) throw new HttpError(400, 'Not an SSE session');
+            await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+            return;
+        }
+
+        throw new HttpError(405, 'Method not allowed');
+    }
+
+    async function handle(req: IncomingMessage, res: ServerResponse) {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        applyCors(req, res);
+
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204).end();
+            return;
+        }
+
+        if (url.pathname === '/healthz') {
+            sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+            return;
+        }
+
+        if (url.pathname === '/readyz') {
+            if (shuttingDown) {
+                sendJson(res, 503, { status: 'shutting_down' });
+                return;
+            }
+            try {
+                await handlers.checkReady();
+                sendJson(res, 200, { status: 'ready' });
+            } catch (error) {
+                // Probes are unauthenticated, so the reason goes to the log only
+                logger.warn('Readiness check failed', { error: String(error) });
+                sendJson(res, 503, { status: 'not_ready' });
+            }
+            return;
+        }
+
+        if (url.pathname === '/metrics' && handlers.renderMetrics) {
+            withCredential(() => handlers.authenticate(bearerToken(req)));
+            res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+            res.end(handlers.renderMetrics());
+            return;
+        }
+
+        const credential = bearerToken(req);
+        if (url.pathname === '/mcp') {
+            await handleStreamable(req, res, credential);
+        } else if (url.pathname === '/sse' || url.pathname === '/messages') {
+            await handleSse(req, res, url, credential);
+        } else {
+            sendJson(res, 404, { error: 'Not found' });
+        }
+    }
+
+    const httpServer = createServer((req, res) => {
+        handle(req, res).catch((error) => {
+            if (error instanceof HttpError) {
+                const headers: Record<string, string> = error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {};
+                sendRpcError(res, error.status, error.message, headers);
+                return;
+            }
+            logger.error(`HTTP request failed: ${req.method} ${req.url}`, error);
+            sendRpcError(res, 500, 'Internal server error');
+        });
+    });
+
+    const idleSweep = setInterval(() => {
+        const cutoff = Date.now() - sessionTimeoutMs;
+        for (const [id, session] of sessions) {
+            if (session.lastSeen < cutoff) {
+                logger.info(`Closing idle HTTP session`, { session_id: id });
+                void closeSession(id);
+            }
+        }
+    }, 60_000);
+    idleSweep.unref();
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, host, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+
+    const address = httpServer.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+
+    return {
+        url: `http://${host}:${boundPort}/mcp`,
+        async close() {
+            if (shuttingDown) return;
+            shuttingDown = true;
+            clearInterval(idleSweep);
+
+            // Stop accepting connections, then end the open sessions and their streams
+            const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+            await Promise.all([...sessions.keys()].map(closeSession));
+            httpServer.closeIdleConnections();
+
+            const timeout = new Promise<void>(resolve => setTimeout(resolve, shutdownTimeoutMs).unref());
+            await Promise.race([closed, timeout]);
+            httpServer.closeAllConnections();
+        },
+    };
+}
@@ -0,0 +1,97 @@
+/**
+ * Bulk import command: store memories from a JSON array or JSONL file
+ *
+ * Usage: supabase-memory import <file> [--project <id>] [--batch-size <n>]
+ *
+ * Each record needs `content` and `category`, and may set `project_id`
+ * (otherwise --project), `type`, `importance` and `metadata`.
+ */
+
+import chalk from 'chalk';
+import { readFile } from 'fs/promises';
+import { getConfig } from './config.js';
+import { configureEmbedding, getEmbeddingModel } from './embedding.js';
+import { getFlag, getNumberFlag } from './cli.js';
+import { createStorage } from './storage/index.js';
+import { storeMemoriesBatch, DEFAULT_BATCH_SIZE, type BatchMemoryInput } from './batch.js';
+
+interface ParsedRecord {
+    /** 1-based line (JSONL) or array position (JSON) */
+    line: number;
+    item?: BatchMemoryInput;
+    error?: string;
+}
+
+/**
+ * Parse a JSON array, or one JSON object per line; bad lines are kept as errors
+ */
+function parseRecords(content: string): ParsedRecord[] {
+    if (content.trimStart().startsWith('[')) {
+        const items = JSON.parse(content);
+        if (!Array.isArray(items)) throw new Error('Expected a JSON array of memories');
+        return items.map((item, i) => ({ line: i + 1, item }));
+    }
+
+    const records: ParsedRecord[] = [];
+    content.split('\n').forEach((text, i) => {
+        if (text.trim() === '') return;
+        try {
+            records.push({ line: i + 1, item: JSON.parse(text) });
+        } catch (error) {
+            records.push({ line: i + 1, error: `Invalid JSON: ${(error as Error).message}` });
+        }
+    });
+    return records;
+}
+
+/**
+ * Run the import, returning false when any record failed
+ */
+export async function runImport(args: string[]): Promise<boolean> {
+    const file = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+    if (!file) {
+        throw new Error('Usage: supabase-memory import <file> [--project <id>] [--batch-size <n>]');
+    }
+
+    const config = getConfig();
+    if (!config) {
+        throw new Error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
+    }
+
+    const projectId = getFlag(args, 'project');
+    const batchSize = getNumberFlag(args, 'batch-size', DEFAULT_BATCH_SIZE);
+
+    configureEmbedding(config.embedding);
+    const { model, dimension } = getEmbeddingModel();
+    const storage = createStorage(config);
+
+    const records = parseRecords(await readFile(file, 'utf-8'));
+    const parsed = records.filter(r => r.item !== undefined);
+
+    console.log(chalk.cyan(`\n📥 Importing ${records.length} memories from ${file} into ${storage.backend} storage with ${model} (${dimension}d)\n`));
+
+    const results = await storeMemoriesBatch(storage, parsed.map(r => r.item!), {
+        projectId,
+        batchSize,
+        onProgress: (done, total) => process.stdout.write(chalk.gray(`\r   Processed ${done}/${total}`)),
+    });
+    process.stdout.write('\n');
+
+    const failures = [
+        ...records.filter(r => r.error).map(r => ({ line: r.line, error: r.error! })),
+        ...results.filter(r => !r.success).map(r => ({ line: parsed[r.index].line, error: r.error! })),
+    ].sort((a, b) => a.line - b.line);
+
+    for (const failure of failures) {
+        console.log(chalk.red(`   ❌ Record ${failure.line}: ${failure.error}`));
+    }
+
+    const stored = results.filter(r => r.success).length;
+    if (failures.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  Imported ${stored} memories, ${failures.length} failed`));
+        return false;
+    }
+
+    console.log(chalk.green(`\n✅ Imported ${stored} memories`));
+    return true;
+}
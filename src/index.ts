@@ -4,378 +4,248 @@
  * Enterprise-grade semantic memory storage using Supabase with pgvector
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-import { createClient, SupabaseClient } from "@supabase/supabase-js";
-import { getEmbedding } from "./embedding.js";
-import { getConfig } from "./config.js";
+import { DEFAULT_PROFILE, getActiveProfile, getConfig, setActiveProfile } from "./config.js";
+import { getFlag } from "./cli.js";
+import { configureEmbedding, flushEmbeddingCache, getEmbeddingModel, warmUpEmbedding } from "./embedding.js";
 import { runSetup } from "./setup.js";
-import { logger } from "./logger.js";
+import { runReembed } from "./reembed.js";
+import { runImport } from "./import.js";
+import { runIngest } from "./ingest.js";
+import { runExportProject, runImportProject } from "./transfer.js";
+import { runReport } from "./report.js";
+import { runMigrate } from "./migrate.js";
+import { runDoctor } from "./doctor.js";
+import { configureLogger, logger } from "./logger.js";
+import { configureMetrics, renderPrometheus, shutdownMetrics } from "./metrics.js";
+import { createStorage } from "./storage/index.js";
+import { createServer, type ServerOptions } from "./server.js";
+import { startShortTermSweeper } from "./shortterm.js";
+import { isAuthEnabled, isJwt, resolveIdentity, type CallerIdentity } from "./auth.js";
+import { startHttpServer } from "./http.js";
+
+// Select a named configuration profile (--profile <name> or MEMORY_PROFILE)
+const profile = getFlag(process.argv, 'profile');
+if (profile) {
+    try {
+        setActiveProfile(profile);
+    } catch (error) {
+        logger.error("Invalid profile", error);
+        process.exit(1);
+    }
+}
 
 // Check for setup command
 if (process.argv.includes('setup')) {
-    await runSetup();
-    process.exit(0);
-}
-
-// Initialize configuration
-const config = getConfig();
-
-if (!config) {
-    logger.error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
-    process.exit(1);
-}
-
-// Initialize clients
-const supabase: SupabaseClient = createClient(
-    config.projectUrl,
-    config.serviceRoleKey || config.anonKey,
-    {
-        auth: {
-            autoRefreshToken: false,
-            persistSession: false
-        }
+    try {
+        await runSetup(process.argv.slice(2));
+        process.exit(0);
+    } catch (error) {
+        logger.error("Setup failed", error);
+        process.exit(1);
     }
-);
-
-// Initialize MCP Server
-const server = new McpServer({
-    name: "supabase-memory",
-    version: "2.0.0",
-});
-
-/**
- * Format embedding array for Supabase pgvector
- */
-function formatEmbedding(embedding: number[]): string {
-    return `[${embedding.join(",")}]`;
 }
 
-// ══════════════════════════════════════════════════════════════════════════════
-// 1. EPISODIC / INSIGHT MEMORY TOOLS
-// ══════════════════════════════════════════════════════════════════════════════
-
-server.tool(
-    "store_memory",
-    {
-        content: z.string().describe("The text content to remember"),
-        category: z.string().describe("Category (e.g., 'tech_stack', 'decision', 'workout_log')"),
-        project_id: z.string().describe("Unique identifier for the project"),
-        type: z.enum(['episodic', 'insight', 'procedure']).optional().default('episodic').describe("Type of memory: 'episodic' (routine), 'insight' (learned truth), 'procedure' (how-to)"),
-        importance: z.number().min(1).max(5).optional().default(1).describe("Importance level (1-5)"),
-        metadata: z.record(z.unknown()).optional().describe("Optional metadata"),
-    },
-    async ({ content, category, project_id, type, importance, metadata }) => {
-        try {
-            logger.info(`Storing memory for project: ${project_id}`, { category, type });
-            const embedding = await getEmbedding(content);
-
-            const insertData = {
-                project_id,
-                category,
-                content,
-                embedding: formatEmbedding(embedding),
-                type,
-                importance,
-                metadata: metadata || {},
-            };
-
-            const { data, error } = await supabase
-                .from("memories")
-                .insert(insertData)
-                .select("id, created_at")
-                .single();
-
-            if (error) throw new Error(`Supabase error: ${error.message}`);
-
-            return {
-                content: [
-                    {
-                        type: "text",
-                        text: JSON.stringify({
-                            success: true,
-                            message: `Memory stored successfully`,
-                            memory_id: data.id,
-                            project_id,
-                            type
-                        }, null, 2),
-                    },
-                ],
-            };
-        } catch (error) {
-            logger.error(`Failed to store memory`, error);
-            return {
-                content: [{ type: "text", text: `Error: ${String(error)}` }],
-                isError: true,
-            };
-        }
+// Check for re-embedding command
+if (process.argv[2] === 'reembed') {
+    try {
+        await runReembed(process.argv.slice(3));
+        process.exit(0);
+    } catch (error) {
+        logger.error("Re-embedding failed", error);
+        process.exit(1);
     }
-);
-
-server.tool(
-    "search_memories",
-    {
-        query: z.string().describe("The semantic query to search for"),
-        project_id: z.string().describe("Filter by project ID"),
-        category: z.string().optional(),
-        limit: z.number().min(1).max(50).optional().default(5),
-        similarity_threshold: z.number().min(0).max(1).optional().default(0.5),
-    },
-    async ({ query, project_id, category, limit, similarity_threshold }) => {
-        try {
-            logger.debug(`Searching memories`, { query, project_id });
-            const queryEmbedding = await getEmbedding(query);
-
-            const { data, error } = await supabase.rpc("match_memories", {
-                query_embedding: formatEmbedding(queryEmbedding),
-                match_project_id: project_id,
-                match_category: category || null,
-                match_threshold: similarity_threshold,
-                match_count: limit,
-            });
-
-            if (error) throw new Error(`Supabase error: ${error.message}`);
+}
 
-            return {
-                content: [{ type: "text", text: JSON.stringify({ success: true, results: data }, null, 2) }],
-            };
-        } catch (error) {
-            logger.error(`Search failed`, error);
-            return {
-                content: [{ type: "text", text: `Error: ${String(error)}` }],
-                isError: true,
-            };
-        }
+// Check for bulk import command
+if (process.argv[2] === 'import') {
+    try {
+        const ok = await runImport(process.argv.slice(3));
+        process.exit(ok ? 0 : 1);
+    } catch (error) {
+        logger.error("Import failed", error);
+        process.exit(1);
     }
-);
-
-// ══════════════════════════════════════════════════════════════════════════════
-// 2. ASSOCIATIVE (GRAPH) MEMORY TOOLS
-// ══════════════════════════════════════════════════════════════════════════════
-
-server.tool(
-    "create_reaction",
-    {
-        source_id: z.string().describe("UUID of the source memory"),
-        target_id: z.string().describe("UUID of the target memory"),
-        relation_type: z.string().describe("Type of relation, e.g., 'caused_by', 'relates_to', 'contradicts'"),
-    },
-    async ({ source_id, target_id, relation_type }) => {
-        try {
-            logger.info(`Creating relation`, { source_id, target_id, relation_type });
-            const { error } = await supabase
-                .from("memory_relations")
-                .insert({ source_id, target_id, relation_type });
+}
 
-            if (error) throw error;
-            return { content: [{ type: "text", text: `Relation '${relation_type}' created between ${source_id} and ${target_id}` }] };
-        } catch (error) {
-            logger.error(`Failed to create relation`, error);
-            return { content: [{ type: "text", text: `Error: ${String(error)}` }], isError: true };
-        }
+// Check for document ingestion command
+if (process.argv[2] === 'ingest') {
+    try {
+        const ok = await runIngest(process.argv.slice(3));
+        process.exit(ok ? 0 : 1);
+    } catch (error) {
+        logger.error("Ingestion failed", error);
+        process.exit(1);
     }
-);
+}
 
-server.tool(
-    "get_related_memories",
-    {
-        memory_id: z.string().describe("UUID of the memory to investigate"),
-    },
-    async ({ memory_id }) => {
-        try {
-            const { data, error } = await supabase.rpc("get_related_memories", { start_id: memory_id });
-            if (error) throw error;
-            return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
-        } catch (error) {
-            logger.error(`Failed to get related memories`, error);
-            return { content: [{ type: "text", text: `Error: ${String(error)}` }], isError: true };
-        }
+// Check for project archive commands
+if (process.argv[2] === 'export-project' || process.argv[2] === 'import-project') {
+    try {
+        const run = process.argv[2] === 'export-project' ? runExportProject : runImportProject;
+        await run(process.argv.slice(3));
+        process.exit(0);
+    } catch (error) {
+        logger.error(`${process.argv[2]} failed`, error);
+        process.exit(1);
     }
-);
-
-// ══════════════════════════════════════════════════════════════════════════════
-// 3. STRUCTURED (ENTITY) MEMORY TOOLS
-// ══════════════════════════════════════════════════════════════════════════════
+}
 
-server.tool(
-    "set_structured_memory",
-    {
-        project_id: z.string(),
-        category: z.string().describe("Group, e.g. 'user_profile', 'project_conf'"),
-        key: z.string().describe("Unique key within category, e.g. 'theme'"),
-        value: z.any().describe("JSON value to store"),
-        description: z.string().optional().describe("Description of what this is"),
-    },
-    async ({ project_id, category, key, value, description }) => {
-        try {
-            logger.info(`Setting structured memory`, { project_id, category, key });
-            const { error } = await supabase.from("structured_memories").upsert(
-                { project_id, category, key, value, description },
-                { onConflict: 'project_id,category,key' }
-            );
-            if (error) throw error;
-            return { content: [{ type: "text", text: `Structured memory saved: ${category}.${key}` }] };
-        } catch (error) {
-            logger.error(`Failed to set structured memory`, error);
-            return { content: [{ type: "text", text: `Error: ${String(error)}` }], isError: true };
-        }
+// Check for project report command
+if (process.argv[2] === 'report') {
+    try {
+        await runReport(process.argv.slice(3));
+        process.exit(0);
+    } catch (error) {
+        logger.error("Report failed", error);
+        process.exit(1);
     }
-);
-
-server.tool(
-    "get_structured_memory",
-    {
-        project_id: z.string(),
-        category: z.string(),
-        key: z.string(),
-    },
-    async ({ project_id, category, key }) => {
-        try {
-            const { data, error } = await supabase
-                .from("structured_memories")
-                .select("value, description")
-                .match({ project_id, category, key })
-                .single();
+}
 
-            if (error) return { content: [{ type: "text", text: "Not found" }] };
-            return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
-        } catch (error) {
-            logger.error(`Failed to get structured memory`, error);
-            return { content: [{ type: "text", text: `Error: ${String(error)}` }], isError: true };
-        }
+// Check for schema migration command
+if (process.argv[2] === 'migrate') {
+    try {
+        await runMigrate(process.argv.slice(3));
+        process.exit(0);
+    } catch (error) {
+        logger.error("Migration failed", error);
+        process.exit(1);
     }
-);
-
-// ══════════════════════════════════════════════════════════════════════════════
-// 4. SHORT-TERM MEMORY TOOLS
-// ══════════════════════════════════════════════════════════════════════════════
-
-server.tool(
-    "set_short_term_memory",
-    {
-        session_id: z.string().describe("Current user session ID"),
-        key: z.string(),
-        value: z.any(),
-        ttl_seconds: z.number().optional().describe("Time to live in seconds (optional)"),
-    },
-    async ({ session_id, key, value, ttl_seconds }) => {
-        try {
-            let expires_at: string | null = null;
-            if (ttl_seconds) {
-                const d = new Date();
-                d.setSeconds(d.getSeconds() + ttl_seconds);
-                expires_at = d.toISOString();
-            }
-
-            const { error } = await supabase.from("short_term_memory").upsert(
-                { session_id, key, value, expires_at },
-                { onConflict: 'session_id,key' }
-            );
+}
 
-            if (error) throw error;
-            return { content: [{ type: "text", text: `Short-term memory set: ${key}` }] };
-        } catch (error) {
-            logger.error(`Failed to set short-term memory`, error);
-            return { content: [{ type: "text", text: `Error: ${String(error)}` }], isError: true };
-        }
+// Check for database health check command
+if (process.argv[2] === 'doctor') {
+    try {
+        const ok = await runDoctor(process.argv.slice(3));
+        process.exit(ok ? 0 : 1);
+    } catch (error) {
+        logger.error("Doctor failed", error);
+        process.exit(1);
     }
-);
-
-server.tool(
-    "get_short_term_memory",
-    {
-        session_id: z.string(),
-        key: z.string(),
-    },
-    async ({ session_id, key }) => {
-        try {
-            // Check for expiration
-            const { data, error } = await supabase
-                .from("short_term_memory")
-                .select("value, expires_at")
-                .match({ session_id, key })
-                .single();
+}
 
-            if (error || !data) return { content: [{ type: "text", text: "null" }] };
+// Initialize configuration
+const config = getConfig();
 
-            if (data.expires_at && new Date(data.expires_at) < new Date()) {
-                // Expired, delete it lazily
-                await supabase.from("short_term_memory").delete().match({ session_id, key });
-                return { content: [{ type: "text", text: "null (expired)" }] };
-            }
+if (!config) {
+    const profileHint = getActiveProfile() === DEFAULT_PROFILE ? '' : ` --profile ${getActiveProfile()}`;
+    logger.error(`Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup${profileHint}' or configure environment variables.`);
+    process.exit(1);
+}
 
-            return { content: [{ type: "text", text: JSON.stringify(data.value, null, 2) }] };
-        } catch (error) {
-            logger.error(`Failed to get short-term memory`, error);
-            return { content: [{ type: "text", text: `Error: ${String(error)}` }], isError: true };
-        }
+try {
+    configureLogger(config.logging);
+} catch (error) {
+    logger.error("Could not open the log file", error);
+    process.exit(1);
+}
+configureMetrics(config.metrics);
+
+const authConfig = config.auth;
+const transportMode = config.transport ?? 'stdio';
+
+// Over stdio this server acts only for the caller its credential identifies;
+// over HTTP every session brings its own credential
+let identity: CallerIdentity | undefined;
+if (transportMode === 'stdio' && isAuthEnabled(authConfig)) {
+    try {
+        identity = resolveIdentity(authConfig!, authConfig!.credential);
+        logger.info(`Access control enabled for ${identity.id}`, { projects: identity.projects, permissions: identity.permissions });
+    } catch (error) {
+        logger.error("Authentication failed; set MEMORY_API_KEY to a configured key or a signed token", error);
+        process.exit(1);
     }
-);
-
-// ══════════════════════════════════════════════════════════════════════════════
-// UTILITY TOOLS
-// ══════════════════════════════════════════════════════════════════════════════
+}
 
-server.tool(
-    "list_memories",
-    {
-        project_id: z.string(),
-        category: z.string().optional(),
-        limit: z.number().optional().default(20),
-        offset: z.number().optional().default(0),
-    },
-    async ({ project_id, category, limit, offset }) => {
-        let query = supabase
-            .from("memories")
-            .select("id, category, content, created_at, type, importance")
-            .eq("project_id", project_id)
-            .order("created_at", { ascending: false })
-            .range(offset, offset + limit - 1);
+// Initialize embedding model, storage and MCP Server options
+configureEmbedding(config.embedding);
+const storage = createStorage(config);
+const serverOptions: ServerOptions = {
+    dedupe: config.dedupe,
+    scoring: config.scoring,
+    relations: config.relations,
+    global: config.global,
+    shortTerm: config.shortTerm,
+    identity,
+};
 
-        if (category) query = query.eq("category", category);
+/**
+ * MCP server for one HTTP session, acting for the caller its bearer credential identifies
+ */
+function openHttpSession(credential: string | undefined) {
+    // Remote callers must not reach arbitrary files on this machine
+    const files = { directory: config!.http?.fileDirectory, restricted: true };
+    if (!isAuthEnabled(authConfig)) return createServer(storage, { ...serverOptions, files });
+
+    const caller = resolveIdentity(authConfig!, credential);
+    // JWT callers get their own Supabase client, so the database applies the token's RLS claims too
+    const sessionStorage = storage.backend === 'supabase' && isJwt(credential!)
+        ? createStorage({ ...config!, auth: { ...authConfig, credential } })
+        : storage;
+    return createServer(sessionStorage, { ...serverOptions, identity: caller, files });
+}
 
-        const { data, error } = await query;
-        if (error) {
-            logger.error("Failed to list memories", error);
-            return { content: [{ type: "text", text: `Error: ${error.message}` }], isError: true };
-        }
+/**
+ * Warn when stored memories were embedded with a different model than the active one
+ * (they are excluded from vector search until re-embedded)
+ */
+async function checkEmbeddingModels() {
+    const { model, dimension } = getEmbeddingModel();
+    const stats = await storage.getEmbeddingModelStats();
+    const foreign = stats.filter(s => s.embedding_model !== model || s.embedding_dimension !== dimension);
 
-        return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+    if (foreign.length > 0) {
+        logger.warn(`Found memories embedded with other models than ${model} (${dimension}d); they are excluded from vector search`, foreign);
     }
-);
+}
 
-server.tool(
-    "delete_memory",
-    { memory_id: z.string(), project_id: z.string() },
-    async ({ memory_id, project_id }) => {
-        const { error } = await supabase.from("memories").delete().eq("id", memory_id).eq("project_id", project_id);
-        if (error) {
-            logger.error(`Failed to delete memory ${memory_id}`, error);
-            return { content: [{ type: "text", text: `Error: ${error.message}` }], isError: true };
-        }
-        return { content: [{ type: "text", text: "Memory deleted" }] };
+async function main() {
+    const { model, dimension } = getEmbeddingModel();
+    const stopSweeper = startShortTermSweeper(storage, serverOptions.shortTerm);
+
+    // Load the embedding model up front, so the first tool call does not wait for it
+    const embeddingReady = warmUpEmbedding();
+    embeddingReady.catch((error) => logger.error("Embedding model failed to load", error));
+
+    if (transportMode === 'stdio') {
+        const server = createServer(storage, serverOptions);
+        await server.connect(new StdioServerTransport());
+        logger.info(`🧠 Supabase Memory MCP Server v2.0 started (storage: ${storage.backend}, embedding: ${model} ${dimension}d)`);
+        checkEmbeddingModels().catch((error) => logger.warn("Could not check embedding models", { error: String(error) }));
+        // The client closing stdin ends the process; keep what the cache learned and push the last metrics
+        process.once('beforeExit', () => void flushEmbeddingCache());
+        process.once('beforeExit', () => void shutdownMetrics());
+        return;
     }
-);
 
-server.tool(
-    "get_project_stats",
-    { project_id: z.string() },
-    async ({ project_id }) => {
-        // Just a simple count for now
-        const { count, error } = await supabase.from("memories").select("*", { count: 'exact', head: true }).eq("project_id", project_id);
-        if (error) {
-            logger.error(`Failed to get stats for ${project_id}`, error);
-            return { content: [{ type: "text", text: `Error: ${error.message}` }], isError: true };
-        }
-        return { content: [{ type: "text", text: JSON.stringify({ total_memories: count }) }] };
+    if (!isAuthEnabled(authConfig)) {
+        logger.warn("HTTP transport is running without access control; configure auth.apiKeys or auth.jwtSecret before exposing it");
     }
-);
 
-async function main() {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    logger.info("🧠 Supabase Memory MCP Server v2.0 started");
+    const http = await startHttpServer(config!.http, {
+        openSession: openHttpSession,
+        checkReady: async () => {
+            await storage.ping();
+            await embeddingReady;
+        },
+        renderMetrics: config!.metrics?.enabled === false ? undefined : renderPrometheus,
+        authenticate: credential => {
+            if (isAuthEnabled(authConfig)) resolveIdentity(authConfig!, credential);
+        },
+    });
+    logger.info(`🧠 Supabase Memory MCP Server v2.0 listening on ${http.url} (storage: ${storage.backend}, embedding: ${model} ${dimension}d)`);
+    checkEmbeddingModels().catch((error) => logger.warn("Could not check embedding models", { error: String(error) }));
+
+    const shutdown = async (signal: string) => {
+        logger.info(`Received ${signal}, shutting down`);
+        stopSweeper();
+        await http.close();
+        await flushEmbeddingCache().catch((error) => logger.warn("Could not save the embedding cache", { error: String(error) }));
+        await shutdownMetrics();
+        process.exit(0);
+    };
+    process.once('SIGINT', () => void shutdown('SIGINT'));
+    process.once('SIGTERM', () => void shutdown('SIGTERM'));
 }
 
 main().catch((error) => {
@@ -0,0 +1,51 @@
+/**
+ * Document ingestion command: chunk a local file and store it as a document
+ *
+ * Usage: supabase-memory ingest <file> --project <id> [--category <name>] [--title <title>]
+ *                               [--chunk-size <n>] [--overlap <n>]
+ */
+
+import chalk from 'chalk';
+import { getConfig } from './config.js';
+import { configureEmbedding } from './embedding.js';
+import { getFlag, getNumberFlag } from './cli.js';
+import { createStorage } from './storage/index.js';
+import { DEFAULT_CHUNK_OVERLAP, DEFAULT_CHUNK_SIZE } from './chunking.js';
+import { ingestDocument } from './documents.js';
+
+/**
+ * Run the ingestion, returning false when any chunk failed to store
+ */
+export async function runIngest(args: string[]): Promise<boolean> {
+    const file = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+    const projectId = getFlag(args, 'project');
+    if (!file || !projectId) {
+        throw new Error('Usage: supabase-memory ingest <file> --project <id> [--category <name>] [--title <title>] [--chunk-size <n>] [--overlap <n>]');
+    }
+
+    const config = getConfig();
+    if (!config) {
+        throw new Error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
+    }
+
+    configureEmbedding(config.embedding);
+    const storage = createStorage(config);
+
+    console.log(chalk.cyan(`\n📄 Ingesting ${file} into ${storage.backend} storage\n`));
+    const result = await ingestDocument(storage, {
+        project_id: projectId,
+        category: getFlag(args, 'category') ?? 'docs',
+        path: file,
+        title: getFlag(args, 'title'),
+        chunkSize: getNumberFlag(args, 'chunk-size', DEFAULT_CHUNK_SIZE),
+        chunkOverlap: getNumberFlag(args, 'overlap', DEFAULT_CHUNK_OVERLAP),
+    });
+
+    for (const failure of result.failed) {
+        console.log(chalk.red(`   ❌ Chunk ${failure.index}: ${failure.error}`));
+    }
+
+    console.log(chalk.green(`✅ Stored '${result.title}' as ${result.document_id}`));
+    console.log(chalk.gray(`   ${result.stored}/${result.chunks} chunks (${result.format})`));
+    return result.failed.length === 0;
+}
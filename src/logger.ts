@@ -1,5 +1,7 @@
-
 import chalk from 'chalk';
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import { dirname } from 'path';
 
 export enum LogLevel {
     DEBUG = 0,
@@ -8,44 +10,248 @@ export enum LogLevel {
     ERROR = 3,
 }
 
+export type LogLevelName = 'debug' | 'info' | 'warn' | 'error';
+
+/** 'pretty' for people, 'json' for one JSON object per line */
+export type LogFormat = 'pretty' | 'json';
+
+export const LOG_LEVELS: LogLevelName[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export interface LoggingConfig {
+    /** Lowest level written (default: 'info') */
+    level?: LogLevelName;
+    /** Line format (default: 'pretty') */
+    format?: LogFormat;
+    /** Also append log lines to this file */
+    file?: string;
+    /** Rotate the file once it reaches this size (default: 10) */
+    maxFileSizeMb?: number;
+    /** Rotated files kept next to it, as <file>.1 (newest) to <file>.<n> (default: 5) */
+    maxFiles?: number;
+    /** Replace memory content and credentials in log metadata (default: true) */
+    redact?: boolean;
+}
+
+/** Fields attached to every line logged while handling one request */
+export interface LogContext {
+    request_id: string;
+    tool?: string;
+    session_id?: string;
+}
+
+interface Settings {
+    level: LogLevel;
+    format: LogFormat;
+    file?: string;
+    maxFileBytes: number;
+    maxFiles: number;
+    redact: boolean;
+}
+
+const LEVELS: Record<LogLevelName, LogLevel> = {
+    debug: LogLevel.DEBUG,
+    info: LogLevel.INFO,
+    warn: LogLevel.WARN,
+    error: LogLevel.ERROR,
+};
+
+const COLORS: Record<LogLevel, (text: string) => string> = {
+    [LogLevel.DEBUG]: chalk.gray,
+    [LogLevel.INFO]: chalk.blue,
+    [LogLevel.WARN]: chalk.yellow,
+    [LogLevel.ERROR]: chalk.red,
+};
+
+/** Metadata keys holding memory content */
+const CONTENT_KEYS = /^(content|text|query|value|old_value|new_value|summary)$/i;
+
+/** Metadata keys holding credentials */
+const SECRET_KEYS = /(password|secret|token|api_?key|anon_?key|service_?role_?key|credential|authorization|passphrase)/i;
+
+/** Credentials that show up inside strings: passwords in connection URLs, bearer tokens and JWTs */
+const SECRET_PATTERNS: [RegExp, string][] = [
+    [/(\w+:\/\/[^:/\s]+:)[^@\s]+@/g, '$1[redacted]@'],
+    [/(Bearer\s+)[\w.~+/-]+=*/gi, '$1[redacted]'],
+    [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, '[redacted]'],
+];
+
+let settings: Settings = {
+    level: LogLevel.INFO,
+    format: 'pretty',
+    maxFileBytes: 10 * 1024 * 1024,
+    maxFiles: 5,
+    redact: true,
+};
+
+/** Size of the current log file, tracked so rotation needs no stat per line */
+let fileBytes = 0;
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Apply logging settings to every logger
+ */
+export function configureLogger(config: LoggingConfig = {}) {
+    settings = {
+        level: LEVELS[config.level ?? 'info'],
+        format: config.format ?? 'pretty',
+        file: config.file,
+        maxFileBytes: (config.maxFileSizeMb ?? 10) * 1024 * 1024,
+        maxFiles: config.maxFiles ?? 5,
+        redact: config.redact ?? true,
+    };
+
+    if (settings.file) {
+        mkdirSync(dirname(settings.file), { recursive: true });
+        fileBytes = existsSync(settings.file) ? statSync(settings.file).size : 0;
+    }
+}
+
+/**
+ * Run a function with a log context; lines logged anywhere inside it (including
+ * after awaits) carry its request ID
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run(context, fn);
+}
+
+export function getLogContext(): LogContext | undefined {
+    return contextStorage.getStore();
+}
+
+function redactString(text: string): string {
+    return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Copy of log metadata with memory content and credentials replaced
+ */
+export function redact(value: unknown, key = ''): unknown {
+    if (value === null || value === undefined) return value;
+    if (SECRET_KEYS.test(key)) return '[redacted]';
+    if (CONTENT_KEYS.test(key)) {
+        return typeof value === 'string' ? `[redacted ${value.length} chars]` : '[redacted]';
+    }
+    if (typeof value === 'string') return redactString(value);
+    if (Array.isArray(value)) return value.map(item => redact(item));
+    if (typeof value === 'object' && !(value instanceof Date)) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+    }
+    return value;
+}
+
+function serializeError(error: unknown): unknown {
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message, stack: error.stack };
+    }
+    return error;
+}
+
+/**
+ * Append a line to the log file, first rotating it when it is full
+ */
+function writeToFile(line: string) {
+    const file = settings.file!;
+    const bytes = Buffer.byteLength(line) + 1;
+    try {
+        if (fileBytes > 0 && fileBytes + bytes > settings.maxFileBytes) {
+            rmSync(`${file}.${settings.maxFiles}`, { force: true });
+            for (let i = settings.maxFiles - 1; i >= 1; i--) {
+                if (existsSync(`${file}.${i}`)) renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+            }
+            if (settings.maxFiles > 0) renameSync(file, `${file}.1`);
+            else rmSync(file, { force: true });
+            fileBytes = 0;
+        }
+        appendFileSync(file, line + '\n');
+        fileBytes += bytes;
+    } catch (error) {
+        // Never let a broken log file take the server down
+        process.stderr.write(`[logger] Could not write to ${file}: ${String(error)}\n`);
+    }
+}
+
 export class Logger {
-    private level: LogLevel;
+    private level: LogLevel | undefined;
     private name: string;
 
-    constructor(name: string, level: LogLevel = LogLevel.INFO) {
+    /**
+     * @param level - Fixed level for this logger; otherwise the configured one applies
+     */
+    constructor(name: string, level?: LogLevel) {
         this.name = name;
         this.level = level;
     }
 
-    private formatMessage(level: string, message: string, meta?: any): string {
+    private formatPretty(level: LogLevel, message: string, context: LogContext | undefined, meta: unknown, error: unknown): string {
         const timestamp = new Date().toISOString();
-        const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
-        return `[${timestamp}] [${this.name}] [${level}] ${message}${metaStr}`;
+        const contextStr = context ? ` [${[context.request_id, context.tool].filter(Boolean).join(' ')}]` : '';
+        const metaStr = meta !== undefined ? ` ${JSON.stringify(meta)}` : '';
+        const line = `[${timestamp}] [${this.name}] [${LogLevel[level]}]${contextStr} ${message}${metaStr}`;
+        if (error === undefined) return line;
+        const errorStr = error instanceof Error ? error.stack || error.message : JSON.stringify(error);
+        return `${line}\n${errorStr}`;
     }
 
-    debug(message: string, meta?: any) {
-        if (this.level <= LogLevel.DEBUG) {
-            console.debug(chalk.gray(this.formatMessage('DEBUG', message, meta)));
+    private formatJson(level: LogLevel, message: string, context: LogContext | undefined, meta: unknown, error: unknown): string {
+        const entry: Record<string, unknown> = {
+            time: new Date().toISOString(),
+            level: LogLevel[level].toLowerCase(),
+            logger: this.name,
+            msg: message,
+            ...context,
+        };
+        // Metadata objects are merged into the line; anything else is kept whole
+        if (meta !== undefined) {
+            if (typeof meta === 'object' && meta !== null && !Array.isArray(meta)) Object.assign(entry, meta);
+            else entry.meta = meta;
         }
+        if (error !== undefined) entry.error = serializeError(error);
+        return JSON.stringify(entry);
     }
 
-    info(message: string, meta?: any) {
-        if (this.level <= LogLevel.INFO) {
-            console.info(chalk.blue(this.formatMessage('INFO', message, meta)));
+    private write(level: LogLevel, message: string, meta?: unknown, error?: unknown) {
+        if (level < (this.level ?? settings.level)) return;
+
+        const context = contextStorage.getStore();
+        if (settings.redact) {
+            message = redactString(message);
+            meta = redact(meta);
+            if (error instanceof Error) {
+                const redacted = new Error(redactString(error.message));
+                redacted.name = error.name;
+                redacted.stack = error.stack && redactString(error.stack);
+                error = redacted;
+            } else {
+                error = redact(error);
+            }
         }
+
+        const line = settings.format === 'json'
+            ? this.formatJson(level, message, context, meta, error)
+            : this.formatPretty(level, message, context, meta, error);
+
+        // stdout belongs to the stdio transport, so logs always go to stderr
+        const colored = settings.format === 'pretty' && process.stderr.isTTY;
+        process.stderr.write((colored ? COLORS[level](line) : line) + '\n');
+        if (settings.file) writeToFile(line);
+    }
+
+    debug(message: string, meta?: any) {
+        this.write(LogLevel.DEBUG, message, meta);
+    }
+
+    info(message: string, meta?: any) {
+        this.write(LogLevel.INFO, message, meta);
     }
 
     warn(message: string, meta?: any) {
-        if (this.level <= LogLevel.WARN) {
-            console.warn(chalk.yellow(this.formatMessage('WARN', message, meta)));
-        }
+        this.write(LogLevel.WARN, message, meta);
     }
 
     error(message: string, error?: any) {
-        if (this.level <= LogLevel.ERROR) {
-            const errorStr = error instanceof Error ? error.stack || error.message : JSON.stringify(error);
-            console.error(chalk.red(this.formatMessage('ERROR', message)) + '\n' + chalk.red(errorStr));
-        }
+        this.write(LogLevel.ERROR, message, undefined, error);
     }
 }
 
@@ -0,0 +1,490 @@
+/**
+ * Metrics and tracing: tool call latency and result sizes, embedding and storage
+ * timings and error counts, rendered for Prometheus or pushed to an
+ * OpenTelemetry collector (OTLP/HTTP JSON) together with one span per call
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { logger } from './logger.js';
+
+export interface MetricsConfig {
+    /** Record metrics (default: true) */
+    enabled?: boolean;
+    /** OTLP/HTTP collector, e.g. http://localhost:4318; metrics and spans are pushed when set */
+    otlpEndpoint?: string;
+    /** Extra headers for the collector, e.g. an API key */
+    otlpHeaders?: Record<string, string>;
+    /** Seconds between pushes (default: 60) */
+    exportIntervalSeconds?: number;
+    /** service.name reported to the collector (default: supabase-memory-mcp) */
+    serviceName?: string;
+}
+
+type Labels = Record<string, string>;
+
+/** Latency buckets, in seconds */
+const DURATION_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Result size buckets, in bytes */
+const SIZE_BUCKETS = [256, 1024, 4096, 16384, 65536, 262144, 1048576];
+
+/** Finished spans waiting for the next push; older ones are dropped beyond this */
+const MAX_PENDING_SPANS = 2048;
+
+const DEFAULT_SERVICE_NAME = 'supabase-memory-mcp';
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+class Counter {
+    readonly series = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(readonly name: string, readonly help: string) { }
+
+    inc(labels: Labels, amount = 1) {
+        const key = labelKey(labels);
+        const series = this.series.get(key) ?? { labels, value: 0 };
+        series.value += amount;
+        this.series.set(key, series);
+    }
+
+    get(labels: Labels): number {
+        return this.series.get(labelKey(labels))?.value ?? 0;
+    }
+}
+
+interface HistogramSeries {
+    labels: Labels;
+    /** Observations per bucket (not cumulative); the last one is +Inf */
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+class Histogram {
+    readonly series = new Map<string, HistogramSeries>();
+
+    constructor(readonly name: string, readonly help: string, readonly unit: string, readonly buckets: number[]) { }
+
+    observe(labels: Labels, value: number) {
+        const key = labelKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { labels, counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+        const bucket = this.buckets.findIndex(bound => value <= bound);
+        series.counts[bucket === -1 ? this.buckets.length : bucket]++;
+        series.sum += value;
+        series.count++;
+    }
+
+    /**
+     * Estimated quantile, interpolated inside the bucket it falls in
+     */
+    quantile(series: HistogramSeries, q: number): number {
+        const rank = q * series.count;
+        let seen = 0;
+        for (let i = 0; i < series.counts.length; i++) {
+            if (series.counts[i] === 0) continue;
+            if (seen + series.counts[i] >= rank) {
+                const lower = i === 0 ? 0 : this.buckets[i - 1];
+                const upper = this.buckets[i] ?? this.buckets[this.buckets.length - 1];
+                return lower + (upper - lower) * ((rank - seen) / series.counts[i]);
+            }
+            seen += series.counts[i];
+        }
+        return 0;
+    }
+}
+
+const toolCalls = new Counter('mcp_tool_calls_total', 'Tool calls by outcome');
+const toolDuration = new Histogram('mcp_tool_duration_seconds', 'Tool call latency', 's', DURATION_BUCKETS);
+const toolResultBytes = new Histogram('mcp_tool_result_bytes', 'Size of tool call results', 'By', SIZE_BUCKETS);
+const embeddingDuration = new Histogram('mcp_embedding_duration_seconds', 'Time to embed texts, including cache lookups and batching', 's', DURATION_BUCKETS);
+const embeddingTexts = new Counter('mcp_embedding_texts_total', 'Texts embedded, including cache hits');
+const embeddingErrors = new Counter('mcp_embedding_errors_total', 'Failed embedding calls');
+const storageDuration = new Histogram('mcp_storage_duration_seconds', 'Storage backend call latency', 's', DURATION_BUCKETS);
+const storageErrors = new Counter('mcp_storage_errors_total', 'Failed storage backend calls');
+
+const COUNTERS = [toolCalls, embeddingTexts, embeddingErrors, storageErrors];
+const HISTOGRAMS = [toolDuration, toolResultBytes, embeddingDuration, storageDuration];
+
+const startedAt = Date.now();
+
+let enabled = true;
+let exporter: { config: MetricsConfig; timer: NodeJS.Timeout; failing: boolean } | null = null;
+
+interface SpanContext {
+    traceId: string;
+    spanId: string;
+}
+
+interface FinishedSpan extends SpanContext {
+    parentSpanId?: string;
+    name: string;
+    /** Tool calls are server spans, embedding and storage calls internal ones */
+    kind: 'server' | 'internal';
+    startMicros: number;
+    endMicros: number;
+    attributes: Labels;
+    error?: string;
+}
+
+const spanStorage = new AsyncLocalStorage<SpanContext>();
+let pendingSpans: FinishedSpan[] = [];
+
+function nowMicros(): number {
+    return Math.round((performance.timeOrigin + performance.now()) * 1000);
+}
+
+/**
+ * Run fn, reporting its duration in seconds and failure to record(), inside a
+ * span when an exporter is configured
+ */
+async function measure<T>(
+    name: string,
+    kind: FinishedSpan['kind'],
+    attributes: Labels,
+    fn: () => Promise<T>,
+    record: (seconds: number, result: T | undefined, error: unknown) => string | undefined,
+): Promise<T> {
+    // Spans are only kept when there is a collector to send them to
+    const parent = spanStorage.getStore();
+    const span: SpanContext | undefined = exporter
+        ? { traceId: parent?.traceId ?? randomBytes(16).toString('hex'), spanId: randomBytes(8).toString('hex') }
+        : undefined;
+    const start = nowMicros();
+
+    const finish = (result: T | undefined, error: unknown) => {
+        const end = nowMicros();
+        const failure = record((end - start) / 1e6, result, error);
+        if (!span || !exporter) return;
+        if (pendingSpans.length >= MAX_PENDING_SPANS) pendingSpans.shift();
+        pendingSpans.push({ ...span, parentSpanId: parent?.spanId, name, kind, startMicros: start, endMicros: end, attributes, error: failure });
+    };
+
+    try {
+        const result = await (span ? spanStorage.run(span, fn) : fn());
+        finish(result, undefined);
+        return result;
+    } catch (error) {
+        finish(undefined, error);
+        throw error;
+    }
+}
+
+/** Shape of MCP tool results, for outcome and size */
+interface ToolResult {
+    content?: { type: string; text?: string }[];
+    isError?: boolean;
+}
+
+/**
+ * Time a tool call and record its outcome and result size
+ */
+export function traceToolCall<T>(tool: string, fn: () => Promise<T>): Promise<T> {
+    if (!enabled) return fn();
+    return measure(`tool ${tool}`, 'server', { tool }, fn, (seconds, result, error) => {
+        const toolResult = result as ToolResult | undefined;
+        const failed = error !== undefined || !!toolResult?.isError;
+        toolCalls.inc({ tool, outcome: failed ? 'error' : 'success' });
+        toolDuration.observe({ tool }, seconds);
+        if (toolResult?.content) {
+            const bytes = toolResult.content.reduce((total, part) => total + Buffer.byteLength(part.text ?? ''), 0);
+            toolResultBytes.observe({ tool }, bytes);
+        }
+        if (error !== undefined) return String(error);
+        return failed ? toolResult?.content?.[0]?.text : undefined;
+    });
+}
+
+/**
+ * Time embedding a set of texts
+ */
+export function traceEmbedding<T>(model: string, texts: number, fn: () => Promise<T>): Promise<T> {
+    if (!enabled) return fn();
+    return measure('embedding', 'internal', { model }, fn, (seconds, _, error) => {
+        embeddingDuration.observe({ model }, seconds);
+        if (error !== undefined) {
+            embeddingErrors.inc({ model });
+            return String(error);
+        }
+        embeddingTexts.inc({ model }, texts);
+        return undefined;
+    });
+}
+
+/**
+ * Storage whose method calls are timed and counted per operation
+ */
+export function instrumentStorage<T extends { readonly backend: string }>(storage: T): T {
+    if (!enabled) return storage;
+    return new Proxy(storage, {
+        get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            if (typeof value !== 'function' || typeof property !== 'string') return value;
+
+            return (...args: unknown[]) => {
+                const labels = { operation: property, backend: target.backend };
+                return measure(`storage ${property}`, 'internal', labels, () => value.apply(target, args), (seconds, _, error) => {
+                    storageDuration.observe(labels, seconds);
+                    if (error === undefined) return undefined;
+                    storageErrors.inc(labels);
+                    return String(error);
+                });
+            };
+        },
+    });
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+    const entries = Object.entries({ ...labels, ...extra });
+    return entries.length > 0 ? `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}` : '';
+}
+
+/**
+ * All metrics in the Prometheus text exposition format
+ */
+export function renderPrometheus(): string {
+    const lines: string[] = [
+        '# HELP mcp_uptime_seconds Seconds since the server started',
+        '# TYPE mcp_uptime_seconds gauge',
+        `mcp_uptime_seconds ${(Date.now() - startedAt) / 1000}`,
+    ];
+
+    for (const counter of COUNTERS) {
+        lines.push(`# HELP ${counter.name} ${counter.help}`, `# TYPE ${counter.name} counter`);
+        for (const { labels, value } of counter.series.values()) {
+            lines.push(`${counter.name}${formatLabels(labels)} ${value}`);
+        }
+    }
+
+    for (const histogram of HISTOGRAMS) {
+        lines.push(`# HELP ${histogram.name} ${histogram.help}`, `# TYPE ${histogram.name} histogram`);
+        for (const series of histogram.series.values()) {
+            let cumulative = 0;
+            histogram.buckets.forEach((bound, i) => {
+                cumulative += series.counts[i];
+                lines.push(`${histogram.name}_bucket${formatLabels(series.labels, { le: String(bound) })} ${cumulative}`);
+            });
+            lines.push(`${histogram.name}_bucket${formatLabels(series.labels, { le: '+Inf' })} ${series.count}`);
+            lines.push(`${histogram.name}_sum${formatLabels(series.labels)} ${series.sum}`);
+            lines.push(`${histogram.name}_count${formatLabels(series.labels)} ${series.count}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+export interface LatencySummary {
+    calls: number;
+    errors: number;
+    avg_ms: number;
+    p50_ms: number;
+    p95_ms: number;
+}
+
+export interface ServerMetrics {
+    uptime_seconds: number;
+    tools: (LatencySummary & { tool: string; avg_result_bytes: number })[];
+    embedding: (LatencySummary & { model: string; texts: number })[];
+    storage: (LatencySummary & { operation: string })[];
+}
+
+function summarize(histogram: Histogram, series: HistogramSeries, errors: number): LatencySummary {
+    const ms = (seconds: number) => Math.round(seconds * 100_000) / 100;
+    return {
+        calls: series.count,
+        errors,
+        avg_ms: ms(series.count > 0 ? series.sum / series.count : 0),
+        p50_ms: ms(histogram.quantile(series, 0.5)),
+        p95_ms: ms(histogram.quantile(series, 0.95)),
+    };
+}
+
+/**
+ * Per-tool, embedding and storage latency summaries since the server started,
+ * busiest first
+ */
+export function getServerMetrics(): ServerMetrics {
+    const tools = [...toolDuration.series.values()].map(series => {
+        const sizes = toolResultBytes.series.get(labelKey(series.labels));
+        return {
+            tool: series.labels.tool,
+            ...summarize(toolDuration, series, toolCalls.get({ tool: series.labels.tool, outcome: 'error' })),
+            avg_result_bytes: sizes && sizes.count > 0 ? Math.round(sizes.sum / sizes.count) : 0,
+        };
+    });
+    const embedding = [...embeddingDuration.series.values()].map(series => ({
+        model: series.labels.model,
+        ...summarize(embeddingDuration, series, embeddingErrors.get(series.labels)),
+        texts: embeddingTexts.get(series.labels),
+    }));
+    const storage = [...storageDuration.series.values()].map(series => ({
+        operation: series.labels.operation,
+        ...summarize(storageDuration, series, storageErrors.get(series.labels)),
+    }));
+
+    const byCalls = (a: LatencySummary, b: LatencySummary) => b.calls - a.calls;
+    return {
+        uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+        tools: tools.sort(byCalls),
+        embedding: embedding.sort(byCalls),
+        storage: storage.sort(byCalls),
+    };
+}
+
+function otlpAttributes(labels: Labels) {
+    return Object.entries(labels).map(([key, value]) => ({ key, value: { stringValue: value } }));
+}
+
+function nanos(micros: number): string {
+    return (BigInt(micros) * 1000n).toString();
+}
+
+function otlpResource(config: MetricsConfig) {
+    return { attributes: otlpAttributes({ 'service.name': config.serviceName ?? DEFAULT_SERVICE_NAME }) };
+}
+
+const OTLP_SCOPE = { name: DEFAULT_SERVICE_NAME };
+
+/**
+ * Cumulative metrics in the OTLP/JSON format
+ */
+function otlpMetrics(config: MetricsConfig) {
+    const start = nanos(startedAt * 1000);
+    const now = nanos(nowMicros());
+    const CUMULATIVE = 2;
+
+    const metrics = [
+        ...COUNTERS.map(counter => ({
+            name: counter.name,
+            description: counter.help,
+            sum: {
+                aggregationTemporality: CUMULATIVE,
+                isMonotonic: true,
+                dataPoints: [...counter.series.values()].map(({ labels, value }) => ({
+                    attributes: otlpAttributes(labels),
+                    startTimeUnixNano: start,
+                    timeUnixNano: now,
+                    asInt: String(value),
+                })),
+            },
+        })),
+        ...HISTOGRAMS.map(histogram => ({
+            name: histogram.name,
+            description: histogram.help,
+            unit: histogram.unit,
+            histogram: {
+                aggregationTemporality: CUMULATIVE,
+                dataPoints: [...histogram.series.values()].map(series => ({
+                    attributes: otlpAttributes(series.labels),
+                    startTimeUnixNano: start,
+                    timeUnixNano: now,
+                    count: String(series.count),
+                    sum: series.sum,
+                    bucketCounts: series.counts.map(String),
+                    explicitBounds: histogram.buckets,
+                })),
+            },
+        })),
+    ];
+
+    return { resourceMetrics: [{ resource: otlpResource(config), scopeMetrics: [{ scope: OTLP_SCOPE, metrics }] }] };
+}
+
+/**
+ * Finished spans in the OTLP/JSON format
+ */
+function otlpSpans(config: MetricsConfig, spans: FinishedSpan[]) {
+    const SPAN_KIND_INTERNAL = 1;
+    const SPAN_KIND_SERVER = 2;
+    const STATUS_OK = 1;
+    const STATUS_ERROR = 2;
+
+    return {
+        resourceSpans: [{
+            resource: otlpResource(config),
+            scopeSpans: [{
+                scope: OTLP_SCOPE,
+                spans: spans.map(span => ({
+                    traceId: span.traceId,
+                    spanId: span.spanId,
+                    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+                    name: span.name,
+                    kind: span.kind === 'server' ? SPAN_KIND_SERVER : SPAN_KIND_INTERNAL,
+                    startTimeUnixNano: nanos(span.startMicros),
+                    endTimeUnixNano: nanos(span.endMicros),
+                    attributes: otlpAttributes(span.attributes),
+                    status: span.error !== undefined
+                        ? { code: STATUS_ERROR, message: span.error }
+                        : { code: STATUS_OK },
+                })),
+            }],
+        }],
+    };
+}
+
+async function postOtlp(config: MetricsConfig, path: string, body: unknown) {
+    const response = await fetch(`${config.otlpEndpoint!.replace(/\/+$/, '')}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...config.otlpHeaders },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(10_000),
+    });
+    if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`);
+    }
+}
+
+/**
+ * Push the current metrics and the spans finished since the last push
+ */
+async function exportToCollector() {
+    if (!exporter) return;
+    const { config } = exporter;
+    const spans = pendingSpans;
+    pendingSpans = [];
+
+    try {
+        await postOtlp(config, '/v1/metrics', otlpMetrics(config));
+        if (spans.length > 0) await postOtlp(config, '/v1/traces', otlpSpans(config, spans));
+        if (exporter.failing) logger.info(`OpenTelemetry export recovered`);
+        exporter.failing = false;
+    } catch (error) {
+        // Warn once per outage rather than on every push
+        if (!exporter.failing) logger.warn(`OpenTelemetry export to ${config.otlpEndpoint} failed`, { error: String(error) });
+        exporter.failing = true;
+    }
+}
+
+/**
+ * Enable or disable recording, and start pushing to a collector when one is configured
+ */
+export function configureMetrics(config: MetricsConfig = {}) {
+    enabled = config.enabled ?? true;
+    if (exporter) clearInterval(exporter.timer);
+    exporter = null;
+
+    if (enabled && config.otlpEndpoint) {
+        const timer = setInterval(() => void exportToCollector(), (config.exportIntervalSeconds ?? 60) * 1000);
+        timer.unref();
+        exporter = { config, timer, failing: false };
+    }
+}
+
+/**
+ * Push what was recorded since the last export and stop the exporter
+ */
+export async function shutdownMetrics() {
+    if (!exporter) return;
+    clearInterval(exporter.timer);
+    await exportToCollector();
+    exporter = null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Migration commands: apply pending schema migrations or list their state
+ *
+ * Usage: supabase-memory migrate up [--db-url <postgres-url>]
+ *        supabase-memory migrate status [--db-url <postgres-url>]
+ */
+
+import chalk from 'chalk';
+import { getConfig } from './config.js';
+import { resolveDatabaseUrl } from './cli.js';
+import { connectPostgres } from './storage/postgres.js';
+import { applyMigrations, getMigrationStatus } from './migrations.js';
+
+const USAGE = 'Usage: supabase-memory migrate up|status [--db-url <postgres-url>]';
+
+export async function runMigrate(args: string[]) {
+    const command = args[0];
+    if (command !== 'up' && command !== 'status') {
+        throw new Error(USAGE);
+    }
+
+    const config = getConfig();
+    if (!config) {
+        throw new Error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
+    }
+    if (config.storage === 'local') {
+        console.log(chalk.gray('Local storage has no database schema to migrate.'));
+        return;
+    }
+
+    const client = await connectPostgres(await resolveDatabaseUrl(args, config));
+    try {
+        if (command === 'status') {
+            const status = await getMigrationStatus(client);
+            console.log(chalk.cyan('\n🗂️  Schema migrations\n'));
+            status.forEach((m, i) => {
+                const number = String(i + 1).padStart(3);
+                if (!m.applied_at) {
+                    console.log(chalk.yellow(`${number}  ${m.version}  pending`));
+                } else if (m.modified) {
+                    console.log(chalk.yellow(`${number}  ${m.version}  applied ${m.applied_at} (file changed since)`));
+                } else {
+                    console.log(`${number}  ${m.version}  ${chalk.gray(`applied ${m.applied_at}`)}`);
+                }
+            });
+            const pending = status.filter(m => !m.applied_at).length;
+            console.log(pending > 0
+                ? chalk.yellow(`\n${pending} pending; run 'supabase-memory migrate up'`)
+                : chalk.green('\n✅ Schema is up to date'));
+            return;
+        }
+
+        console.log(chalk.cyan('\n🗂️  Applying schema migrations\n'));
+        const result = await applyMigrations(client, version => console.log(chalk.gray(`   Applying ${version}...`)));
+
+        if (result.baseline) {
+            console.log(chalk.green('✅ Created the schema from schema.sql'));
+        } else if (result.applied.length === 0) {
+            console.log(chalk.green('✅ Schema is already up to date'));
+        } else {
+            console.log(chalk.green(`✅ Applied ${result.applied.length} migration(s)`));
+        }
+    } finally {
+        await client.end().catch(() => { });
+    }
+}
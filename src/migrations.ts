@@ -0,0 +1,159 @@
+/**
+ * Versioned schema migrations: applied files are recorded in schema_migrations,
+ * and each pending file runs in its own transaction
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type pg from 'pg';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Files in migrations/ (without .sql), oldest first. schema.sql always includes
+ * all of them, so a new migration is appended here and folded into schema.sql.
+ */
+export const MIGRATIONS = [
+    'add_missing_columns',
+    'add_hybrid_search',
+    'add_embedding_models',
+    'add_memory_revisions',
+    'add_deduplication',
+    'add_access_tracking',
+    'add_graph_traversal',
+    'add_relation_metadata',
+    'add_search_filters',
+    'add_cross_project_search',
+    'add_structured_memory_history',
+    'add_short_term_lifecycle',
+    'add_access_control',
+    'add_project_stats',
+    'add_session_owners',
+];
+
+/** Must match schema_migrations in schema.sql */
+const MIGRATIONS_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY;
+`;
+
+/** Serializes concurrent runs against the same database */
+const MIGRATION_LOCK_ID = 8_412_301;
+
+export interface MigrationStatus {
+    version: string;
+    applied_at: string | null;
+    /** The file changed after it was applied */
+    modified: boolean;
+}
+
+export interface MigrationResult {
+    /** Fresh database: schema.sql was applied and every migration recorded as included */
+    baseline: boolean;
+    applied: string[];
+}
+
+/**
+ * File shipped with the package (next to src/ or dist/), falling back to the working directory
+ */
+export function findPackageFile(name: string): string {
+    const candidates = [
+        path.join(__dirname, '..', name),
+        path.join(__dirname, '../..', name),
+        path.join(process.cwd(), name),
+    ];
+    const found = candidates.find(p => existsSync(p));
+    if (!found) throw new Error(`Could not find ${name}`);
+    return found;
+}
+
+function readMigration(version: string): { sql: string; checksum: string } {
+    const sql = readFileSync(findPackageFile(path.join('migrations', `${version}.sql`)), 'utf8');
+    return { sql, checksum: createHash('sha256').update(sql).digest('hex') };
+}
+
+async function tableExists(client: pg.Client, table: string): Promise<boolean> {
+    const { rows } = await client.query(`SELECT to_regclass($1) IS NOT NULL AS present`, [`public.${table}`]);
+    return rows[0].present;
+}
+
+/**
+ * Run SQL and record the migration in one transaction
+ */
+async function applyInTransaction(client: pg.Client, sql: string, records: { version: string; checksum: string }[]) {
+    await client.query('BEGIN');
+    try {
+        await client.query(sql);
+        for (const { version, checksum } of records) {
+            await client.query(
+                `INSERT INTO schema_migrations (version, checksum) VALUES ($1, $2)
+                 ON CONFLICT (version) DO UPDATE SET checksum = EXCLUDED.checksum, applied_at = NOW()`,
+                [version, checksum]
+            );
+        }
+        await client.query('COMMIT');
+    } catch (error) {
+        await client.query('ROLLBACK').catch(() => { });
+        throw error;
+    }
+}
+
+export async function getMigrationStatus(client: pg.Client): Promise<MigrationStatus[]> {
+    const applied = new Map<string, { checksum: string; applied_at: Date }>();
+    if (await tableExists(client, 'schema_migrations')) {
+        const { rows } = await client.query('SELECT version, checksum, applied_at FROM schema_migrations');
+        for (const row of rows) applied.set(row.version, row);
+    }
+
+    return MIGRATIONS.map(version => {
+        const record = applied.get(version);
+        return {
+            version,
+            applied_at: record ? record.applied_at.toISOString() : null,
+            modified: !!record && record.checksum !== readMigration(version).checksum,
+        };
+    });
+}
+
+/**
+ * Bring the database up to date. A database without the memories table gets
+ * schema.sql; an existing one gets every migration it has not recorded (the
+ * files are idempotent, so untracked databases from before versioning are safe).
+ */
+export async function applyMigrations(client: pg.Client, onApply?: (version: string) => void): Promise<MigrationResult> {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    try {
+        const fresh = !(await tableExists(client, 'memories'));
+        await client.query(MIGRATIONS_TABLE_SQL);
+
+        if (fresh) {
+            onApply?.('schema.sql');
+            const schema = readFileSync(findPackageFile('schema.sql'), 'utf8');
+            const records = MIGRATIONS.map(version => ({ version, checksum: readMigration(version).checksum }));
+            await applyInTransaction(client, schema, records);
+            return { baseline: true, applied: [] };
+        }
+
+        const pending = (await getMigrationStatus(client)).filter(m => !m.applied_at);
+        const applied: string[] = [];
+        for (const { version } of pending) {
+            onApply?.(version);
+            const { sql, checksum } = readMigration(version);
+            try {
+                await applyInTransaction(client, sql, [{ version, checksum }]);
+            } catch (error) {
+                throw new Error(`Migration ${version} failed (rolled back): ${error instanceof Error ? error.message : String(error)}`);
+            }
+            applied.push(version);
+        }
+        return { baseline: false, applied };
+    } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => { });
+    }
+}
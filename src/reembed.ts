@@ -0,0 +1,93 @@
+/**
+ * Re-embedding command: regenerate every memory's vector with the configured model
+ *
+ * Usage: supabase-memory reembed [--project <id>] [--batch-size <n>] [--db-url <postgres-url>]
+ *
+ * New vectors are staged next to the live ones, so an interrupted run resumes
+ * where it stopped. Once every memory in scope is staged they are swapped in
+ * atomically (a new column and HNSW index when the dimension changes).
+ */
+
+import chalk from 'chalk';
+import { getConfig, getLocalStorePath } from './config.js';
+import { configureEmbedding, getEmbeddingModel, getEmbeddings } from './embedding.js';
+import { getFlag, getNumberFlag, resolveDatabaseUrl } from './cli.js';
+import { LocalStorage } from './storage/local.js';
+import { connectPostgres, PostgresReembedStore } from './storage/postgres.js';
+import type { ReembedStore } from './storage/types.js';
+
+const DEFAULT_BATCH_SIZE = 32;
+
+function formatProgress(done: number, total: number): string {
+    const percent = total === 0 ? 100 : Math.floor((done / total) * 100);
+    return `${done}/${total} (${percent}%)`;
+}
+
+export async function runReembed(args: string[]) {
+    const config = getConfig();
+    if (!config) {
+        throw new Error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
+    }
+
+    const projectId = getFlag(args, 'project');
+    const batchSize = getNumberFlag(args, 'batch-size', DEFAULT_BATCH_SIZE);
+
+    configureEmbedding(config.embedding);
+    const { model, dimension } = getEmbeddingModel();
+
+    const store: ReembedStore = config.storage === 'local'
+        ? new LocalStorage(getLocalStorePath(config))
+        : new PostgresReembedStore(await connectPostgres(await resolveDatabaseUrl(args, config)));
+
+    try {
+        console.log(chalk.cyan(`\n🔁 Re-embedding ${projectId ? `project '${projectId}'` : 'all projects'} with ${model} (${dimension}d)\n`));
+
+        await store.prepareReembed(dimension);
+        const progress = await store.getReembedProgress(model, projectId);
+        const target = progress.staged + progress.pending;
+        let done = progress.staged;
+
+        if (progress.staged > 0) {
+            console.log(chalk.gray(`   Resuming: ${progress.staged} memories already staged`));
+        }
+
+        let afterId: string | null = null;
+        let failed = 0;
+
+        while (true) {
+            const batch = await store.fetchReembedBatch(model, projectId, afterId, batchSize);
+            if (batch.length === 0) break;
+            afterId = batch[batch.length - 1].id;
+
+            try {
+                const embeddings = await getEmbeddings(batch.map(m => m.content));
+                await store.stageEmbeddings(model, batch.map((m, i) => ({ id: m.id, embedding: embeddings[i] })));
+                done += batch.length;
+            } catch (error) {
+                // Skipped rows stay pending and are retried on the next run
+                failed += batch.length;
+                console.log(chalk.red(`\n   ❌ Batch after ${batch[0].id} failed: ${error}`));
+            }
+
+            process.stdout.write(chalk.gray(`\r   Embedded ${formatProgress(done, target)}`));
+        }
+        process.stdout.write('\n');
+
+        if (failed > 0) {
+            console.log(chalk.yellow(`\n⚠️  ${failed} memories could not be embedded. Run the command again to retry before swapping.`));
+            return;
+        }
+
+        const { swapped, blocking } = await store.swapEmbeddings(model, dimension, projectId);
+
+        if (blocking > 0) {
+            console.log(chalk.yellow(`\n⚠️  Staged, but not swapped: ${blocking} memories in other projects still need re-embedding for the new ${dimension}d column.`));
+            console.log(chalk.yellow('   Run reembed for the remaining projects (or without --project) to complete the swap.'));
+            return;
+        }
+
+        console.log(chalk.green(`\n✅ Swapped ${swapped} embeddings to ${model} (${progress.current} were already current)`));
+    } finally {
+        await store.close();
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * Relation type vocabulary for the memory graph
+ */
+
+import { InvalidRequestError } from './errors.js';
+
+export interface RelationConfig {
+    /**
+     * Canonical relation types mapped to their inverse (null when there is none).
+     * Symmetric types map to themselves; an edge given by its inverse name is
+     * stored flipped under the canonical name.
+     */
+    vocabulary?: Record<string, string | null>;
+    /** Alternative spellings mapped to a canonical or inverse name */
+    aliases?: Record<string, string>;
+    /** Reject relation types outside the vocabulary (default: true) */
+    strict?: boolean;
+}
+
+export const DEFAULT_RELATION_VOCABULARY: Record<string, string | null> = {
+    caused_by: 'causes',
+    relates_to: 'relates_to',
+    contradicts: 'contradicts',
+    supports: 'supported_by',
+    depends_on: 'required_by',
+    duplicates: 'duplicated_by',
+    supersedes: 'superseded_by',
+    part_of: 'has_part',
+};
+
+export const DEFAULT_RELATION_ALIASES: Record<string, string> = {
+    related_to: 'relates_to',
+    related: 'relates_to',
+    depends: 'depends_on',
+};
+
+export interface ResolvedRelation {
+    source_id: string;
+    target_id: string;
+    relation_type: string;
+    /** True when the edge was given by its inverse name and stored the other way round */
+    flipped: boolean;
+}
+
+/**
+ * snake_case a relation type: 'relatesTo', 'Relates To' and 'relates-to' all become 'relates_to'
+ */
+export function normalizeRelationType(raw: string): string {
+    return raw
+        .trim()
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[\s-]+/g, '_')
+        .toLowerCase();
+}
+
+/**
+ * Map an edge onto the vocabulary: normalize the name, apply aliases and store
+ * inverse names as the canonical type in the opposite direction.
+ * Unknown types throw when strict, otherwise they are kept (normalized).
+ */
+export function resolveRelation(
+    sourceId: string,
+    targetId: string,
+    relationType: string,
+    config: RelationConfig = {}
+): ResolvedRelation {
+    const vocabulary = config.vocabulary ?? DEFAULT_RELATION_VOCABULARY;
+    const aliases = { ...DEFAULT_RELATION_ALIASES, ...config.aliases };
+
+    const normalized = normalizeRelationType(relationType);
+    const name = aliases[normalized] ?? normalized;
+
+    if (name in vocabulary) {
+        return { source_id: sourceId, target_id: targetId, relation_type: name, flipped: false };
+    }
+
+    const canonical = Object.keys(vocabulary).find(type => vocabulary[type] === name);
+    if (canonical) {
+        return { source_id: targetId, target_id: sourceId, relation_type: canonical, flipped: true };
+    }
+
+    if (config.strict ?? true) {
+        throw new InvalidRequestError(`Unknown relation type '${relationType}'. Allowed: ${listRelationTypes(config).join(', ')}`);
+    }
+    return { source_id: sourceId, target_id: targetId, relation_type: name, flipped: false };
+}
+
+/**
+ * Every accepted relation type name (canonical types and their inverses)
+ */
+export function listRelationTypes(config: RelationConfig = {}): string[] {
+    const vocabulary = config.vocabulary ?? DEFAULT_RELATION_VOCABULARY;
+    const names = new Set<string>();
+    for (const [type, inverse] of Object.entries(vocabulary)) {
+        names.add(type);
+        if (inverse) names.add(inverse);
+    }
+    return [...names];
+}
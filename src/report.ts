@@ -0,0 +1,105 @@
+/**
+ * Project report command: print a project's statistics
+ *
+ * Usage: supabase-memory report <project-id> [--bucket day|week|month] [--buckets <n>] [--top <n>] [--json]
+ */
+
+import chalk from 'chalk';
+import { getConfig } from './config.js';
+import { configureEmbedding } from './embedding.js';
+import { getFlag, getNumberFlag, hasFlag } from './cli.js';
+import { createStorage, type GrowthBucket } from './storage/index.js';
+import { buildProjectReport, DEFAULT_GROWTH_BUCKET_COUNT, DEFAULT_TOP_ACCESSED, GROWTH_BUCKETS } from './stats.js';
+
+const BAR_WIDTH = 30;
+
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * "a 3, b 1", largest count first
+ */
+function formatCounts(counts: Record<string, number>): string {
+    const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+    return entries.length > 0 ? entries.map(([key, count]) => `${key} ${count}`).join(', ') : '-';
+}
+
+function excerpt(content: string, length = 60): string {
+    const line = content.replace(/\s+/g, ' ').trim();
+    return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+export async function runReport(args: string[]) {
+    const projectId = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+    if (!projectId) {
+        throw new Error('Usage: supabase-memory report <project-id> [--bucket day|week|month] [--buckets <n>] [--top <n>] [--json]');
+    }
+
+    const bucket = (getFlag(args, 'bucket') ?? 'month') as GrowthBucket;
+    if (!GROWTH_BUCKETS.includes(bucket)) {
+        throw new Error(`--bucket must be one of ${GROWTH_BUCKETS.join(', ')}`);
+    }
+
+    const config = getConfig();
+    if (!config) {
+        throw new Error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
+    }
+
+    configureEmbedding(config.embedding);
+    const storage = createStorage(config);
+    const report = await buildProjectReport(storage, projectId, {
+        bucket,
+        bucketCount: getNumberFlag(args, 'buckets', DEFAULT_GROWTH_BUCKET_COUNT),
+        topCount: getNumberFlag(args, 'top', DEFAULT_TOP_ACCESSED),
+    });
+
+    if (hasFlag(args, 'json')) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+    }
+
+    const date = (value: string | null) => value?.slice(0, 10) ?? '-';
+    const coverage = `${Math.round(report.embedding_coverage * 100)}%`;
+
+    console.log(chalk.cyan(`\n📊 Project '${projectId}' (${storage.backend} storage)\n`));
+    console.log(`Memories:             ${report.total_memories} (first ${date(report.first_memory_at)}, last ${date(report.last_memory_at)})`);
+    console.log(`Storage:              ${formatBytes(report.storage_bytes)}`);
+    console.log(`Embedding coverage:   ${report.missing_embeddings > 0 ? chalk.yellow(coverage) : coverage} (${report.missing_embeddings} missing)`);
+    console.log(`Embedding models:     ${report.embedding_models.map(m => `${m.embedding_model ?? 'unknown'} ${m.memory_count}`).join(', ') || '-'}`);
+    if (report.mixed_embedding_models) {
+        console.log(chalk.yellow(`                      ⚠️  Mixed models; run 'supabase-memory reembed' to move everything to ${report.active_embedding_model}`));
+    }
+    console.log(`Relations:            ${report.relations} (${formatCounts(report.relations_by_type)})`);
+    console.log(`Orphaned memories:    ${report.orphaned_memories > 0 ? chalk.yellow(report.orphaned_memories) : 0}`);
+    console.log(`Structured memories:  ${report.structured_memories} (${formatCounts(report.structured_by_category)})`);
+
+    console.log(chalk.bold('\nBreakdown'));
+    console.log(`   Category:    ${formatCounts(report.by_category)}`);
+    console.log(`   Type:        ${formatCounts(report.by_type)}`);
+    console.log(`   Importance:  ${Object.entries(report.by_importance).sort((a, b) => Number(b[0]) - Number(a[0])).map(([level, count]) => `${level}★ ${count}`).join(', ') || '-'}`);
+
+    console.log(chalk.bold(`\nGrowth (per ${bucket})`));
+    const largest = Math.max(1, ...report.growth.map(g => g.created));
+    for (const point of report.growth) {
+        const bar = '█'.repeat(Math.round((point.created / largest) * BAR_WIDTH));
+        console.log(`   ${point.bucket}  ${chalk.green(`+${point.created}`.padStart(6))}  ${String(point.total).padStart(7)}  ${chalk.cyan(bar)}`);
+    }
+
+    console.log(chalk.bold('\nMost accessed'));
+    if (report.most_accessed.length === 0) {
+        console.log(chalk.gray('   No memory has been accessed yet'));
+    }
+    for (const memory of report.most_accessed) {
+        console.log(`   ${String(memory.access_count).padStart(5)}×  ${chalk.gray(`[${memory.category ?? 'uncategorized'}]`)} ${excerpt(memory.content)}`);
+        console.log(chalk.gray(`           ${memory.id}, last ${date(memory.last_accessed_at)}`));
+    }
+    console.log();
+}
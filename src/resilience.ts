@@ -0,0 +1,181 @@
+/**
+ * Resilience for database calls: per-request timeouts, exponential backoff
+ * retries for idempotent operations, and a circuit breaker that fails fast
+ * while the database is down
+ */
+
+import { MemoryError, isRetryable } from './errors.js';
+import { logger } from './logger.js';
+import type { MemoryStorage } from './storage/types.js';
+
+export interface ResilienceConfig {
+    /** Abort a database request after this long (default: 15000) */
+    timeoutMs?: number;
+    /** Extra attempts for idempotent operations after a transient failure (default: 3, 0 disables) */
+    retries?: number;
+    /** Delay before the first retry, doubled for each further one (default: 200) */
+    retryBaseDelayMs?: number;
+    /** Longest delay between retries (default: 5000) */
+    retryMaxDelayMs?: number;
+    /** Consecutive transient failures that open the circuit (default: 5, 0 disables) */
+    breakerThreshold?: number;
+    /** How long an open circuit fails fast before letting a trial call through (default: 30) */
+    breakerCooldownSeconds?: number;
+}
+
+export const DEFAULT_DB_TIMEOUT_MS = 15_000;
+
+/**
+ * Operations that can run twice with the same effect as once: reads, deletes
+ * and upserts. Inserts, merges and counters are never retried, since a request
+ * that timed out may still have been applied.
+ */
+const IDEMPOTENT_OPERATIONS = new Set<keyof MemoryStorage>([
+    'ping',
+    'getMemory',
+    'getMemoryProject',
+    'listMemoryRevisions',
+    'getMemoryRevision',
+    'matchMemories',
+    'hybridSearchMemories',
+    'listMemories',
+    'deleteMemory',
+    'findDuplicateMemories',
+    'countMemories',
+    'getEmbeddingModelStats',
+    'getProjectStats',
+    'listRelations',
+    'getRelatedMemories',
+    'traverseMemoryGraph',
+    'findMemoryPath',
+    'getStructuredMemory',
+    'listStructuredMemories',
+    'listStructuredMemoryHistory',
+    'getStructuredMemorySchema',
+    'setStructuredMemorySchema',
+    'setShortTermMemory',
+    'getShortTermMemory',
+    'deleteShortTermMemory',
+    'refreshShortTermMemory',
+    'getShortTermSessionOwners',
+    'listShortTermMemories',
+    'clearShortTermSession',
+    'purgeExpiredShortTermMemories',
+    'exportMemories',
+    'exportRelations',
+    'exportStructuredMemories',
+    'existingMemoryIds',
+]);
+
+/**
+ * fetch that aborts requests taking longer than the timeout (unless the
+ * caller passes its own abort signal)
+ */
+export function fetchWithTimeout(timeoutMs: number): typeof fetch {
+    return (input, init) => fetch(input, { ...init, signal: init?.signal ?? AbortSignal.timeout(timeoutMs) });
+}
+
+/**
+ * Rejection by an open circuit, without trying the call
+ */
+export class CircuitOpenError extends MemoryError {
+    constructor(message: string) {
+        super('unavailable', message, true);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * Closed: calls pass. After `threshold` consecutive transient failures it opens
+ * and rejects calls for `cooldownMs`; then one trial call decides whether it
+ * closes again or stays open for another cooldown.
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | null = null;
+    private trialRunning = false;
+
+    constructor(private readonly name: string, private readonly threshold: number, private readonly cooldownMs: number) { }
+
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+        if (this.threshold <= 0) return fn();
+
+        let trial = false;
+        if (this.openedAt !== null) {
+            const retryIn = this.openedAt + this.cooldownMs - Date.now();
+            if (retryIn > 0 || this.trialRunning) {
+                throw new CircuitOpenError(`${this.name} is unavailable (${this.failures} consecutive failures); retry in ${Math.max(1, Math.ceil(retryIn / 1000))}s`);
+            }
+            trial = this.trialRunning = true;
+        }
+
+        try {
+            const result = await fn();
+            this.onSuccess();
+            return result;
+        } catch (error) {
+            // Errors the database answered with (constraint violations, bad input) show it is up
+            if (isRetryable(error)) this.onFailure(trial);
+            else this.onSuccess();
+            throw error;
+        } finally {
+            if (trial) this.trialRunning = false;
+        }
+    }
+
+    private onSuccess() {
+        if (this.openedAt !== null) logger.info(`${this.name} is reachable again; circuit closed`);
+        this.failures = 0;
+        this.openedAt = null;
+    }
+
+    private onFailure(trial: boolean) {
+        this.failures++;
+        if (trial || (this.openedAt === null && this.failures >= this.threshold)) {
+            if (!trial) logger.warn(`${this.name} failed ${this.failures} times in a row; failing fast for ${this.cooldownMs / 1000}s`);
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Storage whose calls go through a circuit breaker, with idempotent operations
+ * retried on transient failures (timeouts, connection errors)
+ */
+export function withResilience(storage: MemoryStorage, config: ResilienceConfig = {}): MemoryStorage {
+    const retries = config.retries ?? 3;
+    const baseDelayMs = config.retryBaseDelayMs ?? 200;
+    const maxDelayMs = config.retryMaxDelayMs ?? 5000;
+    const breaker = new CircuitBreaker(
+        'The database',
+        config.breakerThreshold ?? 5,
+        (config.breakerCooldownSeconds ?? 30) * 1000,
+    );
+
+    return new Proxy(storage, {
+        get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            if (typeof value !== 'function' || typeof property !== 'string') return value;
+
+            const attempts = IDEMPOTENT_OPERATIONS.has(property as keyof MemoryStorage) ? retries + 1 : 1;
+            return async (...args: unknown[]) => {
+                for (let attempt = 1; ; attempt++) {
+                    try {
+                        return await breaker.run(() => value.apply(target, args));
+                    } catch (error) {
+                        if (attempt >= attempts || !isRetryable(error) || error instanceof CircuitOpenError) throw error;
+
+                        // Full jitter: a random delay up to the exponential bound
+                        const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+                        logger.warn(`Retrying ${property} after a transient failure`, { attempt, delay_ms: Math.round(delay), error: String(error) });
+                        await sleep(delay);
+                    }
+                }
+            };
+        },
+    });
+}
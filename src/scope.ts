@@ -0,0 +1,33 @@
+/**
+ * Search scope: which projects a lookup covers, including the shared "global"
+ * project that holds conventions every project inherits
+ */
+
+export interface GlobalScopeConfig {
+    /** Project holding org-wide memories (default: 'global') */
+    projectId?: string;
+    /** Include global memories in every project's lookups unless a call opts out (default: false) */
+    inherit?: boolean;
+}
+
+export const DEFAULT_GLOBAL_PROJECT = 'global';
+
+export function getGlobalProjectId(config: GlobalScopeConfig | undefined): string {
+    return config?.projectId || DEFAULT_GLOBAL_PROJECT;
+}
+
+/**
+ * Projects searched along with `projectId`: the requested extra projects plus,
+ * when included, the global project (never the project itself or a repeat)
+ */
+export function extraProjectIds(
+    projectId: string,
+    projectIds: string[] | undefined,
+    includeGlobal: boolean,
+    config: GlobalScopeConfig | undefined
+): string[] {
+    const extra = new Set(projectIds ?? []);
+    if (includeGlobal) extra.add(getGlobalProjectId(config));
+    extra.delete(projectId);
+    return [...extra];
+}
@@ -0,0 +1,158 @@
+/**
+ * Secret storage for the configuration file: credentials are written as
+ * plaintext, kept in the OS keychain, or encrypted with a passphrase, and the
+ * file only holds a reference (`keychain:<account>` or `enc:v1:...`)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { execFileSync, spawnSync } from 'child_process';
+import type { SupabaseConfig } from './config.js';
+
+export type SecretStore = 'plain' | 'keychain' | 'encrypted';
+
+export const SECRET_STORES: SecretStore[] = ['plain', 'keychain', 'encrypted'];
+
+/** Keychain service name the entries are stored under */
+const KEYCHAIN_SERVICE = 'supabase-memory-mcp';
+
+const KEYCHAIN_PREFIX = 'keychain:';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/** Configuration paths holding credentials */
+const SECRET_FIELDS = [
+    'anonKey',
+    'serviceRoleKey',
+    'database.url',
+    'database.password',
+    'embedding.apiKey',
+    'auth.jwtSecret',
+    'auth.credential',
+];
+
+/** The configuration or one of its nested sections */
+type ConfigSection = Record<string, unknown>;
+
+function getField(config: SupabaseConfig, field: string): unknown {
+    return field.split('.').reduce<unknown>((value, key) => (value as ConfigSection | undefined)?.[key], config);
+}
+
+/**
+ * Replace a field that getField found (so its sections exist)
+ */
+function setField(config: SupabaseConfig, field: string, value: string) {
+    const keys = field.split('.');
+    const parent = keys.slice(0, -1).reduce<unknown>((section, key) => (section as ConfigSection)[key], config) as ConfigSection;
+    parent[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Argument quoted for a command line of `security -i`
+ */
+function quoteSecurityArg(value: string): string {
+    return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Passphrase for encrypted secrets, from MEMORY_CONFIG_PASSPHRASE
+ */
+function getPassphrase(): string {
+    const passphrase = process.env.MEMORY_CONFIG_PASSPHRASE;
+    if (!passphrase) {
+        throw new Error('MEMORY_CONFIG_PASSPHRASE is required to read or write encrypted secrets');
+    }
+    return passphrase;
+}
+
+function encrypt(secret: string, passphrase: string): string {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', scryptSync(passphrase, salt, 32), iv);
+    const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + [salt, iv, cipher.getAuthTag(), data].map(b => b.toString('base64')).join(':');
+}
+
+function decrypt(value: string, passphrase: string): string {
+    const [salt, iv, tag, data] = value.slice(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', scryptSync(passphrase, salt, 32), iv);
+    decipher.setAuthTag(tag);
+    try {
+        return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+    } catch {
+        throw new Error('Could not decrypt the configuration secrets: wrong MEMORY_CONFIG_PASSPHRASE?');
+    }
+}
+
+/**
+ * OS keychain access through the platform's command-line tool:
+ * `security` on macOS, `secret-tool` (libsecret) on Linux
+ */
+function keychainSet(account: string, secret: string) {
+    if (process.platform === 'darwin') {
+        // `security` only takes the secret as an argument, so the command goes through its
+        // interactive mode on stdin to keep the secret out of the process list
+        const command = ['add-generic-password', '-U', '-s', KEYCHAIN_SERVICE, '-a', account, '-w', secret].map(quoteSecurityArg).join(' ');
+        const result = spawnSync('security', ['-i'], { input: command + '\n', encoding: 'utf8' });
+        // Interactive mode exits 0 even when the command fails, and reports it on stderr
+        if (result.error || result.status !== 0 || result.stderr.trim() !== '') {
+            throw new Error(`Could not store '${account}' in the keychain: ${result.error?.message ?? result.stderr.trim()}`);
+        }
+    } else if (process.platform === 'linux') {
+        execFileSync('secret-tool', ['store', `--label=${KEYCHAIN_SERVICE} ${account}`, 'service', KEYCHAIN_SERVICE, 'account', account], { input: secret, stdio: ['pipe', 'ignore', 'pipe'] });
+    } else {
+        throw new Error(`Keychain storage is not supported on ${process.platform}; use encrypted secrets instead`);
+    }
+}
+
+function keychainGet(account: string): string {
+    try {
+        if (process.platform === 'darwin') {
+            return execFileSync('security', ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', account, '-w'], { encoding: 'utf8' }).replace(/\n$/, '');
+        }
+        if (process.platform === 'linux') {
+            return execFileSync('secret-tool', ['lookup', 'service', KEYCHAIN_SERVICE, 'account', account], { encoding: 'utf8' });
+        }
+    } catch {
+        throw new Error(`Secret '${account}' not found in the keychain; run setup again`);
+    }
+    throw new Error(`Keychain storage is not supported on ${process.platform}`);
+}
+
+/**
+ * Copy of a configuration with its credentials moved to the given store
+ */
+export function protectSecrets(config: SupabaseConfig, store: SecretStore, profile: string): SupabaseConfig {
+    const protectedConfig = structuredClone(config);
+    if (store === 'plain') return protectedConfig;
+
+    const passphrase = store === 'encrypted' ? getPassphrase() : '';
+    for (const field of SECRET_FIELDS) {
+        const secret = getField(protectedConfig, field);
+        if (typeof secret !== 'string' || secret === '') continue;
+
+        if (store === 'keychain') {
+            const account = `${profile}/${field}`;
+            keychainSet(account, secret);
+            setField(protectedConfig, field, KEYCHAIN_PREFIX + account);
+        } else {
+            setField(protectedConfig, field, encrypt(secret, passphrase));
+        }
+    }
+    return protectedConfig;
+}
+
+/**
+ * Replace keychain and encrypted references in a loaded configuration with the secrets
+ */
+export function revealSecrets(config: SupabaseConfig): SupabaseConfig {
+    for (const field of SECRET_FIELDS) {
+        const value = getField(config, field);
+        if (typeof value !== 'string') continue;
+
+        if (value.startsWith(KEYCHAIN_PREFIX)) {
+            setField(config, field, keychainGet(value.slice(KEYCHAIN_PREFIX.length)));
+        } else if (value.startsWith(ENCRYPTED_PREFIX)) {
+            setField(config, field, decrypt(value, getPassphrase()));
+        }
+    }
+    return config;
+}
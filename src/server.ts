@@ -0,0 +1,1377 @@
+/**
+ * MCP tool surface for the Supabase Memory server
+ * Tools only talk to a MemoryStorage, so any backend can serve them
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getEmbedding, getEmbeddingModel, getEmbeddingStats } from "./embedding.js";
+import { randomUUID } from "crypto";
+import { logger, withLogContext } from "./logger.js";
+import { getServerMetrics, instrumentStorage, traceToolCall } from "./metrics.js";
+import {
+    clusterDuplicates,
+    mergeDuplicateMetadata,
+    DEFAULT_DUPLICATE_THRESHOLD,
+    DUPLICATE_RELATION,
+    type DedupeConfig,
+} from "./dedupe.js";
+import { storeMemoriesBatch } from "./batch.js";
+import { ingestDocument, getDocumentContext } from "./documents.js";
+import { exportProject, importProject, readArchive, writeArchive } from "./archive.js";
+import { applyJsonPatch, checkSchema, validateValue, type JsonPatchOperation } from "./structured.js";
+import { expiresAt, type ShortTermConfig } from "./shortterm.js";
+import { extraProjectIds, getGlobalProjectId, type GlobalScopeConfig } from "./scope.js";
+import { assertAccess, assertSessionAccess, canAccess, type CallerIdentity, type Permission } from "./auth.js";
+import { resolveToolPath, type FileAccessConfig } from "./files.js";
+import { buildProjectReport, DEFAULT_GROWTH_BUCKET_COUNT, DEFAULT_TOP_ACCESSED } from "./stats.js";
+import { resolveRelation, listRelationTypes, DEFAULT_RELATION_VOCABULARY, type RelationConfig } from "./relations.js";
+import type { MemoryStorage, MemoryPatch, MemoryRecord, ScoringConfig } from "./storage/index.js";
+import { errorResult, InvalidRequestError, NotFoundError } from "./errors.js";
+
+export interface ServerOptions {
+    /** Defaults for near-duplicate handling in store_memory */
+    dedupe?: DedupeConfig;
+    /** Ranking weights for vector search (per-call overrides win) */
+    scoring?: Partial<ScoringConfig>;
+    /** Relation type vocabulary enforced by create_reaction */
+    relations?: RelationConfig;
+    /** Global project inherited by search_memories and get_structured_memory */
+    global?: GlobalScopeConfig;
+    /** Sliding TTL default for set_short_term_memory (the sweeper runs outside the server) */
+    shortTerm?: ShortTermConfig;
+    /** Caller every tool call is checked against; access control is off when unset */
+    identity?: CallerIdentity;
+    /** Where ingest_document, export_project and import_project may read and write files */
+    files?: FileAccessConfig;
+}
+
+const scoringSchema = z.object({
+    similarity_weight: z.number().min(0).optional(),
+    importance_weight: z.number().min(0).optional(),
+    recency_weight: z.number().min(0).optional(),
+    access_weight: z.number().min(0).optional(),
+    half_life_days: z.number().positive().optional(),
+});
+
+const timestampSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), "Expected an ISO date or timestamp");
+
+const filterSchema = z.object({
+    types: z.array(z.enum(['episodic', 'insight', 'procedure'])).min(1).optional().describe("Only these memory types"),
+    min_importance: z.number().int().min(1).max(5).optional(),
+    metadata: z.record(z.unknown()).optional().describe("Metadata must contain these keys and values (nested objects and arrays match by containment)"),
+    created_after: timestampSchema.optional().describe("Inclusive"),
+    created_before: timestampSchema.optional().describe("Exclusive"),
+    updated_after: timestampSchema.optional().describe("Inclusive"),
+    updated_before: timestampSchema.optional().describe("Exclusive"),
+});
+
+/**
+ * Run every tool handler registered from here on with a fresh correlation ID,
+ * so all lines logged while handling one call can be grouped, and record its
+ * latency, outcome and result size
+ */
+function traceToolCalls(server: McpServer) {
+    const register = server.tool.bind(server) as (...args: unknown[]) => ReturnType<McpServer["tool"]>;
+    server.tool = ((...args: unknown[]) => {
+        const name = args[0] as string;
+        const handler = args.pop() as (...handlerArgs: unknown[]) => unknown;
+        return register(...args, (...handlerArgs: unknown[]) => {
+            // The SDK passes request metadata (session ID) as the last argument
+            const extra = handlerArgs[handlerArgs.length - 1] as { sessionId?: string } | undefined;
+            const context = { request_id: randomUUID(), tool: name, session_id: extra?.sessionId };
+            return withLogContext(context, async () => {
+                const started = Date.now();
+                logger.debug(`Tool call started`);
+                try {
+                    return await traceToolCall(name, async () => handler(...handlerArgs));
+                } finally {
+                    logger.debug(`Tool call finished`, { duration_ms: Date.now() - started });
+                }
+            });
+        });
+    }) as McpServer["tool"];
+}
+
+/**
+ * Create an MCP server with every memory tool registered against the given storage
+ */
+export function createServer(backend: MemoryStorage, options: ServerOptions = {}): McpServer {
+    const storage = instrumentStorage(backend);
+    const server = new McpServer({
+        name: "supabase-memory",
+        version: "2.0.0",
+    });
+    traceToolCalls(server);
+
+    /**
+     * Throw unless the caller holds the permission on every given project
+     */
+    function authorize(permission: Permission, ...projectIds: string[]) {
+        if (options.identity) assertAccess(options.identity, projectIds, permission);
+    }
+
+    /**
+     * Authorize a tool that names memories only by ID, against the projects of all of them
+     */
+    async function authorizeMemories(permission: Permission, ...memoryIds: string[]) {
+        if (!options.identity || memoryIds.length === 0) return;
+        const found = await storage.existingMemoryIds([...new Set(memoryIds)]);
+        const missing = memoryIds.find(id => !found.some(m => m.id === id));
+        if (missing) throw new NotFoundError(`Memory ${missing} not found`);
+        authorize(permission, ...new Set(found.map(m => m.project_id)));
+    }
+
+    /**
+     * Throw unless the caller may use the short-term session; sessions belong to
+     * the caller that wrote their first entry
+     */
+    async function authorizeSession(permission: Permission, sessionId: string) {
+        if (!options.identity) return;
+        assertSessionAccess(options.identity, sessionId, await storage.getShortTermSessionOwners(sessionId), permission);
+    }
+
+    /**
+     * Whether a lookup includes the global project: asking for it explicitly needs read
+     * access, while the server-wide default quietly skips it for callers without
+     */
+    function inheritsGlobal(includeGlobal: boolean | undefined): boolean {
+        const globalProject = getGlobalProjectId(options.global);
+        if (includeGlobal !== undefined) {
+            if (includeGlobal) authorize('read', globalProject);
+            return includeGlobal;
+        }
+        return (options.global?.inherit ?? false)
+            && (!options.identity || canAccess(options.identity, globalProject, 'read'));
+    }
+
+    /**
+     * Access tracking must never fail the read that triggered it
+     */
+    async function recordAccess(memoryIds: string[]) {
+        try {
+            await storage.recordMemoryAccess(memoryIds);
+        } catch (error) {
+            logger.warn("Failed to record memory access", { error: String(error) });
+        }
+    }
+
+    /**
+     * Tag search hits that are document chunks with the document they came from
+     */
+    function withDocumentContext<T extends { metadata: Record<string, unknown> | null }>(results: T[]) {
+        return results.map(result => {
+            const document = getDocumentContext(result.metadata);
+            return document ? { ...result, document } : result;
+        });
+    }
+
+    /**
+     * Reject a structured value that does not match its category's registered schema
+     */
+    async function checkStructuredValue(project_id: string, category: string, value: unknown) {
+        const schema = await storage.getStructuredMemorySchema(project_id, category);
+        if (!schema) return;
+
+        const errors = validateValue(schema, value);
+        if (errors.length > 0) {
+            throw new InvalidRequestError(`Value does not match the schema of '${category}': ${errors.join('; ')}`);
+        }
+    }
+
+    // ══════════════════════════════════════════════════════════════════════════════
+    // 1. EPISODIC / INSIGHT MEMORY TOOLS
+    // ══════════════════════════════════════════════════════════════════════════════
+
+    server.tool(
+        "store_memory",
+        {
+            content: z.string().describe("The text content to remember"),
+            category: z.string().describe("Category (e.g., 'tech_stack', 'decision', 'workout_log')"),
+            project_id: z.string().describe("Unique identifier for the project"),
+            type: z.enum(['episodic', 'insight', 'procedure']).optional().default('episodic').describe("Type of memory: 'episodic' (routine), 'insight' (learned truth), 'procedure' (how-to)"),
+            importance: z.number().min(1).max(5).optional().default(1).describe("Importance level (1-5)"),
+            metadata: z.record(z.unknown()).optional().describe("Optional metadata"),
+            on_duplicate: z.enum(['none', 'skip', 'merge', 'link']).optional().describe("If a near-identical memory exists: 'skip' it, 'merge' into it (raises its importance by 1, up to 5, and counts the hit), 'link' the new one to it, or 'none' (always store)"),
+            duplicate_threshold: z.number().min(0).max(1).optional().describe("Similarity at or above which a memory counts as a duplicate (default 0.95)"),
+        },
+        async ({ content, category, project_id, type, importance, metadata, on_duplicate, duplicate_threshold }) => {
+            try {
+                authorize('write', project_id);
+                logger.info(`Storing memory for project: ${project_id}`, { category, type });
+                const embedding = await getEmbedding(content);
+                const { model, dimension } = getEmbeddingModel();
+
+                const action = on_duplicate ?? options.dedupe?.onDuplicate ?? 'none';
+                const threshold = duplicate_threshold ?? options.dedupe?.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+
+                // Most similar existing memory above the threshold, if any
+                const duplicate = action === 'none' ? undefined : (await storage.matchMemories({
+                    embedding,
+                    embedding_model: model,
+                    project_id,
+                    threshold,
+                    count: 5,
+                })).sort((a, b) => b.similarity - a.similarity)[0];
+
+                if (duplicate && action === 'skip') {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: JSON.stringify({
+                                success: true,
+                                action: 'skipped',
+                                message: `Near-duplicate memory already exists`,
+                                memory_id: duplicate.id,
+                                similarity: duplicate.similarity,
+                                project_id,
+                            }, null, 2),
+                        }],
+                    };
+                }
+
+                if (duplicate && action === 'merge') {
+                    await storage.updateMemory(duplicate.id, project_id, {
+                        importance: Math.min(5, Math.max(duplicate.importance, importance) + 1),
+                        metadata: mergeDuplicateMetadata(duplicate.metadata, metadata || {}),
+                        replace_metadata: true,
+                    });
+
+                    return {
+                        content: [{
+                            type: "text",
+                            text: JSON.stringify({
+                                success: true,
+                                action: 'merged',
+                                message: `Merged into near-duplicate memory`,
+                                memory_id: duplicate.id,
+                                similarity: duplicate.similarity,
+                                project_id,
+                            }, null, 2),
+                        }],
+                    };
+                }
+
+                const data = await storage.insertMemory({
+                    project_id,
+                    category,
+                    content,
+                    embedding,
+                    embedding_model: model,
+                    embedding_dimension: dimension,
+                    type,
+                    importance,
+                    metadata: metadata || {},
+                });
+
+                if (duplicate && action === 'link') {
+                    await storage.createRelation({ source_id: data.id, target_id: duplicate.id, relation_type: DUPLICATE_RELATION });
+                }
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: JSON.stringify({
+                                success: true,
+                                action: duplicate && action === 'link' ? 'linked' : 'created',
+                                message: `Memory stored successfully`,
+                                memory_id: data.id,
+                                project_id,
+                                type,
+                                ...(duplicate && action === 'link' ? { duplicate_of: duplicate.id, similarity: duplicate.similarity } : {}),
+                            }, null, 2),
+                        },
+                    ],
+                };
+            } catch (error) {
+                logger.error(`Failed to store memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "store_memories",
+        {
+            project_id: z.string().optional().describe("Project for memories that do not name one"),
+            memories: z.array(z.object({
+                content: z.string(),
+                category: z.string(),
+                project_id: z.string().optional(),
+                type: z.string().optional().describe("'episodic' (default), 'insight' or 'procedure'"),
+                importance: z.number().optional().describe("Importance level (1-5, default 1)"),
+                metadata: z.record(z.unknown()).optional(),
+            })).min(1).max(500).describe("Memories to store; each one succeeds or fails on its own"),
+        },
+        async ({ project_id, memories }) => {
+            try {
+                authorize('write', ...memories.map(m => m.project_id ?? project_id).filter((id): id is string => !!id));
+                logger.info(`Storing ${memories.length} memories`, { project_id });
+                const results = await storeMemoriesBatch(storage, memories, { projectId: project_id });
+                const failed = results.filter(r => !r.success).length;
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({
+                            success: failed === 0,
+                            stored: results.length - failed,
+                            failed,
+                            results,
+                        }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to store memories`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "ingest_document",
+        {
+            project_id: z.string().describe("Project to store the document in"),
+            category: z.string().describe("Category for the document and its chunks"),
+            text: z.string().optional().describe("Document text (give either text or path)"),
+            path: z.string().optional().describe("Local file to read (Markdown, plain text or code)"),
+            title: z.string().optional().describe("Defaults to the first Markdown heading or the file name"),
+            format: z.enum(['markdown', 'text', 'code']).optional().describe("Inferred from the file extension when omitted"),
+            chunk_size: z.number().min(200).max(8000).optional().describe("Maximum characters per chunk (default 1000)"),
+            chunk_overlap: z.number().min(0).optional().describe("Characters repeated from the previous chunk (default 150)"),
+            type: z.enum(['episodic', 'insight', 'procedure']).optional(),
+            importance: z.number().min(1).max(5).optional(),
+            metadata: z.record(z.unknown()).optional().describe("Copied onto the document and every chunk"),
+        },
+        async ({ project_id, category, text, path, title, format, chunk_size, chunk_overlap, type, importance, metadata }) => {
+            try {
+                authorize('write', project_id);
+                logger.info(`Ingesting document`, { project_id, path });
+                const result = await ingestDocument(storage, {
+                    project_id,
+                    category,
+                    text,
+                    path: path !== undefined ? await resolveToolPath(path, options.files) : undefined,
+                    title,
+                    format,
+                    chunkSize: chunk_size,
+                    chunkOverlap: chunk_overlap,
+                    type,
+                    importance,
+                    metadata,
+                });
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({ success: result.failed.length === 0, ...result }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to ingest document`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "search_memories",
+        {
+            query: z.string().describe("The semantic query to search for"),
+            project_id: z.string().describe("Filter by project ID"),
+            project_ids: z.array(z.string()).optional().describe("Further projects to search along with project_id; results carry their project_id"),
+            include_global: z.boolean().optional().describe("Also search the global project's org-wide memories (default: server setting)"),
+            category: z.string().optional(),
+            limit: z.number().min(1).max(50).optional().default(5),
+            similarity_threshold: z.number().min(0).max(1).optional().default(0.5),
+            mode: z.enum(['vector', 'keyword', 'hybrid']).optional().default('vector').describe("'vector' (semantic), 'keyword' (full-text, best for exact identifiers) or 'hybrid' (both, fused by reciprocal rank)"),
+            scoring: scoringSchema.optional().describe("Vector mode ranking weights: score = similarity*similarity_weight + importance*importance_weight + recency*recency_weight + access*access_weight"),
+            filter: filterSchema.optional().describe("Restrict results by type, importance, metadata or date range"),
+            include_document_context: z.boolean().optional().default(true).describe("Attach the parent document (title, source, section, chunk position) to hits that are document chunks"),
+        },
+        async ({ query, project_id, project_ids, include_global, category, limit, similarity_threshold, mode, scoring, filter, include_document_context }) => {
+            try {
+                authorize('read', project_id, ...(project_ids ?? []));
+                const extra_project_ids = extraProjectIds(project_id, project_ids, inheritsGlobal(include_global), options.global);
+                logger.debug(`Searching memories`, { query, project_id, extra_project_ids, mode });
+
+                // Vectors from other embedding models are never compared
+                const { model } = getEmbeddingModel();
+
+                if (mode === 'vector') {
+                    const queryEmbedding = await getEmbedding(query, 'query');
+                    const data = await storage.matchMemories({
+                        embedding: queryEmbedding,
+                        embedding_model: model,
+                        project_id,
+                        extra_project_ids,
+                        category: category || null,
+                        threshold: similarity_threshold,
+                        count: limit,
+                        filter,
+                        scoring: { ...options.scoring, ...scoring },
+                    });
+                    await recordAccess(data.map(m => m.id));
+                    const results = include_document_context ? withDocumentContext(data) : data;
+
+                    return {
+                        content: [{ type: "text", text: JSON.stringify({ success: true, results }, null, 2) }],
+                    };
+                }
+
+                // Keyword mode needs no embedding
+                const queryEmbedding = mode === 'hybrid' ? await getEmbedding(query, 'query') : null;
+                const data = await storage.hybridSearchMemories({
+                    mode,
+                    query,
+                    embedding: queryEmbedding,
+                    embedding_model: model,
+                    project_id,
+                    extra_project_ids,
+                    category: category || null,
+                    threshold: similarity_threshold,
+                    count: limit,
+                    filter,
+                });
+                await recordAccess(data.map(m => m.id));
+                const results = include_document_context ? withDocumentContext(data) : data;
+
+                return {
+                    content: [{ type: "text", text: JSON.stringify({ success: true, mode, results }, null, 2) }],
+                };
+            } catch (error) {
+                logger.error(`Search failed`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_memory",
+        {
+            memory_id: z.string().describe("UUID of the memory"),
+            project_id: z.string(),
+        },
+        async ({ memory_id, project_id }) => {
+            try {
+                authorize('read', project_id);
+                const data = await storage.getMemory(memory_id, project_id);
+                if (!data) throw new NotFoundError(`Memory ${memory_id} not found in project ${project_id}`);
+
+                await recordAccess([memory_id]);
+                return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get memory ${memory_id}`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "update_memory",
+        {
+            memory_id: z.string().describe("UUID of the memory to update"),
+            project_id: z.string().describe("Project the memory belongs to"),
+            content: z.string().optional().describe("New text content (re-embedded automatically)"),
+            category: z.string().optional(),
+            type: z.enum(['episodic', 'insight', 'procedure']).optional(),
+            importance: z.number().min(1).max(5).optional(),
+            metadata: z.record(z.unknown()).optional().describe("Metadata keys to merge into the existing metadata"),
+            replace_metadata: z.boolean().optional().default(false).describe("Replace metadata entirely instead of merging"),
+        },
+        async ({ memory_id, project_id, content, category, type, importance, metadata, replace_metadata }) => {
+            try {
+                authorize('write', project_id);
+                if ([content, category, type, importance, metadata].every(v => v === undefined)) {
+                    throw new InvalidRequestError("Nothing to update: provide content, category, type, importance or metadata");
+                }
+
+                logger.info(`Updating memory ${memory_id}`, { project_id });
+
+                // The previous version is kept in memory_revisions, so the ID and its relations survive
+                let embeddingPatch: Pick<MemoryPatch, 'embedding' | 'embedding_model' | 'embedding_dimension'> = {};
+                if (content !== undefined) {
+                    const { model, dimension } = getEmbeddingModel();
+                    embeddingPatch = {
+                        embedding: await getEmbedding(content),
+                        embedding_model: model,
+                        embedding_dimension: dimension,
+                    };
+                }
+
+                const data = await storage.updateMemory(memory_id, project_id, {
+                    content,
+                    ...embeddingPatch,
+                    category,
+                    type,
+                    importance,
+                    metadata,
+                    replace_metadata,
+                });
+
+                if (!data) throw new NotFoundError(`Memory ${memory_id} not found in project ${project_id}`);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({
+                            success: true,
+                            message: "Memory updated successfully",
+                            memory_id,
+                            re_embedded: content !== undefined,
+                            memory: data,
+                        }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to update memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "list_memory_revisions",
+        {
+            memory_id: z.string().describe("UUID of the memory"),
+            project_id: z.string(),
+        },
+        async ({ memory_id, project_id }) => {
+            try {
+                authorize('read', project_id);
+                const data = await storage.listMemoryRevisions(memory_id, project_id);
+                return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to list revisions of memory ${memory_id}`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "restore_memory_revision",
+        {
+            memory_id: z.string().describe("UUID of the memory"),
+            project_id: z.string(),
+            revision: z.number().int().min(1).describe("Revision number from list_memory_revisions"),
+        },
+        async ({ memory_id, project_id, revision }) => {
+            try {
+                authorize('write', project_id);
+                const previous = await storage.getMemoryRevision(memory_id, project_id, revision);
+                if (!previous) throw new NotFoundError(`Revision ${revision} of memory ${memory_id} not found`);
+
+                logger.info(`Restoring memory ${memory_id} to revision ${revision}`, { project_id });
+                const { model, dimension } = getEmbeddingModel();
+
+                // Restoring is itself an update, so the current version becomes a new revision
+                const data = await storage.updateMemory(memory_id, project_id, {
+                    content: previous.content,
+                    embedding: await getEmbedding(previous.content),
+                    embedding_model: model,
+                    embedding_dimension: dimension,
+                    category: previous.category ?? undefined,
+                    type: previous.type,
+                    importance: previous.importance,
+                    metadata: previous.metadata,
+                    replace_metadata: true,
+                });
+
+                if (!data) throw new NotFoundError(`Memory ${memory_id} not found in project ${project_id}`);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({ success: true, restored_revision: revision, memory: data }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to restore memory revision`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    // ══════════════════════════════════════════════════════════════════════════════
+    // 2. ASSOCIATIVE (GRAPH) MEMORY TOOLS
+    // ══════════════════════════════════════════════════════════════════════════════
+
+    server.tool(
+        "create_reaction",
+        {
+            source_id: z.string().describe("UUID of the source memory"),
+            target_id: z.string().describe("UUID of the target memory"),
+            relation_type: z.string().describe("Type of relation, e.g., 'caused_by', 'relates_to', 'contradicts' (see list_relation_types)"),
+            weight: z.number().min(0).max(1).optional().describe("Strength or confidence of the relation (default: 1)"),
+            metadata: z.record(z.any()).optional(),
+        },
+        async ({ source_id, target_id, relation_type, weight, metadata }) => {
+            try {
+                await authorizeMemories('write', source_id, target_id);
+                const relation = resolveRelation(source_id, target_id, relation_type, options.relations);
+                logger.info(`Creating relation`, { source_id: relation.source_id, target_id: relation.target_id, relation_type: relation.relation_type });
+                await storage.createRelation({
+                    source_id: relation.source_id,
+                    target_id: relation.target_id,
+                    relation_type: relation.relation_type,
+                    weight,
+                    metadata,
+                });
+
+                const stored = relation.flipped ? ` (stored as ${relation.source_id} ${relation.relation_type} ${relation.target_id})` : '';
+                return { content: [{ type: "text", text: `Relation '${relation.relation_type}' created between ${relation.source_id} and ${relation.target_id}${stored}` }] };
+            } catch (error) {
+                logger.error(`Failed to create relation`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "delete_relation",
+        {
+            source_id: z.string().describe("UUID of the source memory"),
+            target_id: z.string().describe("UUID of the target memory"),
+            relation_type: z.string().optional().describe("Only delete this type (default: every relation from source to target)"),
+        },
+        async ({ source_id, target_id, relation_type }) => {
+            try {
+                await authorizeMemories('delete', source_id, target_id);
+                // Inverse names delete the canonical edge, like create_reaction stores it
+                const relation = relation_type
+                    ? resolveRelation(source_id, target_id, relation_type, { ...options.relations, strict: false })
+                    : { source_id, target_id, relation_type: undefined };
+
+                const deleted = await storage.deleteRelations(relation);
+                logger.info(`Deleted relations`, { ...relation, deleted });
+                return { content: [{ type: "text", text: JSON.stringify({ success: true, deleted }, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to delete relation`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "list_relations",
+        {
+            project_id: z.string(),
+            relation_type: z.string().optional(),
+            memory_id: z.string().optional().describe("Only relations touching this memory"),
+            limit: z.number().min(1).max(500).optional().default(100),
+        },
+        async ({ project_id, relation_type, memory_id, limit }) => {
+            try {
+                authorize('read', project_id);
+                const data = await storage.listRelations({ project_id, relation_type, memory_id, limit });
+                return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to list relations`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "list_relation_types",
+        {},
+        async () => {
+            const vocabulary = options.relations?.vocabulary ?? DEFAULT_RELATION_VOCABULARY;
+            const types = Object.entries(vocabulary).map(([type, inverse]) => ({ type, inverse }));
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        strict: options.relations?.strict ?? true,
+                        types,
+                        accepted: listRelationTypes(options.relations),
+                    }, null, 2),
+                }],
+            };
+        }
+    );
+
+    server.tool(
+        "get_related_memories",
+        {
+            memory_id: z.string().describe("UUID of the memory to investigate"),
+        },
+        async ({ memory_id }) => {
+            try {
+                await authorizeMemories('read', memory_id);
+                const data = await storage.getRelatedMemories(memory_id);
+                await authorizeMemories('read', ...data.map(m => m.memory_id));
+                return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get related memories`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "traverse_memory_graph",
+        {
+            memory_id: z.string().describe("UUID of the memory to start from"),
+            max_depth: z.number().min(1).max(10).optional().default(3).describe("Maximum number of hops"),
+            relation_types: z.array(z.string()).optional().describe("Only follow these relation types, e.g. ['caused_by']"),
+            direction: z.enum(['outgoing', 'incoming', 'both']).optional().default('both').describe("Follow edges pointing away from each memory, towards it, or both"),
+            limit: z.number().min(1).max(500).optional().default(50),
+        },
+        async ({ memory_id, max_depth, relation_types, direction, limit }) => {
+            try {
+                await authorizeMemories('read', memory_id);
+                const data = await storage.traverseMemoryGraph({
+                    start_id: memory_id,
+                    max_depth,
+                    relation_types,
+                    direction,
+                    limit,
+                });
+                await authorizeMemories('read', ...data.map(m => m.memory_id));
+                return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to traverse memory graph`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "find_path",
+        {
+            source_id: z.string().describe("UUID of the memory to start from"),
+            target_id: z.string().describe("UUID of the memory to reach"),
+            max_depth: z.number().min(1).max(10).optional().default(6).describe("Maximum path length in hops"),
+            relation_types: z.array(z.string()).optional().describe("Only follow these relation types, e.g. ['caused_by']"),
+            direction: z.enum(['outgoing', 'incoming', 'both']).optional().default('both'),
+        },
+        async ({ source_id, target_id, max_depth, relation_types, direction }) => {
+            try {
+                await authorizeMemories('read', source_id, target_id);
+                const path = await storage.findMemoryPath({ source_id, target_id, max_depth, relation_types, direction });
+                await authorizeMemories('read', ...path.map(step => step.memory_id));
+
+                if (path.length === 0) {
+                    return { content: [{ type: "text", text: `No path found between ${source_id} and ${target_id} within ${max_depth} hops` }] };
+                }
+                return {
+                    content: [{ type: "text", text: JSON.stringify({ found: true, hops: path.length - 1, path }, null, 2) }],
+                };
+            } catch (error) {
+                logger.error(`Failed to find path`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    // ══════════════════════════════════════════════════════════════════════════════
+    // 3. STRUCTURED (ENTITY) MEMORY TOOLS
+    // ══════════════════════════════════════════════════════════════════════════════
+
+    server.tool(
+        "set_structured_memory",
+        {
+            project_id: z.string(),
+            category: z.string().describe("Group, e.g. 'user_profile', 'project_conf'"),
+            key: z.string().describe("Unique key within category, e.g. 'theme'"),
+            value: z.any().describe("JSON value to store"),
+            description: z.string().optional().describe("Description of what this is"),
+        },
+        async ({ project_id, category, key, value, description }) => {
+            try {
+                authorize('write', project_id);
+                logger.info(`Setting structured memory`, { project_id, category, key });
+                await checkStructuredValue(project_id, category, value);
+                await storage.setStructuredMemory({ project_id, category, key, value, description });
+                return { content: [{ type: "text", text: `Structured memory saved: ${category}.${key}` }] };
+            } catch (error) {
+                logger.error(`Failed to set structured memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_structured_memory",
+        {
+            project_id: z.string(),
+            category: z.string(),
+            key: z.string(),
+            include_global: z.boolean().optional().describe("Fall back to the global project's value when the project has none (default: server setting)"),
+        },
+        async ({ project_id, category, key, include_global }) => {
+            try {
+                authorize('read', project_id);
+                // A project's own value overrides the inherited global one
+                let source = project_id;
+                let data = await storage.getStructuredMemory(project_id, category, key);
+                if (!data && inheritsGlobal(include_global)) {
+                    source = getGlobalProjectId(options.global);
+                    data = await storage.getStructuredMemory(source, category, key);
+                }
+
+                if (!data) throw new NotFoundError(`Structured memory ${category}.${key} not found in project ${project_id}`);
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({ ...data, project_id: source, inherited: source !== project_id }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to get structured memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "list_structured_memories",
+        {
+            project_id: z.string(),
+            category: z.string().optional().describe("Only this category (default: all)"),
+            include_global: z.boolean().optional().describe("Include the global project's keys the project does not override (default: server setting)"),
+        },
+        async ({ project_id, category, include_global }) => {
+            try {
+                authorize('read', project_id);
+                const own = await storage.listStructuredMemories(project_id, category);
+                const globalProject = getGlobalProjectId(options.global);
+                const inherit = globalProject !== project_id && inheritsGlobal(include_global);
+
+                // Project keys override global ones with the same category and key
+                const entryKey = (item: { category: string; key: string }) => JSON.stringify([item.category, item.key]);
+                const ownKeys = new Set(own.map(entryKey));
+                const inherited = inherit
+                    ? (await storage.listStructuredMemories(globalProject, category)).filter(item => !ownKeys.has(entryKey(item)))
+                    : [];
+
+                const items = [
+                    ...own.map(item => ({ ...item, inherited: false })),
+                    ...inherited.map(item => ({ ...item, inherited: true })),
+                ].sort((a, b) => a.category.localeCompare(b.category) || a.key.localeCompare(b.key));
+
+                return { content: [{ type: "text", text: JSON.stringify({ count: items.length, items }, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to list structured memories`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "delete_structured_memory",
+        {
+            project_id: z.string(),
+            category: z.string(),
+            key: z.string(),
+        },
+        async ({ project_id, category, key }) => {
+            try {
+                authorize('delete', project_id);
+                logger.info(`Deleting structured memory`, { project_id, category, key });
+                const deleted = await storage.deleteStructuredMemory(project_id, category, key);
+
+                if (!deleted) throw new NotFoundError(`Structured memory ${category}.${key} not found in project ${project_id}`);
+                return { content: [{ type: "text", text: `Structured memory deleted: ${category}.${key}` }] };
+            } catch (error) {
+                logger.error(`Failed to delete structured memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "patch_structured_memory",
+        {
+            project_id: z.string(),
+            category: z.string(),
+            key: z.string(),
+            patch: z.array(z.object({
+                op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+                path: z.string().describe("JSON Pointer, e.g. '/servers/0/url' ('' = whole value)"),
+                from: z.string().optional().describe("Source pointer for 'move' and 'copy'"),
+                value: z.any().optional(),
+            })).min(1).describe("JSON Patch (RFC 6902) operations, applied all or nothing"),
+        },
+        async ({ project_id, category, key, patch }) => {
+            try {
+                authorize('write', project_id);
+                logger.info(`Patching structured memory`, { project_id, category, key });
+                const current = await storage.getStructuredMemory(project_id, category, key);
+                if (!current) throw new NotFoundError(`Structured memory ${category}.${key} not found in project ${project_id}`);
+
+                for (const [i, operation] of patch.entries()) {
+                    if ((operation.op === 'move' || operation.op === 'copy') && operation.from === undefined) {
+                        throw new InvalidRequestError(`Patch operation ${i} (${operation.op}) needs 'from'`);
+                    }
+                    if (['add', 'replace', 'test'].includes(operation.op) && !('value' in operation)) {
+                        throw new InvalidRequestError(`Patch operation ${i} (${operation.op}) needs 'value'`);
+                    }
+                }
+
+                const value = applyJsonPatch(current.value, patch as JsonPatchOperation[]);
+                await checkStructuredValue(project_id, category, value);
+                await storage.setStructuredMemory({
+                    project_id,
+                    category,
+                    key,
+                    value,
+                    description: current.description ?? undefined,
+                });
+
+                return { content: [{ type: "text", text: JSON.stringify({ success: true, value }, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to patch structured memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_structured_memory_history",
+        {
+            project_id: z.string(),
+            category: z.string(),
+            key: z.string(),
+            limit: z.number().min(1).max(100).optional().default(20),
+        },
+        async ({ project_id, category, key, limit }) => {
+            try {
+                authorize('read', project_id);
+                const history = await storage.listStructuredMemoryHistory(project_id, category, key, limit);
+                return { content: [{ type: "text", text: JSON.stringify({ count: history.length, history }, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get structured memory history`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "set_structured_memory_schema",
+        {
+            project_id: z.string(),
+            category: z.string(),
+            schema: z.record(z.unknown()).nullable().describe("JSON Schema every value in the category must match (null removes it)"),
+        },
+        async ({ project_id, category, schema }) => {
+            try {
+                authorize('write', project_id);
+                logger.info(`Setting structured memory schema`, { project_id, category });
+                if (!schema) {
+                    await storage.setStructuredMemorySchema(project_id, category, null);
+                    return { content: [{ type: "text", text: `Schema removed for ${category}` }] };
+                }
+
+                checkSchema(schema);
+                await storage.setStructuredMemorySchema(project_id, category, schema);
+
+                // Existing values are kept, but reported so they can be fixed
+                const invalid = (await storage.listStructuredMemories(project_id, category))
+                    .map(item => ({ key: item.key, errors: validateValue(schema, item.value) }))
+                    .filter(item => item.errors.length > 0);
+
+                return { content: [{ type: "text", text: JSON.stringify({ success: true, invalid_existing: invalid }, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to set structured memory schema`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_structured_memory_schema",
+        {
+            project_id: z.string(),
+            category: z.string(),
+        },
+        async ({ project_id, category }) => {
+            try {
+                authorize('read', project_id);
+                const schema = await storage.getStructuredMemorySchema(project_id, category);
+
+                if (!schema) return { content: [{ type: "text", text: "No schema registered" }] };
+                return { content: [{ type: "text", text: JSON.stringify(schema, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get structured memory schema`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    // ══════════════════════════════════════════════════════════════════════════════
+    // 4. SHORT-TERM MEMORY TOOLS
+    // ══════════════════════════════════════════════════════════════════════════════
+
+    server.tool(
+        "set_short_term_memory",
+        {
+            session_id: z.string().describe("Current user session ID"),
+            key: z.string(),
+            value: z.any(),
+            ttl_seconds: z.number().positive().optional().describe("Time to live in seconds (optional)"),
+            sliding: z.boolean().optional().describe("Restart the TTL on every read (default: server setting, normally true)"),
+        },
+        async ({ session_id, key, value, ttl_seconds, sliding }) => {
+            try {
+                await authorizeSession('write', session_id);
+                await storage.setShortTermMemory({
+                    session_id,
+                    key,
+                    owner_id: options.identity?.id ?? null,
+                    value,
+                    expires_at: expiresAt(ttl_seconds ?? null),
+                    ttl_seconds: ttl_seconds ?? null,
+                    sliding: sliding ?? options.shortTerm?.sliding ?? true,
+                });
+                return { content: [{ type: "text", text: `Short-term memory set: ${key}` }] };
+            } catch (error) {
+                logger.error(`Failed to set short-term memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_short_term_memory",
+        {
+            session_id: z.string(),
+            key: z.string(),
+        },
+        async ({ session_id, key }) => {
+            try {
+                await authorizeSession('read', session_id);
+                // Check for expiration
+                const data = await storage.getShortTermMemory(session_id, key);
+
+                if (!data) return { content: [{ type: "text", text: "null" }] };
+
+                if (data.expires_at && new Date(data.expires_at) < new Date()) {
+                    // Expired, delete it lazily
+                    await storage.deleteShortTermMemory(session_id, key);
+                    return { content: [{ type: "text", text: "null (expired)" }] };
+                }
+
+                if (data.sliding && data.ttl_seconds) {
+                    await storage.refreshShortTermMemory(session_id, key, expiresAt(data.ttl_seconds)!);
+                }
+
+                return { content: [{ type: "text", text: JSON.stringify(data.value, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get short-term memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "list_short_term_memories",
+        {
+            session_id: z.string(),
+        },
+        async ({ session_id }) => {
+            try {
+                await authorizeSession('read', session_id);
+                const entries = await storage.listShortTermMemories(session_id);
+                return { content: [{ type: "text", text: JSON.stringify({ count: entries.length, entries }, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to list short-term memories`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "clear_short_term_session",
+        {
+            session_id: z.string(),
+        },
+        async ({ session_id }) => {
+            try {
+                await authorizeSession('write', session_id);
+                const deleted = await storage.clearShortTermSession(session_id);
+                return { content: [{ type: "text", text: `Cleared ${deleted} short-term memories from session ${session_id}` }] };
+            } catch (error) {
+                logger.error(`Failed to clear short-term session`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "promote_short_term_memory",
+        {
+            session_id: z.string(),
+            key: z.string(),
+            project_id: z.string().describe("Project to store the memory in"),
+            category: z.string(),
+            content: z.string().optional().describe("Memory text (default: the entry's value, as JSON unless it is a string)"),
+            type: z.enum(['episodic', 'insight', 'procedure']).optional().default('episodic'),
+            importance: z.number().min(1).max(5).optional().default(1),
+            metadata: z.record(z.unknown()).optional(),
+            keep: z.boolean().optional().default(false).describe("Keep the short-term entry after promoting it"),
+        },
+        async ({ session_id, key, project_id, category, content, type, importance, metadata, keep }) => {
+            try {
+                authorize('write', project_id);
+                await authorizeSession('write', session_id);
+                const data = await storage.getShortTermMemory(session_id, key);
+                if (!data || (data.expires_at && new Date(data.expires_at) < new Date())) {
+                    throw new NotFoundError(`Short-term memory ${key} not found in session ${session_id}`);
+                }
+
+                const text = content ?? (typeof data.value === 'string' ? data.value : JSON.stringify(data.value));
+                const { model, dimension } = getEmbeddingModel();
+                const memory = await storage.insertMemory({
+                    project_id,
+                    category,
+                    content: text,
+                    embedding: await getEmbedding(text),
+                    embedding_model: model,
+                    embedding_dimension: dimension,
+                    type,
+                    importance,
+                    metadata: { ...metadata, promoted_from: { session_id, key } },
+                });
+
+                if (!keep) await storage.deleteShortTermMemory(session_id, key);
+                logger.info(`Promoted short-term memory`, { session_id, key, memory_id: memory.id });
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({ success: true, memory_id: memory.id, kept: keep }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to promote short-term memory`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    // ══════════════════════════════════════════════════════════════════════════════
+    // UTILITY TOOLS
+    // ══════════════════════════════════════════════════════════════════════════════
+
+    server.tool(
+        "list_memories",
+        {
+            project_id: z.string(),
+            category: z.string().optional(),
+            filter: filterSchema.optional(),
+            sort: z.enum(['created_at', 'updated_at', 'importance', 'access_count']).optional().default('created_at'),
+            order: z.enum(['asc', 'desc']).optional().default('desc'),
+            limit: z.number().min(1).max(100).optional().default(20),
+            cursor: z.string().optional().describe("next_cursor from the previous page (same sort and order)"),
+        },
+        async ({ project_id, category, filter, sort, order, limit, cursor }) => {
+            try {
+                authorize('read', project_id);
+                const data = await storage.listMemories({ project_id, category, filter, sort, order, limit, cursor });
+                return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+            } catch (error) {
+                logger.error("Failed to list memories", error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "delete_memory",
+        { memory_id: z.string(), project_id: z.string() },
+        async ({ memory_id, project_id }) => {
+            try {
+                authorize('delete', project_id);
+                await storage.deleteMemory(memory_id, project_id);
+                return { content: [{ type: "text", text: "Memory deleted" }] };
+            } catch (error) {
+                logger.error(`Failed to delete memory ${memory_id}`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "dedupe_project",
+        {
+            project_id: z.string(),
+            action: z.enum(['merge', 'link']).optional().default('merge').describe("'merge' folds duplicates into the kept memory and deletes them; 'link' only adds 'duplicates' relations"),
+            similarity_threshold: z.number().min(0).max(1).optional().describe("Similarity at or above which memories are duplicates (default 0.95)"),
+            dry_run: z.boolean().optional().default(true).describe("Only report duplicate clusters without changing anything"),
+        },
+        async ({ project_id, action, similarity_threshold, dry_run }) => {
+            try {
+                authorize(dry_run ? 'read' : 'write', project_id);
+                if (action === 'merge' && !dry_run) authorize('delete', project_id);
+                const threshold = similarity_threshold ?? options.dedupe?.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+                logger.info(`Deduplicating project ${project_id}`, { action, threshold, dry_run });
+
+                const pairs = await storage.findDuplicateMemories({
+                    project_id,
+                    embedding_model: getEmbeddingModel().model,
+                    threshold,
+                });
+
+                const ids = [...new Set(pairs.flatMap(p => [p.memory_id, p.duplicate_id]))];
+                const memories = new Map<string, MemoryRecord>();
+                for (const id of ids) {
+                    const memory = await storage.getMemory(id, project_id);
+                    if (memory) memories.set(id, memory);
+                }
+
+                const clusters = clusterDuplicates(pairs, memories);
+                let processed = 0;
+
+                if (!dry_run) {
+                    for (const { keep, duplicates } of clusters) {
+                        for (const duplicate of duplicates) {
+                            if (action === 'merge') {
+                                await storage.mergeMemories(keep.id, duplicate.id, project_id);
+                            } else {
+                                await storage.createRelation({ source_id: duplicate.id, target_id: keep.id, relation_type: DUPLICATE_RELATION })
+                                    .catch((error) => logger.warn(`Could not link duplicate ${duplicate.id}`, { error: String(error) }));
+                            }
+                            processed++;
+                        }
+                    }
+                }
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({
+                            success: true,
+                            dry_run,
+                            action,
+                            clusters: clusters.map(c => ({
+                                keep: { id: c.keep.id, content: c.keep.content },
+                                duplicates: c.duplicates.map(d => ({ id: d.id, content: d.content })),
+                            })),
+                            duplicates_found: clusters.reduce((sum, c) => sum + c.duplicates.length, 0),
+                            duplicates_processed: processed,
+                        }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to dedupe project ${project_id}`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_project_stats",
+        {
+            project_id: z.string(),
+            bucket: z.enum(['day', 'week', 'month']).optional().default('month').describe("Width of the growth-over-time buckets"),
+            bucket_count: z.number().int().min(1).max(366).optional().default(DEFAULT_GROWTH_BUCKET_COUNT).describe("Growth buckets reported, ending with the current one"),
+            top_accessed: z.number().int().min(0).max(100).optional().default(DEFAULT_TOP_ACCESSED).describe("Most-accessed memories listed"),
+        },
+        async ({ project_id, bucket, bucket_count, top_accessed }) => {
+            try {
+                authorize('read', project_id);
+                const report = await buildProjectReport(storage, project_id, {
+                    bucket,
+                    bucketCount: bucket_count,
+                    topCount: top_accessed,
+                });
+                return { content: [{ type: "text", text: JSON.stringify(report, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get stats for ${project_id}`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_embedding_stats",
+        {},
+        async () => {
+            try {
+                return { content: [{ type: "text", text: JSON.stringify(getEmbeddingStats(), null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get embedding stats`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "get_server_metrics",
+        {},
+        async () => {
+            try {
+                return { content: [{ type: "text", text: JSON.stringify(getServerMetrics(), null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to get server metrics`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "export_project",
+        {
+            project_id: z.string(),
+            path: z.string().describe("Archive file to write on the machine running the server (.jsonl, or .jsonl.gz to compress)"),
+            include_embeddings: z.boolean().optional().default(false).describe("Include vectors so an import with the same model skips re-embedding"),
+        },
+        async ({ project_id, path, include_embeddings }) => {
+            try {
+                authorize('read', project_id);
+                logger.info(`Exporting project ${project_id}`, { path, include_embeddings });
+                const target = await resolveToolPath(path, options.files);
+                const archive = await exportProject(storage, project_id, include_embeddings);
+                await writeArchive(target, archive);
+
+                return {
+                    content: [{
+                        type: "text",
+                        text: JSON.stringify({
+                            success: true,
+                            path,
+                            memories: archive.memories.length,
+                            relations: archive.relations.length,
+                            structured_memories: archive.structured_memories.length,
+                        }, null, 2),
+                    }],
+                };
+            } catch (error) {
+                logger.error(`Failed to export project ${project_id}`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    server.tool(
+        "import_project",
+        {
+            path: z.string().describe("Archive file written by export_project"),
+            project_id: z.string().optional().describe("Project to import into (default: the archived project; required with access control)"),
+            on_conflict: z.enum(['skip', 'overwrite', 'new_ids']).optional().default('skip').describe("For memory IDs that already exist in the target project: keep the existing memory, overwrite it, or import everything under new IDs (IDs used by other projects always get new IDs)"),
+        },
+        async ({ path, project_id, on_conflict }) => {
+            try {
+                // The archive is only read once the caller may write to the target project
+                if (options.identity && !project_id) throw new InvalidRequestError('project_id is required when access control is enabled');
+                if (project_id) {
+                    authorize('write', project_id);
+                    if (on_conflict === 'overwrite') authorize('delete', project_id);
+                }
+                const archive = await readArchive(await resolveToolPath(path, options.files));
+                logger.info(`Importing project archive`, { path, project_id: project_id ?? archive.header.project_id, on_conflict });
+                const summary = await importProject(storage, archive, { projectId: project_id, onConflict: on_conflict });
+
+                return { content: [{ type: "text", text: JSON.stringify({ success: true, ...summary }, null, 2) }] };
+            } catch (error) {
+                logger.error(`Failed to import project archive ${path}`, error);
+                return errorResult(error);
+            }
+        }
+    );
+
+    return server;
+}
@@ -0,0 +1,50 @@
+/**
+ * Short-term memory lifecycle: expiry times and the background sweeper
+ * that purges expired session entries
+ */
+
+import { logger } from './logger.js';
+import type { MemoryStorage } from './storage/index.js';
+
+export interface ShortTermConfig {
+    /** Seconds between sweeps of expired entries (default: 300, 0 disables the sweeper) */
+    sweepIntervalSeconds?: number;
+    /** Whether entries with a TTL are refreshed on read unless set otherwise (default: true) */
+    sliding?: boolean;
+}
+
+export const DEFAULT_SWEEP_INTERVAL_SECONDS = 300;
+
+export function expiresAt(ttlSeconds: number | null, now = Date.now()): string | null {
+    return ttlSeconds ? new Date(now + ttlSeconds * 1000).toISOString() : null;
+}
+
+/**
+ * Purge expired entries on an interval; returns a function that stops the sweeper
+ */
+export function startShortTermSweeper(storage: MemoryStorage, config: ShortTermConfig | undefined): () => void {
+    const intervalSeconds = config?.sweepIntervalSeconds ?? DEFAULT_SWEEP_INTERVAL_SECONDS;
+    if (intervalSeconds <= 0) return () => {};
+
+    let running = false;
+    const sweep = async () => {
+        // A slow sweep is never overlapped by the next one
+        if (running) return;
+        running = true;
+        try {
+            const purged = await storage.purgeExpiredShortTermMemories();
+            if (purged > 0) logger.info(`Purged ${purged} expired short-term memories`);
+        } catch (error) {
+            logger.warn("Short-term memory sweep failed", { error: String(error) });
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(sweep, intervalSeconds * 1000);
+    // The sweeper alone must not keep the process alive
+    timer.unref();
+    void sweep();
+
+    return () => clearInterval(timer);
+}
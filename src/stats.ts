@@ -0,0 +1,51 @@
+/**
+ * Project statistics: the storage breakdowns plus embedding coverage and the
+ * models in use, shared by the get_project_stats tool and the report command
+ */
+
+import { getEmbeddingModel } from './embedding.js';
+import type { EmbeddingModelStats, GrowthBucket, MemoryStorage, ProjectStats } from './storage/index.js';
+
+export const GROWTH_BUCKETS: GrowthBucket[] = ['day', 'week', 'month'];
+export const DEFAULT_GROWTH_BUCKET_COUNT = 12;
+export const DEFAULT_TOP_ACCESSED = 10;
+
+export interface ProjectReportOptions {
+    /** Growth bucket width (default: 'month') */
+    bucket?: GrowthBucket;
+    /** Growth buckets reported, ending with the current one (default: 12) */
+    bucketCount?: number;
+    /** Most-accessed memories listed (default: 10) */
+    topCount?: number;
+}
+
+export interface ProjectReport extends ProjectStats {
+    project_id: string;
+    /** Share of memories that have an embedding (1 for an empty project) */
+    embedding_coverage: number;
+    active_embedding_model: string;
+    embedding_models: EmbeddingModelStats[];
+    mixed_embedding_models: boolean;
+}
+
+export async function buildProjectReport(storage: MemoryStorage, projectId: string, options: ProjectReportOptions = {}): Promise<ProjectReport> {
+    const [stats, embeddingModels] = await Promise.all([
+        storage.getProjectStats({
+            project_id: projectId,
+            bucket: options.bucket ?? 'month',
+            bucket_count: options.bucketCount ?? DEFAULT_GROWTH_BUCKET_COUNT,
+            top_count: options.topCount ?? DEFAULT_TOP_ACCESSED,
+        }),
+        storage.getEmbeddingModelStats(projectId),
+    ]);
+
+    const embedded = stats.total_memories - stats.missing_embeddings;
+    return {
+        project_id: projectId,
+        ...stats,
+        embedding_coverage: stats.total_memories > 0 ? embedded / stats.total_memories : 1,
+        active_embedding_model: getEmbeddingModel().model,
+        embedding_models: embeddingModels,
+        mixed_embedding_models: embeddingModels.length > 1,
+    };
+}
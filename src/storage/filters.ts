@@ -0,0 +1,76 @@
+/**
+ * Search filters and listing cursors shared by the storage backends
+ * (the Supabase backend applies the filters in SQL, the local one with matchesFilter)
+ */
+
+import { InvalidRequestError } from '../errors.js';
+import type { MemoryFilter, MemorySortField, SortOrder } from './types.js';
+
+interface CursorPosition {
+    sort: MemorySortField;
+    order: SortOrder;
+    /** Sort value and ID of the last memory on the previous page */
+    value: string | number;
+    id: string;
+}
+
+/**
+ * Opaque keyset cursor: the position after which the next page starts
+ */
+export function encodeCursor(position: CursorPosition): string {
+    return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: MemorySortField, order: SortOrder): CursorPosition {
+    let position: CursorPosition;
+    try {
+        position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+        throw new InvalidRequestError('Invalid cursor');
+    }
+    if (typeof position?.id !== 'string' || (typeof position.value !== 'string' && typeof position.value !== 'number')) {
+        throw new InvalidRequestError('Invalid cursor');
+    }
+    if (position.sort !== sort || position.order !== order) {
+        throw new InvalidRequestError(`Cursor was created for sort=${position.sort} order=${position.order}; repeat the listing with those options`);
+    }
+    return position;
+}
+
+/**
+ * JSONB containment (`container @> contained`): objects must contain every key
+ * of the other, arrays every element (in any position), scalars must be equal
+ */
+export function jsonContains(container: unknown, contained: unknown): boolean {
+    if (Array.isArray(contained)) {
+        if (!Array.isArray(container)) return false;
+        return contained.every(item => container.some(candidate => jsonContains(candidate, item)));
+    }
+    if (contained !== null && typeof contained === 'object') {
+        if (container === null || typeof container !== 'object' || Array.isArray(container)) return false;
+        const record = container as Record<string, unknown>;
+        return Object.entries(contained).every(([key, value]) => key in record && jsonContains(record[key], value));
+    }
+    return container === contained;
+}
+
+/**
+ * Whether a memory passes every condition of the filter
+ */
+export function matchesFilter(
+    memory: { type: string; importance: number; metadata: Record<string, unknown>; created_at: string; updated_at: string },
+    filter: MemoryFilter | undefined
+): boolean {
+    if (!filter) return true;
+
+    const created = Date.parse(memory.created_at);
+    const updated = Date.parse(memory.updated_at);
+
+    return (!filter.types || filter.types.includes(memory.type))
+        && (filter.min_importance === undefined || memory.importance >= filter.min_importance)
+        && (!filter.metadata || jsonContains(memory.metadata, filter.metadata))
+        && (!filter.created_after || created >= Date.parse(filter.created_after))
+        && (!filter.created_before || created < Date.parse(filter.created_before))
+        && (!filter.updated_after || updated >= Date.parse(filter.updated_after))
+        && (!filter.updated_before || updated < Date.parse(filter.updated_before));
+}
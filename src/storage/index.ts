@@ -0,0 +1,23 @@
+/**
+ * Storage backend selection
+ */
+
+import { getLocalStorePath, type SupabaseConfig } from '../config.js';
+import { LocalStorage } from './local.js';
+import { SupabaseStorage } from './supabase.js';
+import type { MemoryStorage } from './types.js';
+import { withResilience } from '../resilience.js';
+
+export type * from './types.js';
+export { LocalStorage } from './local.js';
+export { SupabaseStorage } from './supabase.js';
+
+/**
+ * Create the storage adapter named by the configuration
+ */
+export function createStorage(config: SupabaseConfig): MemoryStorage {
+    if (config.storage === 'local') {
+        return new LocalStorage(getLocalStorePath(config));
+    }
+    return withResilience(new SupabaseStorage(config), config.resilience);
+}
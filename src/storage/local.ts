@@ -0,0 +1,1141 @@
+/**
+ * Local file-based storage adapter
+ * Keeps every memory layer in a single JSON file and runs brute-force cosine
+ * search in-process, so the server works offline and without a Supabase project
+ */
+
+import { existsSync, mkdirSync } from 'fs';
+import { readFile, writeFile, rename } from 'fs/promises';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+import type {
+    MemoryStorage,
+    MemoryRecord,
+    NewMemory,
+    MemoryPatch,
+    MemoryRevision,
+    MatchMemoriesParams,
+    MemoryMatch,
+    HybridSearchParams,
+    HybridMatch,
+    EmbeddingModelStats,
+    ProjectStatsParams,
+    ProjectStats,
+    GrowthBucket,
+    GrowthPoint,
+    FindDuplicatesParams,
+    DuplicatePair,
+    ReembedStore,
+    ReembedProgress,
+    ReembedCandidate,
+    ReembedSwapResult,
+    ListMemoriesParams,
+    MemoryPage,
+    NewRelation,
+    RelationRecord,
+    ListRelationsParams,
+    DeleteRelationsParams,
+    RelatedMemory,
+    TraversalDirection,
+    TraverseGraphParams,
+    TraversedMemory,
+    FindPathParams,
+    PathStep,
+    StructuredMemoryInput,
+    StructuredMemoryValue,
+    ShortTermMemoryInput,
+    ShortTermMemoryValue,
+    ShortTermMemoryEntry,
+    MemorySnapshot,
+    RelationSnapshot,
+    StructuredMemorySnapshot,
+    StructuredMemoryRecord,
+    StructuredMemoryChange,
+} from './types.js';
+import { cosineSimilarity, bm25Scores, rrfScore, scoreMemory, DEFAULT_SCORING } from './ranking.js';
+import { decodeCursor, encodeCursor, matchesFilter } from './filters.js';
+import { mergeDuplicateMetadata } from '../dedupe.js';
+import { InvalidRequestError, NotFoundError } from '../errors.js';
+
+interface StoredMemory extends MemoryRecord {
+    embedding: number[];
+    /** Staged by a re-embedding run until it is swapped in */
+    embedding_next?: number[];
+    embedding_next_model?: string;
+}
+
+interface StoredRelation extends NewRelation {
+    id: string;
+    weight: number;
+    metadata: Record<string, unknown>;
+    created_at: string;
+}
+
+interface GraphEdge {
+    to: string;
+    relation_type: string;
+    direction: 'outgoing' | 'incoming';
+}
+
+/**
+ * Adjacency lists for walking relations in the requested direction(s)
+ */
+function buildAdjacency(relations: StoredRelation[], relationTypes: string[] | undefined, direction: TraversalDirection) {
+    const adjacency = new Map<string, GraphEdge[]>();
+    const add = (from: string, edge: GraphEdge) => {
+        const edges = adjacency.get(from) ?? [];
+        edges.push(edge);
+        adjacency.set(from, edges);
+    };
+
+    for (const r of relations) {
+        if (relationTypes && !relationTypes.includes(r.relation_type)) continue;
+        if (direction !== 'incoming') add(r.source_id, { to: r.target_id, relation_type: r.relation_type, direction: 'outgoing' });
+        if (direction !== 'outgoing') add(r.target_id, { to: r.source_id, relation_type: r.relation_type, direction: 'incoming' });
+    }
+    return adjacency;
+}
+
+interface StoredStructuredMemory {
+    id: string;
+    project_id: string;
+    category: string;
+    key: string;
+    value: unknown;
+    description: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+interface StoredStructuredSchema {
+    project_id: string;
+    category: string;
+    schema: Record<string, unknown>;
+    created_at: string;
+    updated_at: string;
+}
+
+interface StoredShortTermMemory {
+    id: string;
+    session_id: string;
+    key: string;
+    owner_id: string | null;
+    value: unknown;
+    created_at: string;
+    expires_at: string | null;
+    ttl_seconds: number | null;
+    sliding: boolean;
+}
+
+/**
+ * Start of the UTC day, week (Monday) or month containing a time,
+ * matching Postgres date_trunc
+ */
+function bucketStart(time: number, bucket: GrowthBucket): Date {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    if (bucket === 'month') return new Date(Date.UTC(year, month, 1));
+    if (bucket === 'week') return new Date(Date.UTC(year, month, day - (date.getUTCDay() + 6) % 7));
+    return new Date(Date.UTC(year, month, day));
+}
+
+function addBuckets(start: Date, bucket: GrowthBucket, count: number): Date {
+    const next = new Date(start);
+    if (bucket === 'month') next.setUTCMonth(next.getUTCMonth() + count);
+    else next.setUTCDate(next.getUTCDate() + count * (bucket === 'week' ? 7 : 1));
+    return next;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const item of items) {
+        const k = key(item);
+        counts[k] = (counts[k] ?? 0) + 1;
+    }
+    return counts;
+}
+
+interface LocalStoreFile {
+    version: number;
+    memories: StoredMemory[];
+    memory_relations: StoredRelation[];
+    memory_revisions: MemoryRevision[];
+    structured_memories: StoredStructuredMemory[];
+    structured_memory_schemas: StoredStructuredSchema[];
+    structured_memory_history: StructuredMemoryChange[];
+    short_term_memory: StoredShortTermMemory[];
+}
+
+const STORE_VERSION = 1;
+
+/** Model used for every memory written before the model was recorded */
+const LEGACY_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+function emptyStore(): LocalStoreFile {
+    return {
+        version: STORE_VERSION,
+        memories: [],
+        memory_relations: [],
+        memory_revisions: [],
+        structured_memories: [],
+        structured_memory_schemas: [],
+        structured_memory_history: [],
+        short_term_memory: [],
+    };
+}
+
+/**
+ * Strip the stored vectors from a memory
+ */
+function toRecord(m: StoredMemory): MemoryRecord {
+    const { embedding, embedding_next, embedding_next_model, ...record } = m;
+    return record;
+}
+
+/**
+ * Previous value of a structured memory (mirrors the record_structured_memory_history trigger)
+ */
+function structuredChange(row: StoredStructuredMemory, operation: StructuredMemoryChange['operation']): StructuredMemoryChange {
+    return {
+        id: randomUUID(),
+        project_id: row.project_id,
+        category: row.category,
+        key: row.key,
+        value: row.value,
+        description: row.description,
+        operation,
+        created_at: new Date().toISOString(),
+    };
+}
+
+/** Fields whose change records a revision (mirrors the record_memory_revision trigger) */
+const REVISED_FIELDS = ['content', 'category', 'type', 'importance', 'metadata'] as const;
+
+export class LocalStorage implements MemoryStorage, ReembedStore {
+    readonly backend = 'local' as const;
+    private readonly filePath: string;
+    private store: LocalStoreFile | null = null;
+    // Shared by concurrent first calls, so they all mutate the same store
+    private loading: Promise<LocalStoreFile> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async ping() {
+        await this.load();
+    }
+
+    private load(): Promise<LocalStoreFile> {
+        this.loading ??= this.readStore();
+        // A failed read is retried by the next call
+        this.loading.catch(() => { this.loading = null; });
+        return this.loading;
+    }
+
+    private async readStore(): Promise<LocalStoreFile> {
+        if (!existsSync(this.filePath)) {
+            this.store = emptyStore();
+            return this.store;
+        }
+
+        const content = await readFile(this.filePath, 'utf-8');
+        this.store = { ...emptyStore(), ...(JSON.parse(content) as Partial<LocalStoreFile>) };
+        for (const m of this.store.memories) {
+            m.embedding_model ??= LEGACY_EMBEDDING_MODEL;
+            m.embedding_dimension ??= m.embedding.length;
+            m.last_accessed_at ??= null;
+            m.access_count ??= 0;
+        }
+        for (const r of this.store.memory_relations) {
+            r.weight ??= 1;
+            r.metadata ??= {};
+        }
+        for (const s of this.store.short_term_memory) {
+            s.ttl_seconds ??= null;
+            s.sliding ??= false;
+            s.owner_id ??= null;
+        }
+        return this.store;
+    }
+
+    /**
+     * Persist the store atomically (write to a temp file, then rename).
+     * Writes are queued so concurrent tool calls never interleave.
+     */
+    private persist(): Promise<void> {
+        const snapshot = JSON.stringify(this.store);
+        const write = this.writeQueue.then(async () => {
+            const dir = dirname(this.filePath);
+            if (!existsSync(dir)) {
+                mkdirSync(dir, { recursive: true });
+            }
+            const tmpPath = `${this.filePath}.tmp`;
+            await writeFile(tmpPath, snapshot, { mode: 0o600 });
+            await rename(tmpPath, this.filePath);
+        });
+        // The failure goes to this caller only; later writes still run
+        this.writeQueue = write.catch(() => { });
+        return write;
+    }
+
+    async insertMemory(memory: NewMemory) {
+        const [inserted] = await this.insertMemories([memory]);
+        return inserted;
+    }
+
+    async insertMemories(memories: NewMemory[]) {
+        const store = await this.load();
+        const now = new Date().toISOString();
+        const records: StoredMemory[] = memories.map(memory => ({
+            id: randomUUID(),
+            project_id: memory.project_id,
+            category: memory.category,
+            content: memory.content,
+            embedding: memory.embedding,
+            embedding_model: memory.embedding_model,
+            embedding_dimension: memory.embedding_dimension,
+            metadata: memory.metadata,
+            type: memory.type,
+            importance: memory.importance,
+            last_accessed_at: null,
+            access_count: 0,
+            created_at: now,
+            updated_at: now,
+        }));
+
+        store.memories.push(...records);
+        await this.persist();
+        return records.map(record => ({ id: record.id, created_at: record.created_at }));
+    }
+
+    async getMemory(memoryId: string, projectId: string): Promise<MemoryRecord | null> {
+        const store = await this.load();
+        const memory = store.memories.find(m => m.id === memoryId && m.project_id === projectId);
+        return memory ? toRecord(memory) : null;
+    }
+
+    async getMemoryProject(memoryId: string) {
+        const store = await this.load();
+        return store.memories.find(m => m.id === memoryId)?.project_id ?? null;
+    }
+
+    async updateMemory(memoryId: string, projectId: string, patch: MemoryPatch): Promise<MemoryRecord | null> {
+        const store = await this.load();
+        const memory = store.memories.find(m => m.id === memoryId && m.project_id === projectId);
+        if (!memory) return null;
+
+        const previous = toRecord(memory);
+
+        if (patch.content !== undefined) memory.content = patch.content;
+        if (patch.embedding !== undefined) memory.embedding = patch.embedding;
+        if (patch.embedding_model !== undefined) memory.embedding_model = patch.embedding_model;
+        if (patch.embedding_dimension !== undefined) memory.embedding_dimension = patch.embedding_dimension;
+        if (patch.category !== undefined) memory.category = patch.category;
+        if (patch.type !== undefined) memory.type = patch.type;
+        if (patch.importance !== undefined) memory.importance = patch.importance;
+        if (patch.metadata !== undefined) {
+            memory.metadata = patch.replace_metadata ? patch.metadata : { ...memory.metadata, ...patch.metadata };
+        }
+        memory.updated_at = new Date().toISOString();
+
+        const changed = REVISED_FIELDS.some(f => JSON.stringify(previous[f]) !== JSON.stringify(memory[f]));
+        if (changed) {
+            const revisions = store.memory_revisions.filter(r => r.memory_id === memoryId);
+            store.memory_revisions.push({
+                id: randomUUID(),
+                memory_id: memoryId,
+                project_id: projectId,
+                revision: Math.max(0, ...revisions.map(r => r.revision)) + 1,
+                category: previous.category,
+                content: previous.content,
+                type: previous.type,
+                importance: previous.importance,
+                metadata: previous.metadata,
+                created_at: memory.updated_at,
+            });
+        }
+
+        await this.persist();
+        return toRecord(memory);
+    }
+
+    async listMemoryRevisions(memoryId: string, projectId: string): Promise<MemoryRevision[]> {
+        const store = await this.load();
+        return store.memory_revisions
+            .filter(r => r.memory_id === memoryId && r.project_id === projectId)
+            .sort((a, b) => b.revision - a.revision);
+    }
+
+    async getMemoryRevision(memoryId: string, projectId: string, revision: number): Promise<MemoryRevision | null> {
+        const store = await this.load();
+        return store.memory_revisions.find(r =>
+            r.memory_id === memoryId && r.project_id === projectId && r.revision === revision
+        ) ?? null;
+    }
+
+    async matchMemories(params: MatchMemoriesParams): Promise<MemoryMatch[]> {
+        const store = await this.load();
+        const scoring = { ...DEFAULT_SCORING, ...params.scoring };
+
+        const projects = new Set([params.project_id, ...(params.extra_project_ids ?? [])]);
+
+        return store.memories
+            .filter(m => projects.has(m.project_id))
+            .filter(m => !params.category || m.category === params.category)
+            .filter(m => matchesFilter(m, params.filter))
+            .filter(m => m.embedding_model === params.embedding_model)
+            .map(m => ({ memory: m, similarity: cosineSimilarity(m.embedding, params.embedding) }))
+            .filter(m => m.similarity >= params.threshold)
+            .map(({ memory: m, similarity }) => ({
+                id: m.id,
+                project_id: m.project_id,
+                category: m.category,
+                content: m.content,
+                metadata: m.metadata,
+                type: m.type,
+                importance: m.importance,
+                created_at: m.created_at,
+                updated_at: m.updated_at,
+                last_accessed_at: m.last_accessed_at,
+                access_count: m.access_count,
+                ...scoreMemory(m, similarity, scoring),
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, params.count);
+    }
+
+    async hybridSearchMemories(params: HybridSearchParams): Promise<HybridMatch[]> {
+        const store = await this.load();
+        const projects = new Set([params.project_id, ...(params.extra_project_ids ?? [])]);
+        const candidates = store.memories
+            .filter(m => projects.has(m.project_id))
+            .filter(m => !params.category || m.category === params.category)
+            .filter(m => matchesFilter(m, params.filter));
+
+        // Each signal only contributes its top candidates, like the SQL CTEs
+        const poolSize = params.count * 4;
+        const vectorRanks = new Map<string, { similarity: number; rank: number }>();
+        const keywordRanks = new Map<string, { score: number; rank: number }>();
+
+        if (params.mode === 'hybrid') {
+            if (!params.embedding) throw new Error('Hybrid search requires a query embedding');
+            const embedding = params.embedding;
+            candidates
+                .filter(m => m.embedding_model === params.embedding_model)
+                .map(m => ({ id: m.id, similarity: cosineSimilarity(m.embedding, embedding) }))
+                .filter(m => m.similarity >= params.threshold)
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, poolSize)
+                .forEach((m, i) => vectorRanks.set(m.id, { similarity: m.similarity, rank: i + 1 }));
+        }
+
+        const keywordScores = bm25Scores(params.query, candidates.map(m => m.content));
+        candidates
+            .map((m, i) => ({ id: m.id, score: keywordScores[i] }))
+            .filter(m => m.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, poolSize)
+            .forEach((m, i) => keywordRanks.set(m.id, { score: m.score, rank: i + 1 }));
+
+        return candidates
+            .filter(m => vectorRanks.has(m.id) || keywordRanks.has(m.id))
+            .map(m => {
+                const vector = vectorRanks.get(m.id);
+                const keyword = keywordRanks.get(m.id);
+                return {
+                    id: m.id,
+                    project_id: m.project_id,
+                    category: m.category,
+                    content: m.content,
+                    metadata: m.metadata,
+                    type: m.type,
+                    importance: m.importance,
+                    created_at: m.created_at,
+                    similarity: vector?.similarity ?? null,
+                    keyword_score: keyword?.score ?? null,
+                    vector_rank: vector?.rank ?? null,
+                    keyword_rank: keyword?.rank ?? null,
+                    score: rrfScore(vector?.rank ?? null) + rrfScore(keyword?.rank ?? null),
+                };
+            })
+            .sort((a, b) => b.score - a.score)
+            .slice(0, params.count);
+    }
+
+    async listMemories(params: ListMemoriesParams): Promise<MemoryPage> {
+        const store = await this.load();
+        const { sort, order } = params;
+        const direction = order === 'asc' ? 1 : -1;
+
+        // Same keyset ordering as the Supabase backend: sort field, then ID
+        // (string sort values are timestamps, compared as instants)
+        const key = (value: string | number) => (typeof value === 'string' ? Date.parse(value) : value);
+        const compare = (a: { value: string | number; id: string }, b: { value: string | number; id: string }) => {
+            return direction * (key(a.value) - key(b.value) || a.id.localeCompare(b.id));
+        };
+        const after = params.cursor ? decodeCursor(params.cursor, sort, order) : null;
+
+        const sorted = store.memories
+            .filter(m => m.project_id === params.project_id)
+            .filter(m => !params.category || m.category === params.category)
+            .filter(m => matchesFilter(m, params.filter))
+            .map(m => ({ memory: m, value: m[sort], id: m.id }))
+            .filter(m => !after || compare(m, after) > 0)
+            .sort(compare);
+
+        const page = sorted.slice(0, params.limit);
+        const last = page[page.length - 1];
+
+        return {
+            memories: page.map(({ memory: { id, category, content, created_at, updated_at, type, importance, access_count } }) => (
+                { id, category, content, created_at, updated_at, type, importance, access_count }
+            )),
+            next_cursor: sorted.length > params.limit ? encodeCursor({ sort, order, value: last.value, id: last.id }) : null,
+        };
+    }
+
+    async deleteMemory(memoryId: string, projectId: string) {
+        const store = await this.load();
+        const before = store.memories.length;
+        store.memories = store.memories.filter(m => !(m.id === memoryId && m.project_id === projectId));
+
+        if (store.memories.length !== before) {
+            // ON DELETE CASCADE
+            store.memory_relations = store.memory_relations.filter(r => r.source_id !== memoryId && r.target_id !== memoryId);
+            store.memory_revisions = store.memory_revisions.filter(r => r.memory_id !== memoryId);
+            await this.persist();
+        }
+    }
+
+    async recordMemoryAccess(memoryIds: string[]) {
+        if (memoryIds.length === 0) return;
+        const store = await this.load();
+        const now = new Date().toISOString();
+        const ids = new Set(memoryIds);
+
+        for (const m of store.memories) {
+            if (!ids.has(m.id)) continue;
+            m.access_count++;
+            m.last_accessed_at = now;
+        }
+        await this.persist();
+    }
+
+    async findDuplicateMemories(params: FindDuplicatesParams): Promise<DuplicatePair[]> {
+        const store = await this.load();
+        const candidates = store.memories.filter(m =>
+            m.project_id === params.project_id && m.embedding_model === params.embedding_model
+        );
+        const pairs: DuplicatePair[] = [];
+
+        for (let i = 0; i < candidates.length; i++) {
+            for (let j = i + 1; j < candidates.length; j++) {
+                const similarity = cosineSimilarity(candidates[i].embedding, candidates[j].embedding);
+                if (similarity >= params.threshold) {
+                    pairs.push({ memory_id: candidates[i].id, duplicate_id: candidates[j].id, similarity });
+                }
+            }
+        }
+        return pairs;
+    }
+
+    async mergeMemories(keepId: string, duplicateId: string, projectId: string) {
+        const store = await this.load();
+        const keep = store.memories.find(m => m.id === keepId && m.project_id === projectId);
+        const duplicate = store.memories.find(m => m.id === duplicateId && m.project_id === projectId);
+        if (!keep) throw new NotFoundError(`Memory ${keepId} not found in project ${projectId}`);
+        if (!duplicate) throw new NotFoundError(`Memory ${duplicateId} not found in project ${projectId}`);
+
+        // Move edges over, skipping edges between the two and ones the kept memory already has
+        const pair = [keepId, duplicateId];
+        const moved: StoredRelation[] = [];
+        for (const r of store.memory_relations) {
+            if (r.source_id !== duplicateId && r.target_id !== duplicateId) continue;
+            if (pair.includes(r.source_id) && pair.includes(r.target_id)) continue;
+            moved.push({
+                ...r,
+                source_id: r.source_id === duplicateId ? keepId : r.source_id,
+                target_id: r.target_id === duplicateId ? keepId : r.target_id,
+            });
+        }
+        for (const r of moved) {
+            const exists = store.memory_relations.some(e =>
+                e.source_id === r.source_id && e.target_id === r.target_id && e.relation_type === r.relation_type
+            );
+            if (!exists) store.memory_relations.push({ ...r, id: randomUUID() });
+        }
+
+        await this.updateMemory(keepId, projectId, {
+            importance: Math.max(keep.importance, duplicate.importance),
+            metadata: mergeDuplicateMetadata(keep.metadata, duplicate.metadata),
+            replace_metadata: true,
+        });
+        await this.deleteMemory(duplicateId, projectId);
+    }
+
+    async countMemories(projectId: string) {
+        const store = await this.load();
+        return store.memories.filter(m => m.project_id === projectId).length;
+    }
+
+    async getEmbeddingModelStats(projectId?: string): Promise<EmbeddingModelStats[]> {
+        const store = await this.load();
+        const stats = new Map<string, EmbeddingModelStats>();
+
+        for (const m of store.memories) {
+            if (projectId && m.project_id !== projectId) continue;
+            const key = `${m.embedding_model}:${m.embedding_dimension}`;
+            const entry = stats.get(key) ?? { embedding_model: m.embedding_model, embedding_dimension: m.embedding_dimension, memory_count: 0 };
+            entry.memory_count++;
+            stats.set(key, entry);
+        }
+
+        return [...stats.values()].sort((a, b) => b.memory_count - a.memory_count);
+    }
+
+    async getProjectStats(params: ProjectStatsParams): Promise<ProjectStats> {
+        const store = await this.load();
+        const memories = store.memories.filter(m => m.project_id === params.project_id);
+        const ids = new Set(memories.map(m => m.id));
+        const relations = store.memory_relations.filter(r => ids.has(r.source_id));
+        const structured = store.structured_memories.filter(s => s.project_id === params.project_id);
+
+        const linked = new Set(relations.flatMap(r => [r.source_id, r.target_id]));
+        const created = memories.map(m => Date.parse(m.created_at)).sort((a, b) => a - b);
+
+        const current = bucketStart(Date.now(), params.bucket);
+        const growth: GrowthPoint[] = [];
+        for (let i = params.bucket_count - 1; i >= 0; i--) {
+            const start = addBuckets(current, params.bucket, -i).getTime();
+            const end = addBuckets(current, params.bucket, 1 - i).getTime();
+            growth.push({
+                bucket: new Date(start).toISOString().slice(0, 10),
+                created: created.filter(t => t >= start && t < end).length,
+                total: created.filter(t => t < end).length,
+            });
+        }
+
+        const mostAccessed = memories
+            .filter(m => m.access_count > 0)
+            .sort((a, b) => b.access_count - a.access_count || (b.last_accessed_at ?? '').localeCompare(a.last_accessed_at ?? ''))
+            .slice(0, params.top_count)
+            .map(m => ({
+                id: m.id,
+                category: m.category,
+                content: m.content,
+                access_count: m.access_count,
+                last_accessed_at: m.last_accessed_at,
+            }));
+
+        const bytes = (rows: unknown[]) => rows.reduce<number>((sum, row) => sum + Buffer.byteLength(JSON.stringify(row)), 0);
+
+        return {
+            total_memories: memories.length,
+            by_category: countBy(memories, m => m.category ?? 'uncategorized'),
+            by_type: countBy(memories, m => m.type),
+            by_importance: countBy(memories, m => String(m.importance)),
+            relations: relations.length,
+            relations_by_type: countBy(relations, r => r.relation_type),
+            orphaned_memories: memories.filter(m => !linked.has(m.id)).length,
+            structured_memories: structured.length,
+            structured_by_category: countBy(structured, s => s.category),
+            missing_embeddings: memories.filter(m => !m.embedding?.length).length,
+            storage_bytes: bytes(memories) + bytes(structured),
+            first_memory_at: created.length > 0 ? new Date(created[0]).toISOString() : null,
+            last_memory_at: created.length > 0 ? new Date(created[created.length - 1]).toISOString() : null,
+            growth,
+            most_accessed: mostAccessed,
+        };
+    }
+
+    async createRelation(relation: NewRelation) {
+        const store = await this.load();
+
+        const [source, target] = [relation.source_id, relation.target_id].map(id => {
+            const memory = store.memories.find(m => m.id === id);
+            if (!memory) throw new NotFoundError(`Memory not found: ${id}`);
+            return memory;
+        });
+        if (source.project_id !== target.project_id) {
+            throw new InvalidRequestError(`Cannot relate memories from different projects (${source.project_id}, ${target.project_id})`);
+        }
+
+        const duplicate = store.memory_relations.some(r =>
+            r.source_id === relation.source_id &&
+            r.target_id === relation.target_id &&
+            r.relation_type === relation.relation_type
+        );
+        if (duplicate) {
+            throw new InvalidRequestError(`Relation '${relation.relation_type}' already exists between ${relation.source_id} and ${relation.target_id}`);
+        }
+
+        store.memory_relations.push({
+            id: randomUUID(),
+            source_id: relation.source_id,
+            target_id: relation.target_id,
+            relation_type: relation.relation_type,
+            weight: relation.weight ?? 1,
+            metadata: relation.metadata ?? {},
+            created_at: new Date().toISOString(),
+        });
+        await this.persist();
+    }
+
+    async deleteRelations(params: DeleteRelationsParams) {
+        const store = await this.load();
+        const before = store.memory_relations.length;
+
+        store.memory_relations = store.memory_relations.filter(r => !(
+            r.source_id === params.source_id &&
+            r.target_id === params.target_id &&
+            (params.relation_type === undefined || r.relation_type === params.relation_type)
+        ));
+
+        const removed = before - store.memory_relations.length;
+        if (removed > 0) await this.persist();
+        return removed;
+    }
+
+    async listRelations(params: ListRelationsParams): Promise<RelationRecord[]> {
+        const store = await this.load();
+        const byId = new Map(store.memories.map(m => [m.id, m]));
+        const results: RelationRecord[] = [];
+
+        for (const r of store.memory_relations) {
+            const source = byId.get(r.source_id);
+            const target = byId.get(r.target_id);
+            if (!source || !target || source.project_id !== params.project_id) continue;
+            if (params.relation_type && r.relation_type !== params.relation_type) continue;
+            if (params.memory_id && r.source_id !== params.memory_id && r.target_id !== params.memory_id) continue;
+
+            results.push({ ...r, source_content: source.content, target_content: target.content });
+        }
+
+        return results
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+            .slice(0, params.limit);
+    }
+
+    async getRelatedMemories(memoryId: string): Promise<RelatedMemory[]> {
+        const store = await this.load();
+        const byId = new Map(store.memories.map(m => [m.id, m]));
+        const results: RelatedMemory[] = [];
+
+        for (const r of store.memory_relations) {
+            const direction = r.source_id === memoryId ? 'outgoing' : r.target_id === memoryId ? 'incoming' : null;
+            if (!direction) continue;
+
+            const other = byId.get(direction === 'outgoing' ? r.target_id : r.source_id);
+            if (!other) continue;
+
+            results.push({
+                relation_type: r.relation_type,
+                direction,
+                weight: r.weight,
+                memory_id: other.id,
+                category: other.category,
+                content: other.content,
+                type: other.type,
+            });
+        }
+
+        // Outgoing first, like the UNION ALL in get_related_memories
+        return results.sort((a, b) => (a.direction === b.direction ? 0 : a.direction === 'outgoing' ? -1 : 1));
+    }
+
+    async traverseMemoryGraph(params: TraverseGraphParams): Promise<TraversedMemory[]> {
+        const store = await this.load();
+        const byId = new Map(store.memories.map(m => [m.id, m]));
+        const adjacency = buildAdjacency(store.memory_relations, params.relation_types, params.direction);
+
+        // Breadth-first, so each memory is reported at its shallowest depth
+        const results: TraversedMemory[] = [];
+        const visited = new Set([params.start_id]);
+        let frontier = [{ id: params.start_id, path: [params.start_id] }];
+
+        for (let depth = 1; depth <= params.max_depth && frontier.length > 0; depth++) {
+            const next: typeof frontier = [];
+            for (const node of frontier) {
+                for (const edge of adjacency.get(node.id) ?? []) {
+                    const memory = byId.get(edge.to);
+                    if (visited.has(edge.to) || !memory) continue;
+                    visited.add(edge.to);
+
+                    const path = [...node.path, edge.to];
+                    next.push({ id: edge.to, path });
+                    results.push({
+                        memory_id: memory.id,
+                        depth,
+                        parent_id: node.id,
+                        relation_type: edge.relation_type,
+                        direction: edge.direction,
+                        path,
+                        category: memory.category,
+                        content: memory.content,
+                        type: memory.type,
+                    });
+                }
+            }
+            frontier = next;
+        }
+
+        return results.slice(0, params.limit);
+    }
+
+    async findMemoryPath(params: FindPathParams): Promise<PathStep[]> {
+        const store = await this.load();
+        const byId = new Map(store.memories.map(m => [m.id, m]));
+        if (!byId.has(params.source_id) || !byId.has(params.target_id)) return [];
+
+        const adjacency = buildAdjacency(store.memory_relations, params.relation_types, params.direction);
+        const cameFrom = new Map<string, { from: string; edge: GraphEdge } | null>([[params.source_id, null]]);
+        let frontier = [params.source_id];
+
+        for (let depth = 0; depth < params.max_depth && frontier.length > 0 && !cameFrom.has(params.target_id); depth++) {
+            const next: string[] = [];
+            for (const id of frontier) {
+                for (const edge of adjacency.get(id) ?? []) {
+                    if (cameFrom.has(edge.to) || !byId.has(edge.to)) continue;
+                    cameFrom.set(edge.to, { from: id, edge });
+                    next.push(edge.to);
+                }
+            }
+            frontier = next;
+        }
+
+        if (!cameFrom.has(params.target_id)) return [];
+
+        // Walk back from the target to recover the chain
+        const chain: { id: string; edge: GraphEdge | null }[] = [];
+        for (let id: string | undefined = params.target_id; id !== undefined;) {
+            const link = cameFrom.get(id);
+            chain.unshift({ id, edge: link?.edge ?? null });
+            id = link?.from;
+        }
+
+        return chain.map(({ id, edge }, step) => {
+            const memory = byId.get(id)!;
+            return {
+                step,
+                memory_id: id,
+                relation_type: edge?.relation_type ?? null,
+                direction: edge?.direction ?? null,
+                category: memory.category,
+                content: memory.content,
+                type: memory.type,
+            };
+        });
+    }
+
+    async setStructuredMemory(input: StructuredMemoryInput) {
+        const store = await this.load();
+        const now = new Date().toISOString();
+        const existing = store.structured_memories.find(s =>
+            s.project_id === input.project_id && s.category === input.category && s.key === input.key
+        );
+
+        if (existing) {
+            const description = input.description ?? null;
+            if (JSON.stringify(existing.value) !== JSON.stringify(input.value) || existing.description !== description) {
+                store.structured_memory_history.push(structuredChange(existing, 'update'));
+            }
+            existing.value = input.value;
+            existing.description = description;
+            existing.updated_at = now;
+        } else {
+            store.structured_memories.push({
+                id: randomUUID(),
+                project_id: input.project_id,
+                category: input.category,
+                key: input.key,
+                value: input.value,
+                description: input.description ?? null,
+                created_at: now,
+                updated_at: now,
+            });
+        }
+
+        await this.persist();
+    }
+
+    async getStructuredMemory(projectId: string, category: string, key: string): Promise<StructuredMemoryValue | null> {
+        const store = await this.load();
+        const row = store.structured_memories.find(s =>
+            s.project_id === projectId && s.category === category && s.key === key
+        );
+        return row ? { value: row.value, description: row.description } : null;
+    }
+
+    async listStructuredMemories(projectId: string, category?: string): Promise<StructuredMemoryRecord[]> {
+        const store = await this.load();
+        return store.structured_memories
+            .filter(s => s.project_id === projectId && (!category || s.category === category))
+            .sort((a, b) => a.category.localeCompare(b.category) || a.key.localeCompare(b.key))
+            .map(({ id, ...item }) => item);
+    }
+
+    async deleteStructuredMemory(projectId: string, category: string, key: string) {
+        const store = await this.load();
+        const row = store.structured_memories.find(s =>
+            s.project_id === projectId && s.category === category && s.key === key
+        );
+        if (!row) return false;
+
+        store.structured_memory_history.push(structuredChange(row, 'delete'));
+        store.structured_memories = store.structured_memories.filter(s => s !== row);
+        await this.persist();
+        return true;
+    }
+
+    async listStructuredMemoryHistory(projectId: string, category: string, key: string, limit: number): Promise<StructuredMemoryChange[]> {
+        const store = await this.load();
+        return store.structured_memory_history
+            .filter(h => h.project_id === projectId && h.category === category && h.key === key)
+            .reverse()
+            .slice(0, limit);
+    }
+
+    async getStructuredMemorySchema(projectId: string, category: string) {
+        const store = await this.load();
+        return store.structured_memory_schemas
+            .find(s => s.project_id === projectId && s.category === category)?.schema ?? null;
+    }
+
+    async setStructuredMemorySchema(projectId: string, category: string, schema: Record<string, unknown> | null) {
+        const store = await this.load();
+        const now = new Date().toISOString();
+        const existing = store.structured_memory_schemas.find(s => s.project_id === projectId && s.category === category);
+
+        if (!schema) {
+            store.structured_memory_schemas = store.structured_memory_schemas.filter(s => s !== existing);
+        } else if (existing) {
+            existing.schema = schema;
+            existing.updated_at = now;
+        } else {
+            store.structured_memory_schemas.push({ project_id: projectId, category, schema, created_at: now, updated_at: now });
+        }
+        await this.persist();
+    }
+
+    async setShortTermMemory(input: ShortTermMemoryInput) {
+        const store = await this.load();
+        const existing = store.short_term_memory.find(s => s.session_id === input.session_id && s.key === input.key);
+
+        if (existing) {
+            existing.value = input.value;
+            existing.expires_at = input.expires_at;
+            existing.ttl_seconds = input.ttl_seconds;
+            existing.sliding = input.sliding;
+        } else {
+            store.short_term_memory.push({
+                id: randomUUID(),
+                ...input,
+                created_at: new Date().toISOString(),
+            });
+        }
+
+        await this.persist();
+    }
+
+    async getShortTermMemory(sessionId: string, key: string): Promise<ShortTermMemoryValue | null> {
+        const store = await this.load();
+        const row = store.short_term_memory.find(s => s.session_id === sessionId && s.key === key);
+        return row ? { value: row.value, expires_at: row.expires_at, ttl_seconds: row.ttl_seconds, sliding: row.sliding } : null;
+    }
+
+    async deleteShortTermMemory(sessionId: string, key: string) {
+        const store = await this.load();
+        store.short_term_memory = store.short_term_memory.filter(s => !(s.session_id === sessionId && s.key === key));
+        await this.persist();
+    }
+
+    async refreshShortTermMemory(sessionId: string, key: string, expiresAt: string) {
+        const store = await this.load();
+        const row = store.short_term_memory.find(s => s.session_id === sessionId && s.key === key);
+        if (row) {
+            row.expires_at = expiresAt;
+            await this.persist();
+        }
+    }
+
+    async getShortTermSessionOwners(sessionId: string) {
+        const store = await this.load();
+        return [...new Set(store.short_term_memory.filter(s => s.session_id === sessionId).map(s => s.owner_id))];
+    }
+
+    async listShortTermMemories(sessionId: string): Promise<ShortTermMemoryEntry[]> {
+        const store = await this.load();
+        const now = Date.now();
+        return store.short_term_memory
+            .filter(s => s.session_id === sessionId && (!s.expires_at || Date.parse(s.expires_at) > now))
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map(({ key, value, expires_at, ttl_seconds, sliding, created_at }) => ({ key, value, expires_at, ttl_seconds, sliding, created_at }));
+    }
+
+    async clearShortTermSession(sessionId: string) {
+        const store = await this.load();
+        const before = store.short_term_memory.length;
+        store.short_term_memory = store.short_term_memory.filter(s => s.session_id !== sessionId);
+
+        const deleted = before - store.short_term_memory.length;
+        if (deleted > 0) await this.persist();
+        return deleted;
+    }
+
+    async purgeExpiredShortTermMemories() {
+        const store = await this.load();
+        const now = Date.now();
+        const before = store.short_term_memory.length;
+        store.short_term_memory = store.short_term_memory.filter(s => !s.expires_at || Date.parse(s.expires_at) > now);
+
+        const deleted = before - store.short_term_memory.length;
+        if (deleted > 0) await this.persist();
+        return deleted;
+    }
+
+    async exportMemories(projectId: string, includeEmbeddings: boolean): Promise<MemorySnapshot[]> {
+        const store = await this.load();
+        return store.memories
+            .filter(m => m.project_id === projectId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map(m => includeEmbeddings ? { ...toRecord(m), embedding: m.embedding } : toRecord(m));
+    }
+
+    async exportRelations(memoryIds: string[]): Promise<RelationSnapshot[]> {
+        const store = await this.load();
+        const ids = new Set(memoryIds);
+        return store.memory_relations
+            .filter(r => ids.has(r.source_id))
+            .map(({ id, ...relation }) => relation);
+    }
+
+    async exportStructuredMemories(projectId: string): Promise<StructuredMemorySnapshot[]> {
+        const store = await this.load();
+        return store.structured_memories
+            .filter(s => s.project_id === projectId)
+            .map(({ id, project_id, ...item }) => item);
+    }
+
+    async existingMemoryIds(memoryIds: string[]) {
+        const store = await this.load();
+        const ids = new Set(memoryIds);
+        return store.memories.filter(m => ids.has(m.id)).map(m => ({ id: m.id, project_id: m.project_id }));
+    }
+
+    async restoreMemories(memories: Required<MemorySnapshot>[], overwrite: boolean) {
+        const store = await this.load();
+
+        for (const memory of memories) {
+            const index = store.memories.findIndex(m => m.id === memory.id);
+            if (index < 0) {
+                store.memories.push({ ...memory });
+            } else if (overwrite) {
+                store.memories[index] = { ...memory };
+            }
+        }
+        await this.persist();
+    }
+
+    async restoreRelations(relations: RelationSnapshot[]) {
+        const store = await this.load();
+
+        for (const relation of relations) {
+            const exists = store.memory_relations.some(r =>
+                r.source_id === relation.source_id &&
+                r.target_id === relation.target_id &&
+                r.relation_type === relation.relation_type
+            );
+            if (!exists) store.memory_relations.push({ id: randomUUID(), ...relation });
+        }
+        await this.persist();
+    }
+
+    async restoreStructuredMemories(projectId: string, items: StructuredMemorySnapshot[], overwrite: boolean) {
+        const store = await this.load();
+
+        for (const item of items) {
+            const index = store.structured_memories.findIndex(s =>
+                s.project_id === projectId && s.category === item.category && s.key === item.key
+            );
+            if (index < 0) {
+                store.structured_memories.push({ id: randomUUID(), project_id: projectId, ...item });
+            } else if (overwrite) {
+                const existing = store.structured_memories[index];
+                if (JSON.stringify(existing.value) !== JSON.stringify(item.value) || existing.description !== item.description) {
+                    store.structured_memory_history.push(structuredChange(existing, 'update'));
+                }
+                store.structured_memories[index] = { ...existing, ...item };
+            }
+        }
+        await this.persist();
+    }
+
+    // ══════════════════════════════════════════════════════════════════════════════
+    // Re-embedding (the whole file is rewritten atomically, so no column swap is needed)
+    // ══════════════════════════════════════════════════════════════════════════════
+
+    async prepareReembed(_dimension: number) {
+        await this.load();
+    }
+
+    async getReembedProgress(model: string, projectId?: string): Promise<ReembedProgress> {
+        const store = await this.load();
+        const scope = store.memories.filter(m => !projectId || m.project_id === projectId);
+        const current = scope.filter(m => m.embedding_model === model).length;
+        const staged = scope.filter(m => m.embedding_model !== model && m.embedding_next_model === model).length;
+        return { total: scope.length, current, staged, pending: scope.length - current - staged };
+    }
+
+    async fetchReembedBatch(model: string, projectId: string | undefined, afterId: string | null, limit: number): Promise<ReembedCandidate[]> {
+        const store = await this.load();
+        return store.memories
+            .filter(m => m.embedding_model !== model && m.embedding_next_model !== model)
+            .filter(m => !projectId || m.project_id === projectId)
+            .filter(m => afterId === null || m.id > afterId)
+            .sort((a, b) => a.id.localeCompare(b.id))
+            .slice(0, limit)
+            .map(({ id, content }) => ({ id, content }));
+    }
+
+    async stageEmbeddings(model: string, rows: { id: string; embedding: number[] }[]) {
+        const store = await this.load();
+        const byId = new Map(store.memories.map(m => [m.id, m]));
+
+        for (const row of rows) {
+            const memory = byId.get(row.id);
+            if (!memory) continue;
+            memory.embedding_next = row.embedding;
+            memory.embedding_next_model = model;
+        }
+        await this.persist();
+    }
+
+    async swapEmbeddings(model: string, dimension: number, projectId?: string): Promise<ReembedSwapResult> {
+        const store = await this.load();
+        let swapped = 0;
+
+        for (const m of store.memories) {
+            if (m.embedding_next_model !== model || !m.embedding_next) continue;
+            if (projectId && m.project_id !== projectId) continue;
+
+            m.embedding = m.embedding_next;
+            m.embedding_model = model;
+            m.embedding_dimension = dimension;
+            delete m.embedding_next;
+            delete m.embedding_next_model;
+            swapped++;
+        }
+
+        await this.persist();
+        return { swapped, blocking: 0 };
+    }
+
+    async close() {
+        await this.writeQueue;
+    }
+}
@@ -0,0 +1,164 @@
+/**
+ * Direct Postgres access for maintenance work PostgREST cannot express
+ * (DDL, table locks, multi-statement transactions)
+ */
+
+import pg from 'pg';
+import type {
+    ReembedStore,
+    ReembedProgress,
+    ReembedCandidate,
+    ReembedSwapResult,
+} from './types.js';
+
+/** Must match idx_memories_embedding in schema.sql */
+const HNSW_INDEX_SQL = 'CREATE INDEX idx_memories_embedding ON memories USING hnsw (embedding vector_cosine_ops) WITH (m = 16, ef_construction = 64)';
+
+/**
+ * Open a Postgres connection (Supabase requires SSL)
+ */
+export async function connectPostgres(connectionString: string): Promise<pg.Client> {
+    const client = new pg.Client({
+        connectionString,
+        ssl: { rejectUnauthorized: false }
+    });
+    await client.connect();
+    return client;
+}
+
+/**
+ * Dimension of a vector column, or null if the column does not exist
+ */
+export async function getVectorColumnDimension(client: pg.Client, column: string): Promise<number | null> {
+    const { rows } = await client.query(
+        `SELECT format_type(atttypid, atttypmod) AS type
+         FROM pg_attribute
+         WHERE attrelid = 'memories'::regclass AND attname = $1 AND NOT attisdropped`,
+        [column]
+    );
+    if (rows.length === 0) return null;
+
+    const match = /vector\((\d+)\)/.exec(rows[0].type);
+    return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Stages new vectors in memories.embedding_next / embedding_next_model,
+ * then swaps them into memories.embedding in a single transaction
+ */
+export class PostgresReembedStore implements ReembedStore {
+    constructor(private readonly client: pg.Client) { }
+
+    async prepareReembed(dimension: number) {
+        const stagedDimension = await getVectorColumnDimension(this.client, 'embedding_next');
+
+        // Staged vectors of another dimension belong to an abandoned run
+        if (stagedDimension !== null && stagedDimension !== dimension) {
+            await this.client.query('ALTER TABLE memories DROP COLUMN embedding_next, DROP COLUMN IF EXISTS embedding_next_model');
+        }
+
+        await this.client.query(
+            `ALTER TABLE memories
+                ADD COLUMN IF NOT EXISTS embedding_next vector(${Number(dimension)}),
+                ADD COLUMN IF NOT EXISTS embedding_next_model TEXT`
+        );
+    }
+
+    async getReembedProgress(model: string, projectId?: string): Promise<ReembedProgress> {
+        const { rows } = await this.client.query(
+            `SELECT
+                COUNT(*)::INT AS total,
+                COUNT(*) FILTER (WHERE embedding_model = $1)::INT AS current,
+                COUNT(*) FILTER (WHERE embedding_model IS DISTINCT FROM $1 AND embedding_next_model = $1)::INT AS staged
+             FROM memories
+             WHERE $2::TEXT IS NULL OR project_id = $2`,
+            [model, projectId ?? null]
+        );
+        const { total, current, staged } = rows[0];
+        return { total, current, staged, pending: total - current - staged };
+    }
+
+    async fetchReembedBatch(model: string, projectId: string | undefined, afterId: string | null, limit: number): Promise<ReembedCandidate[]> {
+        const { rows } = await this.client.query(
+            `SELECT id, content
+             FROM memories
+             WHERE embedding_model IS DISTINCT FROM $1
+               AND embedding_next_model IS DISTINCT FROM $1
+               AND ($2::TEXT IS NULL OR project_id = $2)
+               AND ($3::UUID IS NULL OR id > $3)
+             ORDER BY id
+             LIMIT $4`,
+            [model, projectId ?? null, afterId, limit]
+        );
+        return rows;
+    }
+
+    async stageEmbeddings(model: string, rows: { id: string; embedding: number[] }[]) {
+        await this.client.query(
+            `UPDATE memories AS m
+             SET embedding_next = v.embedding::vector, embedding_next_model = $3
+             FROM unnest($1::UUID[], $2::TEXT[]) AS v(id, embedding)
+             WHERE m.id = v.id`,
+            [rows.map(r => r.id), rows.map(r => `[${r.embedding.join(',')}]`), model]
+        );
+    }
+
+    async swapEmbeddings(model: string, dimension: number, projectId?: string): Promise<ReembedSwapResult> {
+        const liveDimension = await getVectorColumnDimension(this.client, 'embedding');
+
+        await this.client.query('BEGIN');
+        try {
+            if (liveDimension === dimension) {
+                // Same column type: promote the staged vectors row by row
+                const { rowCount } = await this.client.query(
+                    `UPDATE memories
+                     SET embedding = embedding_next,
+                         embedding_model = embedding_next_model,
+                         embedding_dimension = $2,
+                         embedding_next = NULL,
+                         embedding_next_model = NULL
+                     WHERE embedding_next_model = $1
+                       AND ($3::TEXT IS NULL OR project_id = $3)`,
+                    [model, dimension, projectId ?? null]
+                );
+
+                if (!projectId) {
+                    await this.client.query('REINDEX INDEX idx_memories_embedding');
+                }
+                await this.client.query('COMMIT');
+                return { swapped: rowCount ?? 0, blocking: 0 };
+            }
+
+            // A new dimension needs a new column, so every memory must be staged first.
+            // The lock keeps the server from inserting rows between the check and the swap.
+            await this.client.query('LOCK TABLE memories IN ACCESS EXCLUSIVE MODE');
+            const { rows } = await this.client.query(
+                `SELECT COUNT(*)::INT AS blocking FROM memories WHERE embedding_next_model IS DISTINCT FROM $1`,
+                [model]
+            );
+            if (rows[0].blocking > 0) {
+                await this.client.query('ROLLBACK');
+                return { swapped: 0, blocking: rows[0].blocking };
+            }
+
+            await this.client.query('DROP INDEX IF EXISTS idx_memories_embedding');
+            await this.client.query('ALTER TABLE memories DROP COLUMN embedding');
+            await this.client.query('ALTER TABLE memories RENAME COLUMN embedding_next TO embedding');
+            const { rowCount } = await this.client.query(
+                'UPDATE memories SET embedding_model = embedding_next_model, embedding_dimension = $1',
+                [dimension]
+            );
+            await this.client.query('ALTER TABLE memories DROP COLUMN embedding_next_model');
+            await this.client.query(HNSW_INDEX_SQL);
+            await this.client.query('COMMIT');
+            return { swapped: rowCount ?? 0, blocking: 0 };
+        } catch (error) {
+            await this.client.query('ROLLBACK').catch(() => { });
+            throw error;
+        }
+    }
+
+    async close() {
+        await this.client.end().catch(() => { });
+    }
+}
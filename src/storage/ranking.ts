@@ -0,0 +1,110 @@
+/**
+ * In-process ranking helpers used by the local storage backend
+ * (the Supabase backend does the same work in SQL, with the same defaults)
+ */
+
+import type { ScoringConfig } from './types.js';
+
+/** Reciprocal rank fusion constant, matches the default of hybrid_search_memories */
+export const RRF_K = 60;
+
+/** Default ranking weights, matching the defaults of match_memories */
+export const DEFAULT_SCORING: ScoringConfig = {
+    similarity_weight: 1.0,
+    importance_weight: 0.3,
+    recency_weight: 0.2,
+    access_weight: 0.1,
+    half_life_days: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ranking components of a vector search hit and their weighted score
+ */
+export function scoreMemory(
+    memory: { importance: number; updated_at: string; access_count: number },
+    similarity: number,
+    scoring: ScoringConfig,
+    now = Date.now(),
+) {
+    const ageDays = Math.max(0, now - new Date(memory.updated_at).getTime()) / DAY_MS;
+    const accesses = Math.log(1 + (memory.access_count ?? 0));
+
+    const importance_score = memory.importance / 5;
+    const recency_score = Math.pow(0.5, ageDays / scoring.half_life_days);
+    const access_score = accesses / (1 + accesses);
+
+    return {
+        similarity,
+        importance_score,
+        recency_score,
+        access_score,
+        score: scoring.similarity_weight * similarity
+            + scoring.importance_weight * importance_score
+            + scoring.recency_weight * recency_score
+            + scoring.access_weight * access_score,
+    };
+}
+
+/**
+ * Cosine similarity between two vectors (1 = identical direction)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) {
+        throw new Error(`Embedding dimension mismatch: ${a.length} vs ${b.length}`);
+    }
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Split text into lowercase word tokens (identifiers like ERR_42 become 'err', '42')
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Okapi BM25 scores of each document against the query (0 = no term matched)
+ */
+export function bm25Scores(query: string, documents: string[], k1 = 1.2, b = 0.75): number[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const docs = documents.map(tokenize);
+    if (queryTerms.length === 0 || docs.length === 0) return docs.map(() => 0);
+
+    const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+    const docFrequency = new Map<string, number>();
+    for (const term of queryTerms) {
+        docFrequency.set(term, docs.filter(d => d.includes(term)).length);
+    }
+
+    return docs.map(doc => {
+        let score = 0;
+        for (const term of queryTerms) {
+            const tf = doc.filter(t => t === term).length;
+            if (tf === 0) continue;
+            const df = docFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+            score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / avgLength));
+        }
+        return score;
+    });
+}
+
+/**
+ * Reciprocal rank fusion contribution of a 1-based rank (0 when absent)
+ */
+export function rrfScore(rank: number | null, k = RRF_K): number {
+    return rank === null ? 0 : 1 / (k + rank);
+}
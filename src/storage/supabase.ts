@@ -0,0 +1,697 @@
+/**
+ * Supabase (Postgres + pgvector) storage adapter
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { SupabaseConfig } from '../config.js';
+import { isJwt } from '../auth.js';
+import type {
+    MemoryStorage,
+    NewMemory,
+    MemoryRecord,
+    MemoryPatch,
+    MemoryRevision,
+    MatchMemoriesParams,
+    MemoryMatch,
+    HybridSearchParams,
+    HybridMatch,
+    EmbeddingModelStats,
+    ProjectStatsParams,
+    ProjectStats,
+    FindDuplicatesParams,
+    DuplicatePair,
+    ListMemoriesParams,
+    MemoryFilter,
+    MemoryPage,
+    NewRelation,
+    RelationRecord,
+    ListRelationsParams,
+    DeleteRelationsParams,
+    RelatedMemory,
+    TraverseGraphParams,
+    TraversedMemory,
+    FindPathParams,
+    PathStep,
+    StructuredMemoryInput,
+    StructuredMemoryValue,
+    ShortTermMemoryInput,
+    ShortTermMemoryValue,
+    ShortTermMemoryEntry,
+    MemorySnapshot,
+    RelationSnapshot,
+    StructuredMemorySnapshot,
+    StructuredMemoryRecord,
+    StructuredMemoryChange,
+} from './types.js';
+import { DEFAULT_SCORING } from './ranking.js';
+import { decodeCursor, encodeCursor } from './filters.js';
+import { InvalidRequestError, MemoryError, NotFoundError } from '../errors.js';
+import { DEFAULT_DB_TIMEOUT_MS, fetchWithTimeout } from '../resilience.js';
+
+/**
+ * Format embedding array for Supabase pgvector
+ */
+export function formatEmbedding(embedding: number[]): string {
+    return `[${embedding.join(",")}]`;
+}
+
+/** Columns of a MemoryRecord (everything but the vector and tsvector) */
+const MEMORY_COLUMNS = "id, project_id, category, content, metadata, type, importance, embedding_model, embedding_dimension, last_accessed_at, access_count, created_at, updated_at";
+
+/** Rows per request when paging through a project (PostgREST caps responses at 1000 rows by default) */
+const PAGE_SIZE = 1000;
+
+/** IDs per `in` filter, keeping request URLs short */
+const ID_CHUNK_SIZE = 100;
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    return chunks;
+}
+
+/**
+ * MemoryFilter as the filter arguments of match_memories / hybrid_search_memories
+ */
+function filterParams(filter: MemoryFilter | undefined) {
+    return {
+        match_types: filter?.types ?? null,
+        min_importance: filter?.min_importance ?? null,
+        metadata_filter: filter?.metadata ?? null,
+        created_after: filter?.created_after ?? null,
+        created_before: filter?.created_before ?? null,
+        updated_after: filter?.updated_after ?? null,
+        updated_before: filter?.updated_before ?? null,
+    };
+}
+
+/** SQLSTATE classes and codes worth retrying: connection failures, overload, shutdown, serialization conflicts */
+const TRANSIENT_SQLSTATE = /^(08|53|57P0[1-3]|40001|40P01)/;
+
+/**
+ * Supabase error response as a MemoryError, classified as transient (retryable) or not
+ */
+function supabaseError(error: { message: string; code?: string }): MemoryError {
+    const message = `Supabase error: ${error.message}`;
+    const code = error.code ?? '';
+
+    if (code === '57014' || error.message.startsWith('TimeoutError')) {
+        return new MemoryError('timeout', message, true);
+    }
+    // No code: the request never got a PostgREST answer (network failure, gateway error page)
+    if (code === '' || /^PGRST00\d$/.test(code) || TRANSIENT_SQLSTATE.test(code)) {
+        return new MemoryError('unavailable', message, true);
+    }
+    if (code === '42501' || /^PGRST3\d\d$/.test(code)) {
+        return new MemoryError('access_denied', message);
+    }
+    return new MemoryError('storage_error', message);
+}
+
+export class SupabaseStorage implements MemoryStorage {
+    readonly backend = 'supabase' as const;
+    readonly client: SupabaseClient;
+
+    constructor(config: SupabaseConfig) {
+        // A caller JWT goes with the anon key, so the RLS policies see its claims
+        // (the service role key would bypass them)
+        const credential = config.auth?.credential;
+        const token = credential && isJwt(credential) ? credential : undefined;
+
+        this.client = createClient(
+            config.projectUrl,
+            token ? config.anonKey : config.serviceRoleKey || config.anonKey,
+            {
+                auth: {
+                    autoRefreshToken: false,
+                    persistSession: false
+                },
+                global: {
+                    fetch: fetchWithTimeout(config.resilience?.timeoutMs ?? DEFAULT_DB_TIMEOUT_MS),
+                    ...(token ? { headers: { Authorization: `Bearer ${token}` } } : {}),
+                },
+            }
+        );
+    }
+
+    async ping() {
+        const { error } = await this.client.from("memories").select("id", { head: true }).limit(1);
+        if (error) throw supabaseError(error);
+    }
+
+    async insertMemory(memory: NewMemory) {
+        const { data, error } = await this.client
+            .from("memories")
+            .insert({ ...memory, embedding: formatEmbedding(memory.embedding) })
+            .select("id, created_at")
+            .single();
+
+        if (error) throw supabaseError(error);
+        return data;
+    }
+
+    async insertMemories(memories: NewMemory[]) {
+        const { data, error } = await this.client
+            .from("memories")
+            .insert(memories.map(memory => ({ ...memory, embedding: formatEmbedding(memory.embedding) })))
+            .select("id, created_at");
+
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async getMemory(memoryId: string, projectId: string): Promise<MemoryRecord | null> {
+        const { data, error } = await this.client
+            .from("memories")
+            .select(MEMORY_COLUMNS)
+            .match({ id: memoryId, project_id: projectId })
+            .maybeSingle();
+
+        if (error) throw supabaseError(error);
+        return data;
+    }
+
+    async getMemoryProject(memoryId: string) {
+        const { data, error } = await this.client
+            .from("memories")
+            .select("project_id")
+            .eq("id", memoryId)
+            .maybeSingle();
+
+        if (error) throw supabaseError(error);
+        return data?.project_id ?? null;
+    }
+
+    async updateMemory(memoryId: string, projectId: string, patch: MemoryPatch): Promise<MemoryRecord | null> {
+        // Metadata merging happens in SQL (jsonb ||); revisions are recorded by a trigger
+        const { data, error } = await this.client
+            .rpc("update_memory", {
+                target_id: memoryId,
+                target_project_id: projectId,
+                new_content: patch.content ?? null,
+                new_embedding: patch.embedding ? formatEmbedding(patch.embedding) : null,
+                new_embedding_model: patch.embedding_model ?? null,
+                new_embedding_dimension: patch.embedding_dimension ?? null,
+                new_category: patch.category ?? null,
+                new_type: patch.type ?? null,
+                new_importance: patch.importance ?? null,
+                new_metadata: patch.metadata ?? null,
+                replace_metadata: patch.replace_metadata ?? false,
+            })
+            .select(MEMORY_COLUMNS)
+            .maybeSingle();
+
+        if (error) throw supabaseError(error);
+        return data as MemoryRecord | null;
+    }
+
+    async listMemoryRevisions(memoryId: string, projectId: string): Promise<MemoryRevision[]> {
+        const { data, error } = await this.client
+            .from("memory_revisions")
+            .select("*")
+            .match({ memory_id: memoryId, project_id: projectId })
+            .order("revision", { ascending: false });
+
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async getMemoryRevision(memoryId: string, projectId: string, revision: number): Promise<MemoryRevision | null> {
+        const { data, error } = await this.client
+            .from("memory_revisions")
+            .select("*")
+            .match({ memory_id: memoryId, project_id: projectId, revision })
+            .maybeSingle();
+
+        if (error) throw supabaseError(error);
+        return data;
+    }
+
+    async matchMemories(params: MatchMemoriesParams): Promise<MemoryMatch[]> {
+        const scoring = { ...DEFAULT_SCORING, ...params.scoring };
+        const { data, error } = await this.client.rpc("match_memories", {
+            query_embedding: formatEmbedding(params.embedding),
+            match_project_id: params.project_id,
+            extra_project_ids: params.extra_project_ids?.length ? params.extra_project_ids : null,
+            match_category: params.category || null,
+            match_threshold: params.threshold,
+            match_count: params.count,
+            match_embedding_model: params.embedding_model,
+            similarity_weight: scoring.similarity_weight,
+            importance_weight: scoring.importance_weight,
+            recency_weight: scoring.recency_weight,
+            access_weight: scoring.access_weight,
+            recency_half_life_days: scoring.half_life_days,
+            ...filterParams(params.filter),
+        });
+
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async hybridSearchMemories(params: HybridSearchParams): Promise<HybridMatch[]> {
+        const { data, error } = await this.client.rpc("hybrid_search_memories", {
+            query_text: params.query,
+            query_embedding: params.embedding ? formatEmbedding(params.embedding) : null,
+            match_project_id: params.project_id,
+            extra_project_ids: params.extra_project_ids?.length ? params.extra_project_ids : null,
+            match_category: params.category || null,
+            match_threshold: params.threshold,
+            match_count: params.count,
+            search_mode: params.mode,
+            match_embedding_model: params.embedding_model,
+            ...filterParams(params.filter),
+        });
+
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async listMemories(params: ListMemoriesParams): Promise<MemoryPage> {
+        const { sort, order, filter } = params;
+        const ascending = order === 'asc';
+
+        // Keyset pagination on (sort field, id); one extra row tells whether another page exists
+        let query = this.client
+            .from("memories")
+            .select("id, category, content, created_at, updated_at, type, importance, access_count")
+            .eq("project_id", params.project_id)
+            .order(sort, { ascending })
+            .order("id", { ascending })
+            .limit(params.limit + 1);
+
+        if (params.category) query = query.eq("category", params.category);
+        if (filter?.types) query = query.in("type", filter.types);
+        if (filter?.min_importance !== undefined) query = query.gte("importance", filter.min_importance);
+        if (filter?.metadata) query = query.contains("metadata", filter.metadata);
+        if (filter?.created_after) query = query.gte("created_at", filter.created_after);
+        if (filter?.created_before) query = query.lt("created_at", filter.created_before);
+        if (filter?.updated_after) query = query.gte("updated_at", filter.updated_after);
+        if (filter?.updated_before) query = query.lt("updated_at", filter.updated_before);
+
+        if (params.cursor) {
+            const after = decodeCursor(params.cursor, sort, order);
+            const op = ascending ? "gt" : "lt";
+            // Quoted, since timestamps contain PostgREST's reserved characters
+            const value = typeof after.value === "string" ? `"${after.value}"` : after.value;
+            query = query.or(`${sort}.${op}.${value},and(${sort}.eq.${value},id.${op}.${after.id})`);
+        }
+
+        const { data, error } = await query;
+        if (error) throw supabaseError(error);
+
+        const rows = data ?? [];
+        const page = rows.slice(0, params.limit);
+        const last = page[page.length - 1];
+        return {
+            memories: page,
+            next_cursor: rows.length > params.limit ? encodeCursor({ sort, order, value: last[sort], id: last.id }) : null,
+        };
+    }
+
+    async deleteMemory(memoryId: string, projectId: string) {
+        const { error } = await this.client.from("memories").delete().eq("id", memoryId).eq("project_id", projectId);
+        if (error) throw supabaseError(error);
+    }
+
+    async recordMemoryAccess(memoryIds: string[]) {
+        if (memoryIds.length === 0) return;
+        const { error } = await this.client.rpc("record_memory_access", { memory_ids: memoryIds });
+        if (error) throw supabaseError(error);
+    }
+
+    async findDuplicateMemories(params: FindDuplicatesParams): Promise<DuplicatePair[]> {
+        const { data, error } = await this.client.rpc("find_duplicate_memories", {
+            match_project_id: params.project_id,
+            match_threshold: params.threshold,
+            match_embedding_model: params.embedding_model,
+        });
+
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async mergeMemories(keepId: string, duplicateId: string, projectId: string) {
+        const { error } = await this.client.rpc("merge_memories", {
+            keep_id: keepId,
+            duplicate_id: duplicateId,
+            target_project_id: projectId,
+        });
+        if (error) throw supabaseError(error);
+    }
+
+    async countMemories(projectId: string) {
+        const { count, error } = await this.client.from("memories").select("*", { count: 'exact', head: true }).eq("project_id", projectId);
+        if (error) throw supabaseError(error);
+        return count ?? 0;
+    }
+
+    async getEmbeddingModelStats(projectId?: string): Promise<EmbeddingModelStats[]> {
+        const { data, error } = await this.client.rpc("embedding_model_stats", { match_project_id: projectId ?? null });
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async getProjectStats(params: ProjectStatsParams): Promise<ProjectStats> {
+        const { data, error } = await this.client.rpc("project_stats", {
+            target_project_id: params.project_id,
+            growth_bucket: params.bucket,
+            bucket_count: params.bucket_count,
+            top_count: params.top_count,
+        });
+        if (error) throw supabaseError(error);
+        return data as ProjectStats;
+    }
+
+    async createRelation(relation: NewRelation) {
+        const { data: memories, error: lookupError } = await this.client
+            .from("memories")
+            .select("id, project_id")
+            .in("id", [relation.source_id, relation.target_id]);
+
+        if (lookupError) throw supabaseError(lookupError);
+        for (const id of [relation.source_id, relation.target_id]) {
+            if (!memories?.some(m => m.id === id)) throw new NotFoundError(`Memory not found: ${id}`);
+        }
+        const projects = [...new Set(memories!.map(m => m.project_id))];
+        if (projects.length > 1) {
+            throw new InvalidRequestError(`Cannot relate memories from different projects (${projects.join(', ')})`);
+        }
+
+        const { error } = await this.client.from("memory_relations").insert(relation);
+        if (error) throw supabaseError(error);
+    }
+
+    async deleteRelations(params: DeleteRelationsParams) {
+        let query = this.client
+            .from("memory_relations")
+            .delete({ count: 'exact' })
+            .eq("source_id", params.source_id)
+            .eq("target_id", params.target_id);
+
+        if (params.relation_type) {
+            query = query.eq("relation_type", params.relation_type);
+        }
+
+        const { count, error } = await query;
+        if (error) throw supabaseError(error);
+        return count ?? 0;
+    }
+
+    async listRelations(params: ListRelationsParams): Promise<RelationRecord[]> {
+        const { data, error } = await this.client.rpc("list_memory_relations", {
+            match_project_id: params.project_id,
+            match_relation_type: params.relation_type || null,
+            match_memory_id: params.memory_id || null,
+            max_results: params.limit,
+        });
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async getRelatedMemories(memoryId: string): Promise<RelatedMemory[]> {
+        const { data, error } = await this.client.rpc("get_related_memories", { start_id: memoryId });
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async traverseMemoryGraph(params: TraverseGraphParams): Promise<TraversedMemory[]> {
+        const { data, error } = await this.client.rpc("traverse_memory_graph", {
+            start_id: params.start_id,
+            max_depth: params.max_depth,
+            relation_types: params.relation_types ?? null,
+            traverse_direction: params.direction,
+            max_results: params.limit,
+        });
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async findMemoryPath(params: FindPathParams): Promise<PathStep[]> {
+        const { data, error } = await this.client.rpc("find_memory_path", {
+            source_id: params.source_id,
+            target_id: params.target_id,
+            max_depth: params.max_depth,
+            relation_types: params.relation_types ?? null,
+            traverse_direction: params.direction,
+        });
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async setStructuredMemory(input: StructuredMemoryInput) {
+        const { error } = await this.client.from("structured_memories").upsert(
+            input,
+            { onConflict: 'project_id,category,key' }
+        );
+        if (error) throw supabaseError(error);
+    }
+
+    async getStructuredMemory(projectId: string, category: string, key: string): Promise<StructuredMemoryValue | null> {
+        const { data, error } = await this.client
+            .from("structured_memories")
+            .select("value, description")
+            .match({ project_id: projectId, category, key })
+            .maybeSingle();
+
+        if (error) throw supabaseError(error);
+        return data;
+    }
+
+    async listStructuredMemories(projectId: string, category?: string): Promise<StructuredMemoryRecord[]> {
+        const items: StructuredMemoryRecord[] = [];
+
+        for (let from = 0; ; from += PAGE_SIZE) {
+            let query = this.client
+                .from("structured_memories")
+                .select("project_id, category, key, value, description, created_at, updated_at")
+                .eq("project_id", projectId)
+                .order("category", { ascending: true })
+                .order("key", { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+            if (category) query = query.eq("category", category);
+
+            const { data, error } = await query;
+            if (error) throw supabaseError(error);
+            items.push(...(data ?? []));
+            if (!data || data.length < PAGE_SIZE) return items;
+        }
+    }
+
+    async deleteStructuredMemory(projectId: string, category: string, key: string) {
+        const { data, error } = await this.client
+            .from("structured_memories")
+            .delete()
+            .match({ project_id: projectId, category, key })
+            .select("id");
+
+        if (error) throw supabaseError(error);
+        return (data ?? []).length > 0;
+    }
+
+    async listStructuredMemoryHistory(projectId: string, category: string, key: string, limit: number): Promise<StructuredMemoryChange[]> {
+        const { data, error } = await this.client
+            .from("structured_memory_history")
+            .select("id, project_id, category, key, value, description, operation, created_at")
+            .match({ project_id: projectId, category, key })
+            .order("created_at", { ascending: false })
+            .limit(limit);
+
+        if (error) throw supabaseError(error);
+        return data ?? [];
+    }
+
+    async getStructuredMemorySchema(projectId: string, category: string) {
+        const { data, error } = await this.client
+            .from("structured_memory_schemas")
+            .select("schema")
+            .match({ project_id: projectId, category })
+            .maybeSingle();
+
+        if (error) throw supabaseError(error);
+        return data?.schema ?? null;
+    }
+
+    async setStructuredMemorySchema(projectId: string, category: string, schema: Record<string, unknown> | null) {
+        const { error } = schema
+            ? await this.client.from("structured_memory_schemas").upsert(
+                { project_id: projectId, category, schema },
+                { onConflict: 'project_id,category' }
+            )
+            : await this.client.from("structured_memory_schemas").delete().match({ project_id: projectId, category });
+
+        if (error) throw supabaseError(error);
+    }
+
+    async setShortTermMemory(input: ShortTermMemoryInput) {
+        const { error } = await this.client.from("short_term_memory").upsert(
+            input,
+            { onConflict: 'session_id,key' }
+        );
+        if (error) throw supabaseError(error);
+    }
+
+    async getShortTermMemory(sessionId: string, key: string): Promise<ShortTermMemoryValue | null> {
+        const { data, error } = await this.client
+            .from("short_term_memory")
+            .select("value, expires_at, ttl_seconds, sliding")
+            .match({ session_id: sessionId, key })
+            .maybeSingle();
+
+        if (error) throw supabaseError(error);
+        return data && { ...data, sliding: data.sliding ?? false };
+    }
+
+    async deleteShortTermMemory(sessionId: string, key: string) {
+        const { error } = await this.client.from("short_term_memory").delete().match({ session_id: sessionId, key });
+        if (error) throw supabaseError(error);
+    }
+
+    async refreshShortTermMemory(sessionId: string, key: string, expiresAt: string) {
+        const { error } = await this.client
+            .from("short_term_memory")
+            .update({ expires_at: expiresAt })
+            .match({ session_id: sessionId, key });
+        if (error) throw supabaseError(error);
+    }
+
+    async getShortTermSessionOwners(sessionId: string) {
+        const { data, error } = await this.client
+            .from("short_term_memory")
+            .select("owner_id")
+            .eq("session_id", sessionId);
+
+        if (error) throw supabaseError(error);
+        return [...new Set((data ?? []).map(row => row.owner_id))];
+    }
+
+    async listShortTermMemories(sessionId: string): Promise<ShortTermMemoryEntry[]> {
+        const { data, error } = await this.client
+            .from("short_term_memory")
+            .select("key, value, expires_at, ttl_seconds, sliding, created_at")
+            .eq("session_id", sessionId)
+            .or(`expires_at.is.null,expires_at.gt."${new Date().toISOString()}"`)
+            .order("created_at", { ascending: true });
+
+        if (error) throw supabaseError(error);
+        return (data ?? []).map(row => ({ ...row, sliding: row.sliding ?? false }));
+    }
+
+    async clearShortTermSession(sessionId: string) {
+        const { count, error } = await this.client
+            .from("short_term_memory")
+            .delete({ count: "exact" })
+            .eq("session_id", sessionId);
+
+        if (error) throw supabaseError(error);
+        return count ?? 0;
+    }
+
+    async purgeExpiredShortTermMemories() {
+        const { count, error } = await this.client
+            .from("short_term_memory")
+            .delete({ count: "exact" })
+            .lt("expires_at", new Date().toISOString());
+
+        if (error) throw supabaseError(error);
+        return count ?? 0;
+    }
+
+    async exportMemories(projectId: string, includeEmbeddings: boolean): Promise<MemorySnapshot[]> {
+        const columns = includeEmbeddings ? `${MEMORY_COLUMNS}, embedding` : MEMORY_COLUMNS;
+        const memories: MemorySnapshot[] = [];
+
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await this.client
+                .from("memories")
+                .select(columns)
+                .eq("project_id", projectId)
+                .order("created_at", { ascending: true })
+                .order("id", { ascending: true })
+                .range(from, from + PAGE_SIZE - 1)
+                .overrideTypes<(MemoryRecord & { embedding?: number[] | string })[], { merge: false }>();
+
+            if (error) throw supabaseError(error);
+            for (const row of data ?? []) {
+                // pgvector values come back as '[0.1,0.2,...]' strings
+                memories.push(typeof row.embedding === 'string'
+                    ? { ...row, embedding: JSON.parse(row.embedding) as number[] }
+                    : { ...row, embedding: row.embedding });
+            }
+            if (!data || data.length < PAGE_SIZE) return memories;
+        }
+    }
+
+    async exportRelations(memoryIds: string[]): Promise<RelationSnapshot[]> {
+        const relations: RelationSnapshot[] = [];
+
+        for (const ids of chunk(memoryIds, ID_CHUNK_SIZE)) {
+            for (let from = 0; ; from += PAGE_SIZE) {
+                const { data, error } = await this.client
+                    .from("memory_relations")
+                    .select("source_id, target_id, relation_type, weight, metadata, created_at")
+                    .in("source_id", ids)
+                    .order("id", { ascending: true })
+                    .range(from, from + PAGE_SIZE - 1);
+
+                if (error) throw supabaseError(error);
+                relations.push(...(data ?? []));
+                if (!data || data.length < PAGE_SIZE) break;
+            }
+        }
+        return relations;
+    }
+
+    async exportStructuredMemories(projectId: string): Promise<StructuredMemorySnapshot[]> {
+        const items: StructuredMemorySnapshot[] = [];
+
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await this.client
+                .from("structured_memories")
+                .select("category, key, value, description, created_at, updated_at")
+                .eq("project_id", projectId)
+                .order("category", { ascending: true })
+                .order("key", { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) throw supabaseError(error);
+            items.push(...(data ?? []));
+            if (!data || data.length < PAGE_SIZE) return items;
+        }
+    }
+
+    async existingMemoryIds(memoryIds: string[]) {
+        const existing: { id: string; project_id: string }[] = [];
+
+        for (const ids of chunk(memoryIds, ID_CHUNK_SIZE)) {
+            const { data, error } = await this.client.from("memories").select("id, project_id").in("id", ids);
+            if (error) throw supabaseError(error);
+            existing.push(...(data ?? []));
+        }
+        return existing;
+    }
+
+    async restoreMemories(memories: Required<MemorySnapshot>[], overwrite: boolean) {
+        const { error } = await this.client.from("memories").upsert(
+            memories.map(memory => ({ ...memory, embedding: formatEmbedding(memory.embedding) })),
+            { onConflict: 'id', ignoreDuplicates: !overwrite }
+        );
+        if (error) throw supabaseError(error);
+    }
+
+    async restoreRelations(relations: RelationSnapshot[]) {
+        const { error } = await this.client.from("memory_relations").upsert(
+            relations,
+            { onConflict: 'source_id,target_id,relation_type', ignoreDuplicates: true }
+        );
+        if (error) throw supabaseError(error);
+    }
+
+    async restoreStructuredMemories(projectId: string, items: StructuredMemorySnapshot[], overwrite: boolean) {
+        const { error } = await this.client.from("structured_memories").upsert(
+            items.map(item => ({ ...item, project_id: projectId })),
+            { onConflict: 'project_id,category,key', ignoreDuplicates: !overwrite }
+        );
+        if (error) throw supabaseError(error);
+    }
+}
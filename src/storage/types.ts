@@ -0,0 +1,576 @@
+/**
+ * Storage Abstraction for Supabase Memory MCP Server
+ * Every tool talks to a MemoryStorage so the backend can be swapped
+ * (Supabase/pgvector in production, a local file store offline or in CI)
+ */
+
+export type StorageBackend = 'supabase' | 'local';
+
+export type MemoryType = 'episodic' | 'insight' | 'procedure';
+
+export interface MemoryRecord {
+    id: string;
+    project_id: string;
+    category: string | null;
+    content: string;
+    metadata: Record<string, unknown>;
+    type: string;
+    importance: number;
+    embedding_model: string | null;
+    embedding_dimension: number | null;
+    /** Last time the memory was returned by search_memories or get_memory */
+    last_accessed_at: string | null;
+    access_count: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface NewMemory {
+    project_id: string;
+    category: string;
+    content: string;
+    embedding: number[];
+    embedding_model: string;
+    embedding_dimension: number;
+    type: string;
+    importance: number;
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * Fields to change on an existing memory (omitted fields are kept)
+ */
+export interface MemoryPatch {
+    content?: string;
+    /** Required whenever content changes */
+    embedding?: number[];
+    embedding_model?: string;
+    embedding_dimension?: number;
+    category?: string;
+    type?: string;
+    importance?: number;
+    metadata?: Record<string, unknown>;
+    /** Replace metadata instead of merging the given keys into it */
+    replace_metadata?: boolean;
+}
+
+/**
+ * A previous version of a memory, recorded whenever its content,
+ * category, type, importance or metadata changes
+ */
+export interface MemoryRevision {
+    id: string;
+    memory_id: string;
+    project_id: string;
+    revision: number;
+    category: string | null;
+    content: string;
+    type: string;
+    importance: number;
+    metadata: Record<string, unknown>;
+    /** When this version was superseded */
+    created_at: string;
+}
+
+/**
+ * Weights of the vector search ranking:
+ * score = similarity * w_s + importance/5 * w_i + recency * w_r + access * w_a,
+ * where recency halves every `half_life_days` since the last update
+ */
+export interface ScoringConfig {
+    similarity_weight: number;
+    importance_weight: number;
+    recency_weight: number;
+    access_weight: number;
+    half_life_days: number;
+}
+
+/**
+ * Conditions a memory must meet to be returned by a search or listing
+ * (omitted fields do not restrict). Date bounds are ISO timestamps;
+ * `*_after` is inclusive and `*_before` exclusive.
+ */
+export interface MemoryFilter {
+    /** Any of these types */
+    types?: string[];
+    min_importance?: number;
+    /** Metadata must contain these keys and values (JSONB `@>`) */
+    metadata?: Record<string, unknown>;
+    created_after?: string;
+    created_before?: string;
+    updated_after?: string;
+    updated_before?: string;
+}
+
+export interface MatchMemoriesParams {
+    embedding: number[];
+    /** Only memories embedded with this model are compared */
+    embedding_model: string;
+    project_id: string;
+    /** Further projects searched along with project_id (e.g. the global project) */
+    extra_project_ids?: string[];
+    category?: string | null;
+    threshold: number;
+    count: number;
+    filter?: MemoryFilter;
+    /** Overrides of the default ranking weights */
+    scoring?: Partial<ScoringConfig>;
+}
+
+/** Fields returned for every search hit */
+export interface MemoryHit {
+    id: string;
+    project_id: string;
+    category: string | null;
+    content: string;
+    metadata: Record<string, unknown>;
+    type: string;
+    importance: number;
+    created_at: string;
+}
+
+/** A vector search hit with each ranking component (all in 0..1) and the weighted score */
+export interface MemoryMatch extends MemoryHit {
+    updated_at: string;
+    last_accessed_at: string | null;
+    access_count: number;
+    similarity: number;
+    importance_score: number;
+    recency_score: number;
+    access_score: number;
+    score: number;
+}
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface HybridSearchParams {
+    mode: Exclude<SearchMode, 'vector'>;
+    query: string;
+    /** Required in 'hybrid' mode, ignored in 'keyword' mode */
+    embedding: number[] | null;
+    /** The vector signal only considers memories embedded with this model */
+    embedding_model: string;
+    project_id: string;
+    /** Further projects searched along with project_id */
+    extra_project_ids?: string[];
+    category?: string | null;
+    /** Minimum cosine similarity for the vector signal */
+    threshold: number;
+    count: number;
+    filter?: MemoryFilter;
+}
+
+/**
+ * A search hit with the score of each signal and their reciprocal rank fusion.
+ * Signals that did not match the memory are null.
+ */
+export interface HybridMatch extends MemoryHit {
+    similarity: number | null;
+    keyword_score: number | null;
+    vector_rank: number | null;
+    keyword_rank: number | null;
+    score: number;
+}
+
+export type MemorySortField = 'created_at' | 'updated_at' | 'importance' | 'access_count';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListMemoriesParams {
+    project_id: string;
+    category?: string;
+    filter?: MemoryFilter;
+    sort: MemorySortField;
+    order: SortOrder;
+    limit: number;
+    /** `next_cursor` of the previous page; must come from a listing with the same sort and order */
+    cursor?: string | null;
+}
+
+export type MemorySummary = Pick<
+    MemoryRecord,
+    'id' | 'category' | 'content' | 'created_at' | 'updated_at' | 'type' | 'importance' | 'access_count'
+>;
+
+export interface MemoryPage {
+    memories: MemorySummary[];
+    /** Pass as `cursor` to fetch the next page; null on the last page */
+    next_cursor: string | null;
+}
+
+export interface FindDuplicatesParams {
+    project_id: string;
+    embedding_model: string;
+    threshold: number;
+}
+
+/** Two memories of a project whose embeddings are at least `threshold` similar */
+export interface DuplicatePair {
+    memory_id: string;
+    duplicate_id: string;
+    similarity: number;
+}
+
+export interface EmbeddingModelStats {
+    embedding_model: string | null;
+    embedding_dimension: number | null;
+    memory_count: number;
+}
+
+/** Width of the buckets a project's growth is reported in */
+export type GrowthBucket = 'day' | 'week' | 'month';
+
+export interface ProjectStatsParams {
+    project_id: string;
+    bucket: GrowthBucket;
+    /** Most recent buckets reported, ending with the current one */
+    bucket_count: number;
+    /** Most-accessed memories listed */
+    top_count: number;
+}
+
+export interface GrowthPoint {
+    /** UTC date the bucket starts on (weeks start on Monday) */
+    bucket: string;
+    /** Memories created in the bucket */
+    created: number;
+    /** Memories in the project at the end of the bucket */
+    total: number;
+}
+
+export interface AccessedMemory {
+    id: string;
+    category: string | null;
+    content: string;
+    access_count: number;
+    last_accessed_at: string | null;
+}
+
+export interface ProjectStats {
+    total_memories: number;
+    /** Memory counts per category ('uncategorized' for none), type and importance */
+    by_category: Record<string, number>;
+    by_type: Record<string, number>;
+    by_importance: Record<string, number>;
+    relations: number;
+    relations_by_type: Record<string, number>;
+    /** Memories with no relation in either direction */
+    orphaned_memories: number;
+    structured_memories: number;
+    structured_by_category: Record<string, number>;
+    /** Memories stored without an embedding (invisible to semantic search) */
+    missing_embeddings: number;
+    /**
+     * Approximate size of the project's memory and structured memory rows
+     * (on-disk row size in Postgres, JSON size in local storage)
+     */
+    storage_bytes: number;
+    first_memory_at: string | null;
+    last_memory_at: string | null;
+    growth: GrowthPoint[];
+    /** Memories with at least one access, most accessed first */
+    most_accessed: AccessedMemory[];
+}
+
+export interface NewRelation {
+    source_id: string;
+    target_id: string;
+    relation_type: string;
+    /** Strength or confidence of the edge, 0-1 (default: 1) */
+    weight?: number;
+    metadata?: Record<string, unknown>;
+}
+
+export interface RelationRecord {
+    id: string;
+    source_id: string;
+    target_id: string;
+    relation_type: string;
+    weight: number;
+    metadata: Record<string, unknown>;
+    created_at: string;
+    source_content: string;
+    target_content: string;
+}
+
+export interface ListRelationsParams {
+    project_id: string;
+    relation_type?: string;
+    /** Only edges touching this memory */
+    memory_id?: string;
+    limit: number;
+}
+
+export interface DeleteRelationsParams {
+    source_id: string;
+    target_id: string;
+    /** Every type between the two memories when omitted */
+    relation_type?: string;
+}
+
+export interface RelatedMemory {
+    relation_type: string;
+    direction: 'outgoing' | 'incoming';
+    weight: number;
+    memory_id: string;
+    category: string | null;
+    content: string;
+    type: string;
+}
+
+export type TraversalDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface TraverseGraphParams {
+    start_id: string;
+    max_depth: number;
+    relation_types?: string[];
+    direction: TraversalDirection;
+    limit: number;
+}
+
+/**
+ * A memory reached by a graph traversal, with the edge it was reached through
+ * (the shallowest one when there are several)
+ */
+export interface TraversedMemory {
+    memory_id: string;
+    depth: number;
+    parent_id: string;
+    relation_type: string;
+    direction: 'outgoing' | 'incoming';
+    path: string[];
+    category: string | null;
+    content: string;
+    type: string;
+}
+
+export interface FindPathParams {
+    source_id: string;
+    target_id: string;
+    max_depth: number;
+    relation_types?: string[];
+    direction: TraversalDirection;
+}
+
+/**
+ * One memory on a path; relation_type/direction describe the edge from the previous step
+ */
+export interface PathStep {
+    step: number;
+    memory_id: string;
+    relation_type: string | null;
+    direction: 'outgoing' | 'incoming' | null;
+    category: string | null;
+    content: string;
+    type: string;
+}
+
+export interface StructuredMemoryInput {
+    project_id: string;
+    category: string;
+    key: string;
+    value: unknown;
+    description?: string;
+}
+
+export interface StructuredMemoryValue {
+    value: unknown;
+    description: string | null;
+}
+
+export interface ShortTermMemoryInput {
+    session_id: string;
+    key: string;
+    /** Identity of the caller the session belongs to (null without access control) */
+    owner_id: string | null;
+    value: unknown;
+    expires_at: string | null;
+    /** Lifetime in seconds (null = until the session is cleared) */
+    ttl_seconds: number | null;
+    /** Restart the lifetime on every read */
+    sliding: boolean;
+}
+
+export interface ShortTermMemoryValue {
+    value: unknown;
+    expires_at: string | null;
+    ttl_seconds: number | null;
+    sliding: boolean;
+}
+
+export interface ShortTermMemoryEntry extends ShortTermMemoryValue {
+    key: string;
+    created_at: string;
+}
+
+/**
+ * A memory as written to a project archive (the vector is optional there)
+ */
+export interface MemorySnapshot extends MemoryRecord {
+    embedding?: number[];
+}
+
+export interface RelationSnapshot {
+    source_id: string;
+    target_id: string;
+    relation_type: string;
+    weight: number;
+    metadata: Record<string, unknown>;
+    created_at: string;
+}
+
+export interface StructuredMemorySnapshot {
+    category: string;
+    key: string;
+    value: unknown;
+    description: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface StructuredMemoryRecord extends StructuredMemorySnapshot {
+    project_id: string;
+}
+
+/**
+ * A previous value of a structured memory, recorded whenever its value or
+ * description changes and when it is deleted
+ */
+export interface StructuredMemoryChange {
+    id: string;
+    project_id: string;
+    category: string;
+    key: string;
+    value: unknown;
+    description: string | null;
+    operation: 'update' | 'delete';
+    /** When this value was replaced or deleted */
+    created_at: string;
+}
+
+/**
+ * Backend-agnostic access to all four memory layers.
+ * Implementations throw an Error on failure (a MemoryError when its cause is known);
+ * tools turn it into a structured error response.
+ */
+export interface MemoryStorage {
+    readonly backend: StorageBackend;
+    /** Throw if the backend cannot be reached (readiness checks) */
+    ping(): Promise<void>;
+
+    // Episodic / insight memories
+    insertMemory(memory: NewMemory): Promise<Pick<MemoryRecord, 'id' | 'created_at'>>;
+    /** Insert several memories in one round-trip (all or nothing); results follow input order */
+    insertMemories(memories: NewMemory[]): Promise<Pick<MemoryRecord, 'id' | 'created_at'>[]>;
+    getMemory(memoryId: string, projectId: string): Promise<MemoryRecord | null>;
+    /** Project a memory belongs to (null when it does not exist) */
+    getMemoryProject(memoryId: string): Promise<string | null>;
+    /** Returns the updated memory, or null if it does not exist in the project */
+    updateMemory(memoryId: string, projectId: string, patch: MemoryPatch): Promise<MemoryRecord | null>;
+    listMemoryRevisions(memoryId: string, projectId: string): Promise<MemoryRevision[]>;
+    getMemoryRevision(memoryId: string, projectId: string, revision: number): Promise<MemoryRevision | null>;
+    matchMemories(params: MatchMemoriesParams): Promise<MemoryMatch[]>;
+    hybridSearchMemories(params: HybridSearchParams): Promise<HybridMatch[]>;
+    listMemories(params: ListMemoriesParams): Promise<MemoryPage>;
+    deleteMemory(memoryId: string, projectId: string): Promise<void>;
+    /** Bump access_count and last_accessed_at without touching updated_at or revisions */
+    recordMemoryAccess(memoryIds: string[]): Promise<void>;
+    findDuplicateMemories(params: FindDuplicatesParams): Promise<DuplicatePair[]>;
+    /**
+     * Fold a duplicate into the kept memory: raise importance, merge metadata,
+     * move its relations over, then delete it
+     */
+    mergeMemories(keepId: string, duplicateId: string, projectId: string): Promise<void>;
+    countMemories(projectId: string): Promise<number>;
+    /** Memory counts per embedding model, across all projects when projectId is omitted */
+    getEmbeddingModelStats(projectId?: string): Promise<EmbeddingModelStats[]>;
+    getProjectStats(params: ProjectStatsParams): Promise<ProjectStats>;
+
+    // Associative (graph) memory
+    /** Both memories must exist and belong to the same project */
+    createRelation(relation: NewRelation): Promise<void>;
+    /** Returns the number of edges removed */
+    deleteRelations(params: DeleteRelationsParams): Promise<number>;
+    listRelations(params: ListRelationsParams): Promise<RelationRecord[]>;
+    getRelatedMemories(memoryId: string): Promise<RelatedMemory[]>;
+    traverseMemoryGraph(params: TraverseGraphParams): Promise<TraversedMemory[]>;
+    /** Shortest path between two memories (empty when there is none) */
+    findMemoryPath(params: FindPathParams): Promise<PathStep[]>;
+
+    // Structured (entity) memory
+    setStructuredMemory(input: StructuredMemoryInput): Promise<void>;
+    getStructuredMemory(projectId: string, category: string, key: string): Promise<StructuredMemoryValue | null>;
+    listStructuredMemories(projectId: string, category?: string): Promise<StructuredMemoryRecord[]>;
+    /** Returns false if the key did not exist */
+    deleteStructuredMemory(projectId: string, category: string, key: string): Promise<boolean>;
+    /** Previous values of a key, newest first */
+    listStructuredMemoryHistory(projectId: string, category: string, key: string, limit: number): Promise<StructuredMemoryChange[]>;
+    getStructuredMemorySchema(projectId: string, category: string): Promise<Record<string, unknown> | null>;
+    /** Register the JSON Schema values of a category must match (null removes it) */
+    setStructuredMemorySchema(projectId: string, category: string, schema: Record<string, unknown> | null): Promise<void>;
+
+    // Short-term memory
+    setShortTermMemory(input: ShortTermMemoryInput): Promise<void>;
+    getShortTermMemory(sessionId: string, key: string): Promise<ShortTermMemoryValue | null>;
+    deleteShortTermMemory(sessionId: string, key: string): Promise<void>;
+    /** Move an entry's expiry (sliding TTL) */
+    refreshShortTermMemory(sessionId: string, key: string, expiresAt: string): Promise<void>;
+    /** Distinct owners of a session's entries (empty for a new session) */
+    getShortTermSessionOwners(sessionId: string): Promise<(string | null)[]>;
+    /** Unexpired entries of a session, oldest first */
+    listShortTermMemories(sessionId: string): Promise<ShortTermMemoryEntry[]>;
+    /** Delete every entry of a session, returning how many were deleted */
+    clearShortTermSession(sessionId: string): Promise<number>;
+    /** Delete expired entries of every session, returning how many were deleted */
+    purgeExpiredShortTermMemories(): Promise<number>;
+
+    // Project export / import
+    exportMemories(projectId: string, includeEmbeddings: boolean): Promise<MemorySnapshot[]>;
+    /** Relations whose source is one of the given memories */
+    exportRelations(memoryIds: string[]): Promise<RelationSnapshot[]>;
+    exportStructuredMemories(projectId: string): Promise<StructuredMemorySnapshot[]>;
+    /** The given IDs that exist (in any project), with the project each belongs to */
+    existingMemoryIds(memoryIds: string[]): Promise<{ id: string; project_id: string }[]>;
+    /** Write memories with their own IDs and timestamps; existing IDs are replaced only when overwrite is set */
+    restoreMemories(memories: Required<MemorySnapshot>[], overwrite: boolean): Promise<void>;
+    /** Insert relations, keeping edges that already exist */
+    restoreRelations(relations: RelationSnapshot[]): Promise<void>;
+    restoreStructuredMemories(projectId: string, items: StructuredMemorySnapshot[], overwrite: boolean): Promise<void>;
+}
+
+export interface ReembedProgress {
+    /** Memories in scope */
+    total: number;
+    /** Memories already embedded with the target model */
+    current: number;
+    /** Memories with a staged embedding from the target model, waiting for the swap */
+    staged: number;
+    /** Memories still to be embedded */
+    pending: number;
+}
+
+export interface ReembedCandidate {
+    id: string;
+    content: string;
+}
+
+export interface ReembedSwapResult {
+    /** Memories whose staged embedding became live */
+    swapped: number;
+    /** Memories outside the scope that must be staged before a dimension change can be swapped */
+    blocking: number;
+}
+
+/**
+ * Resumable re-embedding: new vectors are staged next to the live ones
+ * and swapped in atomically once every memory in scope has one
+ */
+export interface ReembedStore {
+    prepareReembed(dimension: number): Promise<void>;
+    getReembedProgress(model: string, projectId?: string): Promise<ReembedProgress>;
+    /** Next memories still needing an embedding from `model`, ordered by id after `afterId` */
+    fetchReembedBatch(model: string, projectId: string | undefined, afterId: string | null, limit: number): Promise<ReembedCandidate[]>;
+    stageEmbeddings(model: string, rows: { id: string; embedding: number[] }[]): Promise<void>;
+    swapEmbeddings(model: string, dimension: number, projectId?: string): Promise<ReembedSwapResult>;
+    close(): Promise<void>;
+}
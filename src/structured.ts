@@ -0,0 +1,163 @@
+/**
+ * Structured memory helpers: JSON Schema validation of values and
+ * JSON Patch (RFC 6902) partial updates
+ */
+
+import { Ajv, type ValidateFunction } from 'ajv';
+import { InvalidRequestError } from './errors.js';
+
+export type JsonPatchOperation =
+    | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'move' | 'copy'; from: string; path: string };
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/** Compiled validators by schema text, so each registered schema is compiled once */
+const validators = new Map<string, ValidateFunction>();
+
+function compile(schema: Record<string, unknown>): ValidateFunction {
+    const cacheKey = JSON.stringify(schema);
+    let validate = validators.get(cacheKey);
+    if (!validate) {
+        try {
+            validate = ajv.compile(schema);
+        } catch (error) {
+            throw new InvalidRequestError(`Invalid JSON Schema: ${(error as Error).message}`);
+        }
+        validators.set(cacheKey, validate);
+    }
+    return validate;
+}
+
+/**
+ * Throw if the schema itself is not a valid JSON Schema
+ */
+export function checkSchema(schema: Record<string, unknown>) {
+    compile(schema);
+}
+
+/**
+ * Validation errors of a value against a schema (empty when valid)
+ */
+export function validateValue(schema: Record<string, unknown>, value: unknown): string[] {
+    const validate = compile(schema);
+    if (validate(value)) return [];
+    return (validate.errors ?? []).map(e => `${e.instancePath || '/'} ${e.message ?? 'is invalid'}`);
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped reference tokens
+ */
+function parsePointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) throw new Error(`Invalid JSON Pointer: ${pointer}`);
+    return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+    return value !== null && typeof value === 'object';
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+    if (allowEnd && token === '-') return array.length;
+    if (!/^(0|[1-9]\d*)$/.test(token)) throw new Error(`Invalid array index: ${token}`);
+    const index = Number(token);
+    if (index > array.length || (!allowEnd && index === array.length)) {
+        throw new Error(`Array index out of range: ${token}`);
+    }
+    return index;
+}
+
+function resolve(doc: unknown, tokens: string[], pointer: string): unknown {
+    let current = doc;
+    for (const token of tokens) {
+        if (Array.isArray(current)) {
+            current = current[arrayIndex(current, token, false)];
+        } else if (isContainer(current) && token in current) {
+            current = current[token];
+        } else {
+            throw new Error(`Path not found: ${pointer}`);
+        }
+    }
+    return current;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length
+        && keysA.every(key => key in b && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Apply operations to a copy of the document; the whole patch fails if any operation does
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+    let doc = structuredClone(document);
+
+    const add = (pointer: string, value: unknown) => {
+        const tokens = parsePointer(pointer);
+        if (tokens.length === 0) {
+            doc = value;
+            return;
+        }
+        const parent = resolve(doc, tokens.slice(0, -1), pointer);
+        const last = tokens[tokens.length - 1];
+        if (Array.isArray(parent)) parent.splice(arrayIndex(parent, last, true), 0, value);
+        else if (isContainer(parent)) parent[last] = value;
+        else throw new Error(`Path not found: ${pointer}`);
+    };
+
+    const remove = (pointer: string): unknown => {
+        const tokens = parsePointer(pointer);
+        if (tokens.length === 0) throw new Error('Cannot remove the whole value');
+        const parent = resolve(doc, tokens.slice(0, -1), pointer);
+        const last = tokens[tokens.length - 1];
+        if (Array.isArray(parent)) return parent.splice(arrayIndex(parent, last, false), 1)[0];
+        if (isContainer(parent) && last in parent) {
+            const removed = parent[last];
+            delete parent[last];
+            return removed;
+        }
+        throw new Error(`Path not found: ${pointer}`);
+    };
+
+    operations.forEach((operation, i) => {
+        try {
+            switch (operation.op) {
+                case 'add':
+                    add(operation.path, structuredClone(operation.value));
+                    break;
+                case 'remove':
+                    remove(operation.path);
+                    break;
+                case 'replace':
+                    if (operation.path !== '') remove(operation.path);
+                    add(operation.path, structuredClone(operation.value));
+                    break;
+                case 'move': {
+                    if (operation.path.startsWith(`${operation.from}/`)) {
+                        throw new Error('Cannot move a value into one of its children');
+                    }
+                    add(operation.path, remove(operation.from));
+                    break;
+                }
+                case 'copy':
+                    add(operation.path, structuredClone(resolve(doc, parsePointer(operation.from), operation.from)));
+                    break;
+                case 'test':
+                    if (!deepEqual(resolve(doc, parsePointer(operation.path), operation.path), operation.value)) {
+                        throw new Error(`Test failed at ${operation.path || '/'}`);
+                    }
+                    break;
+            }
+        } catch (error) {
+            throw new InvalidRequestError(`Patch operation ${i} (${operation.op}) failed: ${(error as Error).message}`);
+        }
+    });
+
+    return doc;
+}
@@ -0,0 +1,67 @@
+/**
+ * Project transfer commands: move a project between databases via an archive
+ *
+ * Usage: supabase-memory export-project <project-id> [--out <file>] [--embeddings]
+ *        supabase-memory import-project <file> [--project <id>] [--on-conflict skip|overwrite|new_ids]
+ *
+ * Archives ending in .gz are gzip-compressed.
+ */
+
+import chalk from 'chalk';
+import { getConfig, type SupabaseConfig } from './config.js';
+import { configureEmbedding } from './embedding.js';
+import { getFlag, hasFlag } from './cli.js';
+import { createStorage } from './storage/index.js';
+import { exportProject, importProject, readArchive, writeArchive, type ConflictStrategy } from './archive.js';
+
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'new_ids'];
+
+function loadConfig(): SupabaseConfig {
+    const config = getConfig();
+    if (!config) {
+        throw new Error("Configuration not found. Please run 'npx @gsxrchris/supabase-memory setup' or configure environment variables.");
+    }
+    configureEmbedding(config.embedding);
+    return config;
+}
+
+export async function runExportProject(args: string[]) {
+    const projectId = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+    if (!projectId) {
+        throw new Error('Usage: supabase-memory export-project <project-id> [--out <file>] [--embeddings]');
+    }
+
+    const storage = createStorage(loadConfig());
+    const out = getFlag(args, 'out') ?? `${projectId}.memory-archive.jsonl`;
+
+    console.log(chalk.cyan(`\n📦 Exporting project '${projectId}' from ${storage.backend} storage\n`));
+    const archive = await exportProject(storage, projectId, hasFlag(args, 'embeddings'));
+    await writeArchive(out, archive);
+
+    console.log(chalk.green(`✅ Wrote ${out}`));
+    console.log(chalk.gray(`   ${archive.memories.length} memories, ${archive.relations.length} relations, ${archive.structured_memories.length} structured memories`));
+}
+
+export async function runImportProject(args: string[]) {
+    const file = args[0] && !args[0].startsWith('--') ? args[0] : undefined;
+    if (!file) {
+        throw new Error('Usage: supabase-memory import-project <file> [--project <id>] [--on-conflict skip|overwrite|new_ids]');
+    }
+
+    const onConflict = (getFlag(args, 'on-conflict') ?? 'skip') as ConflictStrategy;
+    if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+        throw new Error(`--on-conflict must be one of ${CONFLICT_STRATEGIES.join(', ')}`);
+    }
+
+    const storage = createStorage(loadConfig());
+    const archive = await readArchive(file);
+    const projectId = getFlag(args, 'project');
+
+    console.log(chalk.cyan(`\n📦 Importing '${archive.header.project_id}' (exported ${archive.header.exported_at}) into ${storage.backend} storage\n`));
+    const summary = await importProject(storage, archive, { projectId, onConflict });
+
+    console.log(chalk.green(`✅ Imported into project '${summary.project_id}'`));
+    console.log(chalk.gray(`   Memories: ${summary.memories_imported} imported, ${summary.memories_skipped} skipped, ${summary.memories_renamed} given new IDs, ${summary.memories_reembedded} re-embedded`));
+    console.log(chalk.gray(`   Relations: ${summary.relations_imported} imported, ${summary.relations_dropped} dropped`));
+    console.log(chalk.gray(`   Structured memories: ${summary.structured_memories}`));
+}
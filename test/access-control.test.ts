@@ -0,0 +1,106 @@
+/**
+ * Per-caller access control on tools that do not name a project, and file
+ * paths from remote callers
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { LocalStorage } from '../src/storage/local.js';
+import { connect, startEmbeddingStub, tempDir } from './helpers.js';
+
+describe('access control', () => {
+    let stopEmbedding: () => void;
+    let temp: ReturnType<typeof tempDir>;
+    let storage: LocalStorage;
+    let alice: Awaited<ReturnType<typeof connect>>;
+    let bob: Awaited<ReturnType<typeof connect>>;
+
+    before(async () => {
+        stopEmbedding = await startEmbeddingStub();
+        temp = tempDir();
+        storage = new LocalStorage(join(temp.dir, 'store.json'));
+        alice = await connect(storage, { identity: { id: 'alice', projects: ['alpha'], permissions: ['read', 'write', 'delete'] } });
+        bob = await connect(storage, { identity: { id: 'bob', projects: ['beta'], permissions: ['read', 'write', 'delete'] } });
+    });
+
+    after(async () => {
+        await alice.close();
+        await bob.close();
+        await storage.close();
+        temp.cleanup();
+        stopEmbedding();
+    });
+
+    it('keeps short-term sessions to the caller that started them', async () => {
+        assert.equal((await alice.call('set_short_term_memory', { session_id: 'shared', key: 'plan', value: 'secret' })).isError, false);
+
+        for (const [tool, args] of [
+            ['get_short_term_memory', { key: 'plan' }],
+            ['list_short_term_memories', {}],
+            ['set_short_term_memory', { key: 'plan', value: 'overwritten' }],
+            ['clear_short_term_session', {}],
+        ] as const) {
+            const result = await bob.call(tool, { session_id: 'shared', ...args });
+            assert.equal(result.body.error?.code, 'access_denied', tool);
+        }
+
+        const own = await alice.call('get_short_term_memory', { session_id: 'shared', key: 'plan' });
+        assert.equal(own.body, 'secret');
+    });
+
+    it('checks the projects of both ends of a relation', async () => {
+        const source = await bob.call('store_memory', { content: 'Beta service', category: 'note', project_id: 'beta' });
+        const target = await alice.call('store_memory', { content: 'Alpha service', category: 'note', project_id: 'alpha' });
+
+        const result = await bob.call('create_reaction', {
+            source_id: source.body.memory_id,
+            target_id: target.body.memory_id,
+            relation_type: 'related_to',
+        });
+        assert.equal(result.body.error?.code, 'access_denied');
+
+        const path = await bob.call('find_path', { source_id: source.body.memory_id, target_id: target.body.memory_id });
+        assert.equal(path.body.error?.code, 'access_denied');
+    });
+});
+
+describe('file paths for remote callers', () => {
+    let stopEmbedding: () => void;
+    let temp: ReturnType<typeof tempDir>;
+
+    before(async () => {
+        stopEmbedding = await startEmbeddingStub();
+        temp = tempDir();
+        mkdirSync(join(temp.dir, 'shared'));
+        writeFileSync(join(temp.dir, 'secret.txt'), 'outside the shared directory');
+        writeFileSync(join(temp.dir, 'shared', 'notes.md'), '# Notes\n\nInside the shared directory');
+    });
+
+    after(() => {
+        temp.cleanup();
+        stopEmbedding();
+    });
+
+    it('refuses paths without a file directory', async () => {
+        const client = await connect(join(temp.dir, 'none.json'), { files: { restricted: true } });
+        const result = await client.call('ingest_document', { project_id: 'alpha', category: 'docs', path: join(temp.dir, 'secret.txt') });
+        assert.equal(result.body.error?.code, 'access_denied');
+        await client.close();
+    });
+
+    it('keeps paths inside the file directory', async () => {
+        const client = await connect(join(temp.dir, 'store.json'), { files: { directory: join(temp.dir, 'shared'), restricted: true } });
+
+        const outside = await client.call('ingest_document', { project_id: 'alpha', category: 'docs', path: '../secret.txt' });
+        assert.equal(outside.body.error?.code, 'access_denied');
+
+        const inside = await client.call('ingest_document', { project_id: 'alpha', category: 'docs', path: 'notes.md' });
+        assert.equal(inside.isError, false);
+
+        const exported = await client.call('export_project', { project_id: 'alpha', path: join(temp.dir, 'alpha.jsonl') });
+        assert.equal(exported.body.error?.code, 'access_denied');
+        await client.close();
+    });
+});
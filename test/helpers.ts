@@ -0,0 +1,106 @@
+/**
+ * Test fixtures: an MCP client connected to a server on a fresh local store,
+ * with a deterministic embedding endpoint so no model has to be downloaded
+ */
+
+import { createServer as createHttpServer } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { configureEmbedding } from '../src/embedding.js';
+import { configureLogger } from '../src/logger.js';
+import { LocalStorage } from '../src/storage/local.js';
+import { createServer, type ServerOptions } from '../src/server.js';
+
+export const EMBEDDING_DIMENSION = 64;
+
+/**
+ * Bag-of-words vector: each word is hashed into one of the dimensions, so texts
+ * sharing words are similar
+ */
+function embedText(text: string): number[] {
+    const vector = new Array(EMBEDDING_DIMENSION).fill(0);
+    for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+        let hash = 0;
+        for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) % EMBEDDING_DIMENSION;
+        vector[hash] += 1;
+    }
+    if (vector.every(v => v === 0)) vector[0] = 1;
+    return vector;
+}
+
+/**
+ * Serve an OpenAI-compatible /embeddings endpoint and point the embedding module at it
+ */
+export async function startEmbeddingStub(): Promise<() => void> {
+    const server = createHttpServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const { input } = JSON.parse(body) as { input: string[] };
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ data: input.map((text, index) => ({ index, embedding: embedText(text) })) }));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address() as { port: number };
+
+    configureLogger({ level: 'error' });
+    configureEmbedding({
+        provider: 'openai',
+        model: 'test-bag-of-words',
+        dimension: EMBEDDING_DIMENSION,
+        baseUrl: `http://127.0.0.1:${address.port}`,
+        cacheSize: 0,
+    });
+    return () => server.close();
+}
+
+/** Directory removed by the returned cleanup */
+export function tempDir(): { dir: string; cleanup: () => void } {
+    const dir = mkdtempSync(join(tmpdir(), 'supabase-memory-test-'));
+    return { dir, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
+
+export interface ToolResponse {
+    isError: boolean;
+    /** Parsed JSON, or the raw text when the response is not JSON */
+    body: any;
+}
+
+/**
+ * MCP client talking to a server backed by a new local store, or by a store
+ * shared with other clients (left open on close)
+ */
+export async function connect(store: string | LocalStorage, options: ServerOptions = {}) {
+    const storage = typeof store === 'string' ? new LocalStorage(store) : store;
+    const server = createServer(storage, options);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    async function call(name: string, args: Record<string, unknown> = {}): Promise<ToolResponse> {
+        const result = await client.callTool({ name, arguments: args }) as { content: { text: string }[]; isError?: boolean };
+        const text = result.content[0].text;
+        let body: unknown = text;
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Plain-text response
+        }
+        return { isError: !!result.isError, body };
+    }
+
+    return {
+        storage,
+        call,
+        close: async () => {
+            await client.close();
+            if (typeof store === 'string') await storage.close();
+        },
+    };
+}
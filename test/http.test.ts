@@ -0,0 +1,43 @@
+/**
+ * Unauthenticated endpoints of the HTTP transport
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureLogger } from '../src/logger.js';
+import { AccessDeniedError } from '../src/auth.js';
+import { startHttpServer, type HttpServerHandle } from '../src/http.js';
+
+describe('HTTP transport', () => {
+    let http: HttpServerHandle;
+    let base: string;
+
+    before(async () => {
+        configureLogger({ level: 'error' });
+        http = await startHttpServer({ port: 0 }, {
+            openSession: () => { throw new AccessDeniedError('Invalid API key'); },
+            checkReady: async () => { throw new Error('connect ECONNREFUSED db.internal:5432'); },
+            renderMetrics: () => 'memory_tool_calls_total 0\n',
+            authenticate: credential => {
+                if (credential !== 'valid-key') throw new AccessDeniedError('Invalid API key');
+            },
+        });
+        base = http.url.replace(/\/mcp$/, '');
+    });
+
+    after(() => http.close());
+
+    it('does not reveal why the server is not ready', async () => {
+        const response = await fetch(`${base}/readyz`);
+        assert.equal(response.status, 503);
+        assert.deepEqual(await response.json(), { status: 'not_ready' });
+    });
+
+    it('serves metrics to authenticated callers only', async () => {
+        assert.equal((await fetch(`${base}/metrics`)).status, 401);
+
+        const response = await fetch(`${base}/metrics`, { headers: { Authorization: 'Bearer valid-key' } });
+        assert.equal(response.status, 200);
+        assert.match(await response.text(), /memory_tool_calls_total/);
+    });
+});
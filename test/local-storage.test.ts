@@ -0,0 +1,58 @@
+/**
+ * Loading and persisting the local store
+ */
+
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { LocalStorage } from '../src/storage/local.js';
+import { tempDir } from './helpers.js';
+
+const memory = (content: string) => ({
+    project_id: 'alpha',
+    content,
+    category: 'note',
+    type: 'episodic' as const,
+    importance: 1,
+    metadata: {},
+    embedding: [1, 0],
+    embedding_model: 'test',
+    embedding_dimension: 2,
+});
+
+describe('LocalStorage', () => {
+    const temp = tempDir();
+    after(() => temp.cleanup());
+
+    it('keeps writes made by concurrent first calls', async () => {
+        const path = join(temp.dir, 'concurrent.json');
+        writeFileSync(path, JSON.stringify({ memories: [] }));
+
+        const storage = new LocalStorage(path);
+        await Promise.all([storage.insertMemory(memory('one')), storage.insertMemory(memory('two'))]);
+        await storage.close();
+
+        const reopened = new LocalStorage(path);
+        assert.equal(await reopened.countMemories('alpha'), 2);
+    });
+
+    it('recovers after a failed write', async () => {
+        // A file where the store's directory should be makes the first write fail
+        const dir = join(temp.dir, 'blocked');
+        writeFileSync(dir, '');
+        const path = join(dir, 'store.json');
+        const storage = new LocalStorage(path);
+
+        await assert.rejects(storage.insertMemory(memory('lost')));
+
+        rmSync(dir);
+        mkdirSync(dir);
+        await storage.insertMemory(memory('kept'));
+        await storage.close();
+
+        assert.ok(existsSync(path));
+        const saved = JSON.parse(readFileSync(path, 'utf-8')) as { memories: { content: string }[] };
+        assert.ok(saved.memories.some(m => m.content === 'kept'));
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * The tool surface against the local storage backend
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { connect, startEmbeddingStub, tempDir } from './helpers.js';
+
+describe('memory tools on local storage', () => {
+    let stopEmbedding: () => void;
+    let temp: ReturnType<typeof tempDir>;
+    let client: Awaited<ReturnType<typeof connect>>;
+
+    before(async () => {
+        stopEmbedding = await startEmbeddingStub();
+        temp = tempDir();
+        client = await connect(join(temp.dir, 'store.json'));
+    });
+
+    after(async () => {
+        await client.close();
+        temp.cleanup();
+        stopEmbedding();
+    });
+
+    it('stores, searches and updates memories', async () => {
+        const stored = await client.call('store_memory', {
+            content: 'The backend uses Postgres with pgvector',
+            category: 'tech_stack',
+            project_id: 'alpha',
+        });
+        assert.equal(stored.isError, false);
+        const id = stored.body.memory_id;
+
+        const search = await client.call('search_memories', { query: 'postgres pgvector', project_id: 'alpha', similarity_threshold: 0.1 });
+        assert.equal(search.isError, false);
+        assert.deepEqual(search.body.results.map((r: { id: string }) => r.id), [id]);
+
+        const other = await client.call('search_memories', { query: 'postgres pgvector', project_id: 'beta', similarity_threshold: 0.1 });
+        assert.deepEqual(other.body.results, []);
+
+        const updated = await client.call('update_memory', { memory_id: id, project_id: 'alpha', importance: 4 });
+        assert.equal(updated.isError, false);
+
+        const fetched = await client.call('get_memory', { memory_id: id, project_id: 'alpha' });
+        assert.equal(fetched.body.importance, 4);
+    });
+
+    it('relates memories within a project', async () => {
+        const first = await client.call('store_memory', { content: 'Chose Fastify', category: 'decision', project_id: 'alpha' });
+        const second = await client.call('store_memory', { content: 'Fastify needs Node 20', category: 'constraint', project_id: 'alpha' });
+        const elsewhere = await client.call('store_memory', { content: 'Unrelated', category: 'note', project_id: 'beta' });
+
+        const related = await client.call('create_reaction', {
+            source_id: first.body.memory_id,
+            target_id: second.body.memory_id,
+            relation_type: 'related_to',
+        });
+        assert.equal(related.isError, false);
+
+        const crossProject = await client.call('create_reaction', {
+            source_id: first.body.memory_id,
+            target_id: elsewhere.body.memory_id,
+            relation_type: 'related_to',
+        });
+        assert.equal(crossProject.isError, true);
+    });
+
+    it('keeps structured and short-term memory', async () => {
+        await client.call('set_structured_memory', { project_id: 'alpha', category: 'config', key: 'port', value: 8080 });
+        const value = await client.call('get_structured_memory', { project_id: 'alpha', category: 'config', key: 'port' });
+        assert.equal(value.body.value, 8080);
+
+        await client.call('set_short_term_memory', { session_id: 's1', key: 'draft', value: { step: 2 } });
+        const draft = await client.call('get_short_term_memory', { session_id: 's1', key: 'draft' });
+        assert.deepEqual(draft.body, { step: 2 });
+    });
+
+    it('imports an archive without touching other projects', async () => {
+        const original = await client.call('store_memory', { content: 'Deploys run on Fridays', category: 'process', project_id: 'gamma' });
+        const path = join(temp.dir, 'gamma.jsonl');
+        assert.equal((await client.call('export_project', { project_id: 'gamma', path })).isError, false);
+
+        const imported = await client.call('import_project', { path, project_id: 'delta', on_conflict: 'overwrite' });
+        assert.equal(imported.isError, false);
+        assert.equal(imported.body.memories_imported, 1);
+        assert.equal(imported.body.memories_renamed, 1);
+
+        const kept = await client.call('get_memory', { memory_id: original.body.memory_id, project_id: 'gamma' });
+        assert.equal(kept.body.project_id, 'gamma');
+        const copy = await client.call('search_memories', { query: 'deploys fridays', project_id: 'delta', similarity_threshold: 0.1 });
+        assert.equal(copy.body.results.length, 1);
+        assert.notEqual(copy.body.results[0].id, original.body.memory_id);
+    });
+
+    it('merges a re-stored memory into the existing one', async () => {
+        const first = await client.call('store_memory', { content: 'Always run migrations before deploying', category: 'process', project_id: 'epsilon', type: 'insight', importance: 3 });
+        const again = await client.call('store_memory', {
+            content: 'Always run migrations before deploying',
+            category: 'process',
+            project_id: 'epsilon',
+            type: 'insight',
+            importance: 3,
+            on_duplicate: 'merge',
+        });
+        assert.equal(again.body.action, 'merged');
+        assert.equal(again.body.memory_id, first.body.memory_id);
+
+        const kept = await client.call('get_memory', { memory_id: first.body.memory_id, project_id: 'epsilon' });
+        assert.equal(kept.body.importance, 4);
+        assert.equal(kept.body.metadata.duplicate_count, 1);
+    });
+
+    it('collapses duplicates with dedupe_project', async () => {
+        for (const project_id of ['zeta-merge', 'zeta-link']) {
+            await client.call('store_memory', { content: 'Project uses Next.js 14', category: 'tech_stack', project_id });
+            await client.call('store_memory', { content: 'Project uses Next.js 14', category: 'tech_stack', project_id });
+        }
+
+        const merged = await client.call('dedupe_project', { project_id: 'zeta-merge', action: 'merge', dry_run: false });
+        assert.equal(merged.body.duplicates_found, 1);
+        assert.equal(merged.body.duplicates_processed, 1);
+        const remaining = await client.call('search_memories', { query: 'next.js', project_id: 'zeta-merge', similarity_threshold: 0.1 });
+        assert.equal(remaining.body.results.length, 1);
+
+        const linked = await client.call('dedupe_project', { project_id: 'zeta-link', action: 'link', dry_run: false });
+        assert.equal(linked.body.duplicates_processed, 1);
+        const relations = await client.call('list_relations', { project_id: 'zeta-link', relation_type: 'duplicates' });
+        assert.equal(relations.body.length, 1);
+    });
+
+    it('returns structured errors', async () => {
+        const result = await client.call('update_memory', { memory_id: '00000000-0000-0000-0000-000000000000', project_id: 'alpha' });
+        assert.equal(result.isError, true);
+        assert.equal(result.body.error.code, 'invalid_request');
+        assert.equal(result.body.error.retryable, false);
+
+        const emptyPath = await client.call('ingest_document', { project_id: 'alpha', category: 'docs', path: '' });
+        assert.equal(emptyPath.body.error.code, 'invalid_request');
+
+        const badCursor = await client.call('list_memories', { project_id: 'alpha', cursor: 'not-a-cursor' });
+        assert.equal(badCursor.body.error.code, 'invalid_request');
+
+        for (const [tool, args] of [
+            ['get_memory', { memory_id: '00000000-0000-0000-0000-000000000000', project_id: 'alpha' }],
+            ['get_structured_memory', { project_id: 'alpha', category: 'config', key: 'missing' }],
+            ['patch_structured_memory', { project_id: 'alpha', category: 'config', key: 'missing', patch: [{ op: 'add', path: '/a', value: 1 }] }],
+        ] as const) {
+            const missing = await client.call(tool, args);
+            assert.equal(missing.isError, true, tool);
+            assert.equal(missing.body.error.code, 'not_found', tool);
+        }
+    });
+});